@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'vitest';
+import { Client } from 'azure-kusto-data';
+import { createConnectionStringBuilder, getClusterUrl } from './clusterConnection';
+import { parseConnectionString } from './connectionString';
+
+describe('cluster connection', () => {
+    test('uses HTTPS for clusters without a scheme', () => {
+        expect(['help.kusto.windows.net', 'https://help.kusto.windows.net', 'http://localhost:8080'].map(getClusterUrl)).toMatchInlineSnapshot(`
+          [
+            "https://help.kusto.windows.net",
+            "https://help.kusto.windows.net",
+            "http://localhost:8080",
+          ]
+        `);
+    });
+
+    test('connects to the emulator without authentication', async () => {
+        const cs = parseConnectionString('Data Source=http://localhost:8080;Fed=false');
+        const client = new Client(createConnectionStringBuilder(getClusterUrl(cs.dataSource!), cs));
+        expect(client.endpoints.query).toBe('http://localhost:8080/v2/rest/query');
+        expect(await client.aadHelper.getAuthHeader()).toBeNull();
+    });
+});
@@ -0,0 +1,34 @@
+import { KustoConnectionStringBuilder } from 'azure-kusto-data';
+import { AzureCliCredential } from '@azure/identity';
+import { KustoConnectionString } from './connectionString';
+
+/**
+ * Get the URL of a cluster; names without a scheme (e.g. `help.kusto.windows.net`) use HTTPS,
+ * while explicit schemes are kept (e.g. `http://localhost:8080` of the Kusto emulator).
+ */
+export function getClusterUrl(cluster: string): string {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(cluster) ? cluster : `https://${cluster}`;
+}
+
+/**
+ * Create the connection string builder for a connection string's authentication settings:
+ * application key, user/application token, no authentication for `Fed=false` (e.g. the Kusto emulator),
+ * or otherwise federated 'az login' credentials.
+ */
+export function createConnectionStringBuilder(clusterUrl: string, cs: KustoConnectionString): KustoConnectionStringBuilder {
+    if (cs.appClientId && cs.appKey) {
+        return KustoConnectionStringBuilder.withAadApplicationKeyAuthentication(clusterUrl, cs.appClientId, cs.appKey, cs.authorityId);
+    }
+    const token = cs.userToken ?? cs.appToken;
+    if (token) {
+        return KustoConnectionStringBuilder.withAccessToken(clusterUrl, token);
+    }
+    if (cs.fed === false) {
+        // Without any authentication settings, the client sends no Authorization header
+        return new KustoConnectionStringBuilder(clusterUrl);
+    }
+    return KustoConnectionStringBuilder.withTokenCredential(
+        clusterUrl,
+        new AzureCliCredential(cs.authorityId ? { tenantId: cs.authorityId } : undefined)
+    );
+}
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { parseConnectionString } from './connectionString';
+
+describe('parseConnectionString', () => {
+    test('federated user authentication', () => {
+        expect(parseConnectionString('Data Source=https://help.kusto.windows.net;Initial Catalog=Samples;Fed=True')).toMatchInlineSnapshot(`
+          {
+            "dataSource": "https://help.kusto.windows.net",
+            "fed": true,
+            "initialCatalog": "Samples",
+          }
+        `);
+    });
+
+    test('no authentication', () => {
+        expect(parseConnectionString('Data Source=http://localhost:8080;Fed=false')).toMatchInlineSnapshot(`
+          {
+            "dataSource": "http://localhost:8080",
+            "fed": false,
+          }
+        `);
+    });
+
+    test('application key with authority', () => {
+        expect(parseConnectionString('Data Source=https://mycluster.kusto.windows.net:443; Database = MyDb; AppClientId=1234; AppKey="a;b=c"; Authority Id=contoso.com')).toMatchInlineSnapshot(`
+          {
+            "appClientId": "1234",
+            "appKey": "a;b=c",
+            "authorityId": "contoso.com",
+            "dataSource": "https://mycluster.kusto.windows.net:443",
+            "initialCatalog": "MyDb",
+          }
+        `);
+    });
+
+    test('user token and keyword aliases', () => {
+        expect(parseConnectionString('Addr=mycluster.westeurope;UsrToken=eyJ0;Application Client Id=my-app;Unknown=1')).toMatchInlineSnapshot(`
+          {
+            "appClientId": "my-app",
+            "dataSource": "mycluster.westeurope",
+            "userToken": "eyJ0",
+          }
+        `);
+    });
+
+    test('plain cluster URL', () => {
+        expect(parseConnectionString('https://help.kusto.windows.net')).toMatchInlineSnapshot(`
+          {
+            "dataSource": "https://help.kusto.windows.net",
+          }
+        `);
+        expect(parseConnectionString('')).toMatchInlineSnapshot(`{}`);
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Settings of a Kusto connection string, e.g.
+ * `Data Source=https://help.kusto.windows.net;Initial Catalog=Samples;Fed=true`.
+ */
+export interface KustoConnectionString {
+    /** Cluster URL (`Data Source`, `Addr`, `Address`, `Network Address`, `Server`) */
+    readonly dataSource?: string;
+    /** Default database (`Initial Catalog`, `Database`) */
+    readonly initialCatalog?: string;
+    /** Use AAD federated security (`Fed`, `AAD Federated Security`, `Federated`); `false` connects without authentication */
+    readonly fed?: boolean;
+    /** AAD application id (`Application Client Id`, `AppClientId`) */
+    readonly appClientId?: string;
+    /** AAD application key (`Application Key`, `AppKey`) */
+    readonly appKey?: string;
+    /** AAD tenant (`Authority Id`, `Authority`, `TenantId`) */
+    readonly authorityId?: string;
+    /** Pre-acquired user access token (`User Token`, `UsrToken`, `UserToken`) */
+    readonly userToken?: string;
+    /** Pre-acquired application access token (`Application Token`, `AppToken`) */
+    readonly appToken?: string;
+}
+
+type StringKey = Exclude<keyof KustoConnectionString, 'fed'>;
+
+/** Keywords (lowercase, without whitespace) mapped to their setting. */
+const keywords: Record<string, StringKey | 'fed'> = {
+    'datasource': 'dataSource',
+    'addr': 'dataSource',
+    'address': 'dataSource',
+    'networkaddress': 'dataSource',
+    'server': 'dataSource',
+    'initialcatalog': 'initialCatalog',
+    'database': 'initialCatalog',
+    'fed': 'fed',
+    'aadfederatedsecurity': 'fed',
+    'federated': 'fed',
+    'federatedsecurity': 'fed',
+    'applicationclientid': 'appClientId',
+    'appclientid': 'appClientId',
+    'applicationkey': 'appKey',
+    'appkey': 'appKey',
+    'authorityid': 'authorityId',
+    'authority': 'authorityId',
+    'tenantid': 'authorityId',
+    'tenant': 'authorityId',
+    'usertoken': 'userToken',
+    'usrtoken': 'userToken',
+    'applicationtoken': 'appToken',
+    'apptoken': 'appToken',
+};
+
+/**
+ * Parse a Kusto connection string.
+ * Keywords are case-insensitive and ignore whitespace; values may be quoted with `"` or `'`.
+ * Unknown keywords are ignored. A connection string without `=` is treated as the cluster URL.
+ */
+export function parseConnectionString(connectionString: string): KustoConnectionString {
+    const result: { -readonly [K in keyof KustoConnectionString]: KustoConnectionString[K] } = {};
+
+    const pairs = splitPairs(connectionString);
+    if (pairs.length === 1 && !pairs[0].includes('=')) {
+        const dataSource = pairs[0].trim();
+        return dataSource ? { dataSource } : {};
+    }
+
+    for (const pair of pairs) {
+        const eq = pair.indexOf('=');
+        if (eq === -1) {
+            continue;
+        }
+        const setting = keywords[pair.substring(0, eq).replace(/\s+/g, '').toLowerCase()];
+        if (!setting) {
+            continue;
+        }
+        const value = unquote(pair.substring(eq + 1).trim());
+        if (setting === 'fed') {
+            result.fed = /^(true|yes)$/i.test(value);
+        } else if (value !== '') {
+            result[setting] = value;
+        }
+    }
+
+    return result;
+}
+
+/** Split at `;`, ignoring separators inside quoted values. */
+function splitPairs(text: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) {
+                quote = null;
+            }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === ';') {
+            parts.push(text.substring(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.substring(start));
+    return parts.filter(p => p.trim() !== '');
+}
+
+function unquote(value: string): string {
+    if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+        return value.slice(1, -1);
+    }
+    return value;
+}
@@ -1,2 +1,6 @@
-export { KustoClient, getKustoClient, QueryResult, AuthType } from './kustoClient';
+export { KustoClient, getKustoClient, QueryResult, ResultTable, QueryProgressOptions, AuthType, ConnectionStringAuth } from './kustoClient';
+export { KustoConnectionString, parseConnectionString } from './connectionString';
 export { LanguageServiceCache, getLanguageServiceCache } from './languageServiceCache';
+export { SchemaFileCache, getSchemaFileCache, setSchemaFileCache } from './schemaFileCache';
+export { parseSchemaJson } from './schemaJson';
+export { QueryStatistics } from './queryStatistics';
@@ -1,12 +1,27 @@
 import { Client, KustoConnectionStringBuilder, ClientRequestProperties } from 'azure-kusto-data';
 import * as vscode from 'vscode';
-import { KustoSchema, TableSchema, ColumnSchema } from '../language/kusto/kustoLanguageService';
+import { KustoSchema } from '../language/kusto/kustoLanguageService';
 import { AccessToken, TokenCredential, AzureCliCredential, DefaultAzureCredential } from '@azure/identity';
-import { ConnectionConfig } from '../language/akusto/instructionTypes';
+import { ConnectionConfig, QueryOptions } from '../language/akusto/instructionTypes';
 import { randomUUID } from 'crypto';
+import { KustoConnectionString } from './connectionString';
+import { createConnectionStringBuilder, getClusterUrl } from './clusterConnection';
+import { parseSchemaJson } from './schemaJson';
+import { normalizeColumnType, parseTimespanMs } from './kustoValues';
+import { QueryStatistics, parseQueryStatistics } from './queryStatistics';
+import { FrameReader, ProgressiveResponse, RawTable } from './progressiveResponse';
+import { StreamingQueryTransport, getStreamingQueryTransport } from './streamingQuery';
 
-/** Auth type for creating clients */
-export type AuthType = ConnectionConfig['type'];
+/**
+ * Authentication from a parsed connection string.
+ */
+export interface ConnectionStringAuth {
+    readonly type: 'connectionString';
+    readonly connectionString: KustoConnectionString;
+}
+
+/** Auth type for creating clients: a credential type, or the settings of a connection string */
+export type AuthType = Exclude<ConnectionConfig['type'], 'connectionString'> | ConnectionStringAuth;
 
 /**
  * Token credential that uses VS Code's built-in authentication.
@@ -33,7 +48,7 @@ class VsCodeTokenCredential implements TokenCredential {
 /**
  * Create a token credential based on auth type.
  */
-function createCredential(authType: AuthType): TokenCredential {
+function createCredential(authType: Exclude<AuthType, ConnectionStringAuth>): TokenCredential {
     switch (authType) {
         case 'azureCli':
             return new AzureCliCredential();
@@ -58,11 +73,142 @@ export interface KustoVisualization {
     [key: string]: unknown;
 }
 
-export interface QueryResult {
+/**
+ * A named result table, e.g. `PrimaryResult` or the name given by `fork`/`as`.
+ */
+export interface ResultTable {
+    name: string;
     columns: string[];
+    /** Kusto type of each column (`long`, `datetime`, `dynamic`, ...) */
+    columnTypes: string[];
     rows: unknown[][];
     totalRows: number;
     visualization?: KustoVisualization;
+    /** Entries of the `@ExtendedProperties` table that refer to this table, by key */
+    extendedProperties?: Record<string, unknown>;
+}
+
+export interface QueryResult {
+    /** All primary result tables, in the order the query produced them */
+    tables: ResultTable[];
+    /** Resource consumption reported by the cluster */
+    statistics?: QueryStatistics;
+}
+
+/**
+ * Streams the rows of a query as they arrive, using progressive results.
+ */
+export interface QueryProgressOptions {
+    /** Rows to keep per table; further rows are discarded, but counted in `totalRows` */
+    readonly maxRows: number;
+    /** Called whenever rows arrived, with the primary result tables so far */
+    readonly onProgress: (tables: ResultTable[]) => void;
+}
+
+/**
+ * Parse the `Visualization` extended property (the JSON written by the render operator).
+ */
+function parseVisualization(value: unknown): KustoVisualization | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    try {
+        const vizProps = JSON.parse(value);
+        return {
+            type: vizProps.Visualization ?? 'table',
+            xColumn: vizProps.XColumn,
+            yColumns: vizProps.YColumns?.split(',').map((s: string) => s.trim()),
+            series: vizProps.Series,
+            title: vizProps.Title,
+            xTitle: vizProps.XTitle,
+            yTitle: vizProps.YTitle,
+            legend: vizProps.Legend,
+            yScale: vizProps.YScale,
+        };
+    } catch {
+        // If parsing fails, try to use value as visualization type
+        return { type: value || 'table' };
+    }
+}
+
+/**
+ * Create the request properties for the options of `:setOptions`.
+ */
+function createRequestProperties(options: QueryOptions | undefined): ClientRequestProperties {
+    const properties = new ClientRequestProperties();
+    for (const [name, value] of Object.entries(options ?? {})) {
+        if (value === undefined) {
+            continue;
+        }
+        if (name === 'parameters' && typeof value === 'object') {
+            for (const [parameter, parameterValue] of Object.entries(value)) {
+                properties.setParameter(parameter, parameterValue);
+            }
+        } else if (name === 'servertimeout' && typeof value === 'string') {
+            // The client timeout (of the SDK and of streamed queries) is derived from the server timeout
+            const timeoutMs = parseTimespanMs(value);
+            if (timeoutMs !== undefined) {
+                properties.setTimeout(timeoutMs);
+            }
+        } else {
+            properties.setOption(name, value);
+        }
+    }
+    return properties;
+}
+
+/**
+ * Extract the `@ExtendedProperties` table of a response, grouped by the id of the table they refer to.
+ * Rows are `[TableId, Key, Value]`; responses without table ids refer to the first table.
+ */
+function extractExtendedProperties(tables: readonly RawTable[]): Map<number, Record<string, unknown>> {
+    const result = new Map<number, Record<string, unknown>>();
+    for (const table of tables) {
+        if (table.name !== '@ExtendedProperties') {
+            continue;
+        }
+        for (const row of table.rows) {
+            const tableId = typeof row[0] === 'number' ? row[0] : 0;
+            const properties = result.get(tableId) ?? {};
+            properties[String(row[1])] = row[2];
+            result.set(tableId, properties);
+        }
+    }
+    return result;
+}
+
+function toResultTable(table: RawTable, properties: Record<string, unknown> | undefined): ResultTable {
+    return {
+        name: table.name,
+        columns: table.columns.map(c => c.name),
+        columnTypes: table.columns.map(c => normalizeColumnType(c.type)),
+        rows: table.rows,
+        totalRows: table.totalRows,
+        visualization: parseVisualization(properties?.['Visualization']),
+        extendedProperties: properties,
+    };
+}
+
+/**
+ * Build the result of a response from its primary result tables and the other tables
+ * (`@ExtendedProperties` with render hints, `QueryCompletionInformation` with statistics).
+ */
+function toQueryResult(primaryTables: readonly RawTable[], otherTables: readonly RawTable[]): QueryResult {
+    // Properties (e.g. render hints) per table, from the @ExtendedProperties table
+    const extendedProperties = extractExtendedProperties(otherTables);
+    // With a single table, its properties don't depend on matching table ids
+    const singleTableProperties = primaryTables.length === 1 && extendedProperties.size === 1
+        ? [...extendedProperties.values()][0]
+        : undefined;
+
+    const tables = primaryTables.map(table => toResultTable(table, extendedProperties.get(table.id) ?? singleTableProperties));
+
+    const statusTable = otherTables.find(t => t.kind === 'QueryCompletionInformation');
+    const statistics = statusTable
+        ? parseQueryStatistics(statusTable.columns.map(c => c.name), statusTable.rows)
+        : undefined;
+
+    return { tables, statistics };
 }
 
 /**
@@ -70,6 +216,7 @@ export interface QueryResult {
  * - azureCli: Uses 'az login' credentials (recommended)
  * - vscode: Uses VS Code's built-in authentication
  * - defaultAzure: Tries multiple methods automatically
+ * - connectionString: Uses the authentication settings of a connection string
  */
 export class KustoClient {
     private readonly clients = new Map<string, Client>();
@@ -77,12 +224,26 @@ export class KustoClient {
     /**
      * Execute a query against a Kusto cluster.
      * @param signal - Optional AbortSignal to cancel the query. When aborted, a cancel command is sent to the server.
+     * @param options - Client request properties and query parameters (`:setOptions`)
+     * @param progress - Stream rows as they arrive instead of waiting for the whole response
+     */
+    async executeQuery(cluster: string, database: string, query: string, authType: AuthType = 'azureCli', signal?: AbortSignal, options?: QueryOptions, progress?: QueryProgressOptions): Promise<QueryResult> {
+        return this._execute('query', cluster, database, query, authType, signal, options, progress);
+    }
+
+    /**
+     * Execute a management command (`.show`, `.create-or-alter function`, ...) via the management endpoint.
+     * Parameters are the same as for {@link executeQuery}.
      */
-    async executeQuery(cluster: string, database: string, query: string, authType: AuthType = 'azureCli', signal?: AbortSignal): Promise<QueryResult> {
+    async executeManagementCommand(cluster: string, database: string, command: string, authType: AuthType = 'azureCli', signal?: AbortSignal, options?: QueryOptions): Promise<QueryResult> {
+        return this._execute('command', cluster, database, command, authType, signal, options, undefined);
+    }
+
+    private async _execute(kind: 'query' | 'command', cluster: string, database: string, query: string, authType: AuthType, signal: AbortSignal | undefined, options: QueryOptions | undefined, progress: QueryProgressOptions | undefined): Promise<QueryResult> {
         const client = await this._getClient(cluster, authType);
 
         // Create request properties with a custom clientRequestId for cancellation support
-        const properties = new ClientRequestProperties();
+        const properties = createRequestProperties(options);
         const clientRequestId = `vscode-kusto;${randomUUID()}`;
         properties.clientRequestId = clientRequestId;
 
@@ -99,27 +260,29 @@ export class KustoClient {
         }
 
         try {
-            const response = await client.execute(database, query, properties);
-
-            const primaryResults = response.primaryResults[0];
-            if (!primaryResults || primaryResults._rows.length === 0) {
-                return { columns: [], rows: [], totalRows: 0 };
+            // Without a transport for streamed responses, rows only arrive with the complete response
+            const transport = kind === 'query' && progress ? getStreamingQueryTransport(client) : undefined;
+            if (transport && progress) {
+                return await this._executeProgressive(transport, database, query, properties, progress, signal);
             }
 
-            const columns = primaryResults.columns.map(c => c.name ?? '');
-            const rows = primaryResults._rows.map(row =>
-                columns.map((_, i) => row[i])
-            );
-
-            // Extract visualization properties from @ExtendedProperties table
-            const visualization = this._extractVisualization(response);
-
-            return {
-                columns,
-                rows,
-                totalRows: rows.length,
-                visualization,
-            };
+            const response = kind === 'command'
+                ? await client.executeMgmt(database, query, properties)
+                : await client.executeQuery(database, query, properties);
+
+            const toRawTable = (table: typeof response.tables[number], tableKind: string): RawTable => ({
+                id: table.id ?? 0,
+                name: table.name,
+                kind: tableKind,
+                columns: table.columns.map(c => ({ name: c.name ?? '', type: c.type ?? '' })),
+                rows: table._rows.map(row => table.columns.map((_, i) => row[i])),
+                totalRows: table._rows.length,
+            });
+            const primaryTables = response.primaryResults.map((table, index) => ({ ...toRawTable(table, 'PrimaryResult'), id: table.id ?? index }));
+            const otherTables = response.tables
+                .filter(table => !response.primaryResults.includes(table))
+                .map(table => toRawTable(table, table === response.statusTable ? 'QueryCompletionInformation' : String(table.kind ?? '')));
+            return toQueryResult(primaryTables, otherTables);
         } finally {
             // Clean up abort handler
             if (signal && abortHandler) {
@@ -143,49 +306,28 @@ export class KustoClient {
     }
 
     /**
-     * Extract visualization properties from Kusto response.
-     * Kusto stores render hints in the @ExtendedProperties secondary result.
+     * Execute a query with progressive results (`results_progressive_enabled`) and read the response as a stream.
+     * The SDK only parses complete responses, so the request is sent with the client's own HTTP instance (see {@link getStreamingQueryTransport}).
+     * Frames are parsed with {@link FrameReader}, which keeps large longs exact; SDK responses round them to doubles.
      */
-    private _extractVisualization(response: { primaryResults: unknown[]; tables?: unknown[] }): KustoVisualization | undefined {
-        // Look for visualization info in tables (secondary results)
-        const tables = (response as { tables?: Array<{ name?: string; _rows?: unknown[][] }> }).tables;
-        if (!tables) return undefined;
-
-        for (const table of tables) {
-            // Find the @ExtendedProperties table which contains visualization info
-            const tableName = (table as { name?: string }).name;
-            if (tableName === '@ExtendedProperties') {
-                const rows = (table as { _rows?: unknown[][] })._rows;
-                if (rows) {
-                    for (const row of rows) {
-                        // Row structure: [propertyId, key, value]
-                        const key = row[1] as string;
-                        if (key === 'Visualization') {
-                            const value = row[2] as string;
-                            try {
-                                const vizProps = JSON.parse(value);
-                                return {
-                                    type: vizProps.Visualization ?? 'table',
-                                    xColumn: vizProps.XColumn,
-                                    yColumns: vizProps.YColumns?.split(',').map((s: string) => s.trim()),
-                                    series: vizProps.Series,
-                                    title: vizProps.Title,
-                                    xTitle: vizProps.XTitle,
-                                    yTitle: vizProps.YTitle,
-                                    legend: vizProps.Legend,
-                                    yScale: vizProps.YScale,
-                                };
-                            } catch {
-                                // If parsing fails, try to use value as visualization type
-                                return { type: value || 'table' };
-                            }
-                        }
-                    }
-                }
+    private async _executeProgressive(transport: StreamingQueryTransport, database: string, query: string, properties: ClientRequestProperties, progress: QueryProgressOptions, signal: AbortSignal | undefined): Promise<QueryResult> {
+        properties.setOption('results_progressive_enabled', true);
+        const stream = await transport.post(database, query, properties, signal);
+
+        const result = new ProgressiveResponse(progress.maxRows);
+        const reader = new FrameReader();
+        const decoder = new TextDecoder();
+        for await (const chunk of stream) {
+            let rowsChanged = false;
+            for (const frame of reader.push(decoder.decode(chunk, { stream: true }))) {
+                rowsChanged = result.addFrame(frame as object) || rowsChanged;
+            }
+            if (rowsChanged) {
+                progress.onProgress(result.primaryTables.map(table => toResultTable(table, undefined)));
             }
         }
 
-        return undefined;
+        return toQueryResult(result.primaryTables, result.tables.filter(t => t.kind !== 'PrimaryResult'));
     }
 
     /**
@@ -193,6 +335,17 @@ export class KustoClient {
      * Returns tables and their columns.
      */
     async getSchema(cluster: string, database: string, authType: AuthType = 'azureCli'): Promise<KustoSchema> {
+        const schemaJson = await this.getSchemaJson(cluster, database, authType);
+        if (schemaJson === undefined) {
+            return { cluster, database, tables: [] };
+        }
+        return parseSchemaJson(schemaJson, cluster, database);
+    }
+
+    /**
+     * Get the raw output of `.show database schema as json`, or undefined if there is none.
+     */
+    async getSchemaJson(cluster: string, database: string, authType: AuthType = 'azureCli'): Promise<string | undefined> {
         const client = await this._getClient(cluster, authType);
 
         // Use .show database schema to get all tables and columns
@@ -201,31 +354,11 @@ export class KustoClient {
 
         const primaryResults = response.primaryResults[0];
         if (!primaryResults || primaryResults._rows.length === 0) {
-            return { cluster, database, tables: [] };
+            return undefined;
         }
 
         // The result is a JSON string in the first column
-        const schemaJson = primaryResults._rows[0][0] as string;
-        const schema = JSON.parse(schemaJson);
-
-        const tables: TableSchema[] = [];
-
-        // Parse the schema JSON structure
-        const dbSchema = schema.Databases?.[database];
-        if (dbSchema?.Tables) {
-            for (const [tableName, tableInfo] of Object.entries(dbSchema.Tables)) {
-                const tableData = tableInfo as { OrderedColumns?: Array<{ Name: string; Type: string; DocString?: string }> };
-                const columns: ColumnSchema[] = (tableData.OrderedColumns ?? []).map(col => ({
-                    name: col.Name,
-                    type: this._mapKustoType(col.Type),
-                    docstring: col.DocString,
-                }));
-
-                tables.push({ name: tableName, columns });
-            }
-        }
-
-        return { cluster, database, tables };
+        return primaryResults._rows[0][0] as string;
     }
 
     /**
@@ -243,41 +376,23 @@ export class KustoClient {
 
     private async _getClient(cluster: string, authType: AuthType = 'azureCli'): Promise<Client> {
         // Normalize cluster URL
-        const clusterUrl = cluster.startsWith('https://')
-            ? cluster
-            : `https://${cluster}`;
+        const clusterUrl = getClusterUrl(cluster);
 
-        // Cache key includes auth type
-        const cacheKey = `${clusterUrl}:${authType}`;
+        // Cache key includes auth type (and the credentials of connection strings)
+        const cacheKey = typeof authType === 'string'
+            ? `${clusterUrl}:${authType}`
+            : `${clusterUrl}:connectionString:${JSON.stringify(authType.connectionString)}`;
 
         let client = this.clients.get(cacheKey);
         if (!client) {
-            const credential = createCredential(authType);
-            const connectionString = KustoConnectionStringBuilder.withTokenCredential(
-                clusterUrl,
-                credential
-            );
+            const connectionString = typeof authType === 'string'
+                ? KustoConnectionStringBuilder.withTokenCredential(clusterUrl, createCredential(authType))
+                : createConnectionStringBuilder(clusterUrl, authType.connectionString);
             client = new Client(connectionString);
             this.clients.set(cacheKey, client);
         }
         return client;
     }
-
-    private _mapKustoType(kustoType: string): string {
-        // Map Kusto types to simpler names if needed
-        const typeMap: Record<string, string> = {
-            'System.String': 'string',
-            'System.Int32': 'int',
-            'System.Int64': 'long',
-            'System.Double': 'real',
-            'System.DateTime': 'datetime',
-            'System.Boolean': 'bool',
-            'System.TimeSpan': 'timespan',
-            'System.Guid': 'guid',
-            'System.Object': 'dynamic',
-        };
-        return typeMap[kustoType] ?? kustoType;
-    }
 }
 
 /**
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { normalizeColumnType, parseKustoJson, parseTimespanMs } from './kustoValues';
+
+describe('parseKustoJson', () => {
+    test('keeps integers beyond the safe range exact', () => {
+        expect(parseKustoJson('[9223372036854775807, -9007199254740993, 9007199254740991, 1.5e300, 12]')).toMatchInlineSnapshot(`
+          [
+            "9223372036854775807",
+            "-9007199254740993",
+            9007199254740991,
+            1.5e+300,
+            12,
+          ]
+        `);
+    });
+
+    test('ignores numbers inside strings', () => {
+        expect(parseKustoJson('{"a\\"12345678901234567890": "12345678901234567890", "b": 1}')).toMatchInlineSnapshot(`
+          {
+            "a"12345678901234567890": "12345678901234567890",
+            "b": 1,
+          }
+        `);
+    });
+});
+
+describe('normalizeColumnType', () => {
+    test('maps .NET names to Kusto types', () => {
+        expect(['long', 'Int64', 'System.DateTime', 'SByte', 'Object', 'TimeSpan', undefined].map(normalizeColumnType)).toMatchInlineSnapshot(`
+          [
+            "long",
+            "long",
+            "datetime",
+            "bool",
+            "dynamic",
+            "timespan",
+            "dynamic",
+          ]
+        `);
+    });
+});
+
+describe('parseTimespanMs', () => {
+    test('parses days, fractions and signs', () => {
+        expect(['00:00:00.0156250', '1.02:03:04.5', '-00:01:00', 'invalid'].map(parseTimespanMs)).toMatchInlineSnapshot(`
+          [
+            15.625,
+            93784500,
+            -60000,
+            undefined,
+          ]
+        `);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Parse a Kusto response body.
+ * Unlike `JSON.parse`, integers beyond `Number.MAX_SAFE_INTEGER` (e.g. large `long` values)
+ * are kept as their exact decimal string instead of being rounded to the nearest double.
+ */
+export function parseKustoJson(text: string): unknown {
+    return JSON.parse(quoteUnsafeIntegers(text));
+}
+
+/** Quote integer literals outside of strings that don't fit into a double without loss. */
+function quoteUnsafeIntegers(text: string): string {
+    let result = '';
+    let copiedUpTo = 0;
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"') {
+            // Skip the string, including escaped quotes
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            i++;
+        } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+            const start = i;
+            i++;
+            while (i < text.length && /[0-9.eE+-]/.test(text[i])) {
+                i++;
+            }
+            const literal = text.substring(start, i);
+            if (/^-?\d+$/.test(literal) && !Number.isSafeInteger(Number(literal))) {
+                result += text.substring(copiedUpTo, start) + `"${literal}"`;
+                copiedUpTo = i;
+            }
+        } else {
+            i++;
+        }
+    }
+
+    return copiedUpTo === 0 ? text : result + text.substring(copiedUpTo);
+}
+
+/** .NET type names used by v1 responses (e.g. management commands) mapped to Kusto types. */
+const dotNetTypes: Record<string, string> = {
+    'system.string': 'string',
+    'system.int32': 'int',
+    'system.int64': 'long',
+    'system.double': 'real',
+    'system.single': 'real',
+    'system.decimal': 'decimal',
+    'system.data.sqltypes.sqldecimal': 'decimal',
+    'system.boolean': 'bool',
+    'system.sbyte': 'bool',
+    'system.datetime': 'datetime',
+    'system.timespan': 'timespan',
+    'system.guid': 'guid',
+    'system.object': 'dynamic',
+};
+
+/**
+ * Normalize a column type of a Kusto response to the Kusto type name (`long`, `datetime`, ...).
+ * v2 responses already use Kusto names; v1 responses use .NET names (`Int64`, `DateTime`, ...).
+ */
+export function normalizeColumnType(type: string | null | undefined): string {
+    if (!type) {
+        return 'dynamic';
+    }
+    const lower = type.toLowerCase();
+    return dotNetTypes[lower] ?? dotNetTypes[`system.${lower}`] ?? lower;
+}
+
+/** Parse a Kusto timespan (`[-][d.]hh:mm:ss[.fffffff]`) to milliseconds. */
+export function parseTimespanMs(value: string | undefined): number | undefined {
+    const match = value && /^(-)?(?:(\d+)\.)?(\d+):(\d+):(\d+)(?:\.(\d+))?$/.exec(value);
+    if (!match) {
+        return undefined;
+    }
+    const [, sign, days, hours, minutes, seconds, fraction] = match;
+    const ms = ((Number(days ?? 0) * 24 + Number(hours)) * 60 + Number(minutes)) * 60_000
+        + Number(seconds) * 1000
+        + Number(`0.${fraction ?? '0'}`) * 1000;
+    return sign ? -ms : ms;
+}
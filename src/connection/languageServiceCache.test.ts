@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'vitest';
+import { LanguageServiceCache } from './languageServiceCache';
+import { KustoSchema } from '../language/kusto/kustoLanguageService';
+
+function schema(database: string, columns: string[]): KustoSchema {
+    return {
+        cluster: 'https://help.kusto.windows.net',
+        database,
+        tables: [{ name: 'StormEvents', columns: columns.map(name => ({ name, type: 'string' })) }],
+    };
+}
+
+describe('LanguageServiceCache', () => {
+    test('preloaded schemas are stale until refetched', async () => {
+        const cache = new LanguageServiceCache();
+        const fetched: string[] = [];
+        cache.onDidFetchSchema(s => fetched.push(s.database));
+
+        cache.preload(schema('Samples', ['State']), new Date(0));
+        const preloaded = cache.get('https://help.kusto.windows.net', 'samples');
+        expect(preloaded).not.toBe(cache.getDefault());
+        expect(cache.isStale('https://help.kusto.windows.net', 'Samples')).toBe(true);
+
+        const refreshed = await cache.refresh('https://help.kusto.windows.net', 'Samples', async () => schema('Samples', ['EventType']));
+        expect(refreshed).not.toBe(preloaded);
+        expect(cache.get('https://help.kusto.windows.net', 'Samples')).toBe(refreshed);
+        expect(cache.isStale('https://help.kusto.windows.net', 'Samples')).toBe(false);
+        expect(cache.getFetchedAt('https://help.kusto.windows.net', 'Samples')!.getTime()).toBeGreaterThan(0);
+        expect(cache.getSchema('https://help.kusto.windows.net', 'Samples')!.tables[0].columns[0].name).toBe('EventType');
+        expect(fetched).toEqual(['Samples']);
+    });
+
+    test('a failed refresh keeps the cached service', async () => {
+        const cache = new LanguageServiceCache();
+        cache.preload(schema('Samples', ['State']), new Date(0));
+        const preloaded = cache.get('https://help.kusto.windows.net', 'Samples');
+
+        await expect(cache.refresh('https://help.kusto.windows.net', 'Samples', async () => { throw new Error('offline'); })).rejects.toThrow('offline');
+        expect(cache.get('https://help.kusto.windows.net', 'Samples')).toBe(preloaded);
+        // Not retried automatically
+        expect(cache.isStale('https://help.kusto.windows.net', 'Samples')).toBe(false);
+    });
+
+    test('refreshAll refetches all cached schemas', async () => {
+        const cache = new LanguageServiceCache();
+        let fetchCount = 0;
+        await cache.getOrCreate('https://help.kusto.windows.net', 'A', async () => { fetchCount++; return schema('A', []); });
+        cache.preload(schema('B', []), new Date(0), 'azureCli');
+        cache.preload(schema('C', []), new Date(0), { type: 'connectionString', connectionString: { fed: false } });
+        cache.preload(schema('D', []), new Date(0));
+
+        const fetches: string[] = [];
+        const result = await cache.refreshAll(async (_cluster, database, authType) => {
+            fetches.push(`${database}: ${typeof authType === 'string' ? authType : authType.type}`);
+            if (database === 'C') {
+                throw new Error('offline');
+            }
+            return schema(database, ['State']);
+        });
+        expect(result).toEqual({ refreshed: 2, failed: 1, skipped: 1 });
+        // Schemas used in this session are fetched the way they were before, the others with their stored authentication
+        expect(fetchCount).toBe(2);
+        expect(fetches).toMatchInlineSnapshot(`
+          [
+            "B: azureCli",
+            "C: connectionString",
+          ]
+        `);
+        expect(cache.isStale('https://help.kusto.windows.net', 'B')).toBe(false);
+        expect(cache.isStale('https://help.kusto.windows.net', 'D')).toBe(true);
+    });
+
+    test('combines the schemas of referenced databases', async () => {
+        const cache = new LanguageServiceCache();
+        const query = 'cluster("other").database("Shared").Users | project Name';
+        cache.setFromSchema(schema('Samples', ['State']));
+        const references = [{ cluster: 'https://other.kusto.windows.net', database: 'Shared' }];
+
+        // Not fetched yet
+        expect(cache.getWithReferences('https://help.kusto.windows.net', 'Samples', references)).toBe(cache.get('https://help.kusto.windows.net', 'Samples'));
+
+        cache.setFromSchema({ cluster: 'https://other.kusto.windows.net', database: 'Shared', tables: [{ name: 'Users', columns: [{ name: 'Name', type: 'string' }] }] });
+        const combined = cache.getWithReferences('https://help.kusto.windows.net', 'Samples', references);
+        expect(combined.getDiagnostics(query)).toHaveLength(0);
+        expect(cache.getWithReferences('https://help.kusto.windows.net', 'Samples', references)).toBe(combined);
+    });
+
+    test('remembers failed fetches', async () => {
+        const cache = new LanguageServiceCache();
+        await cache.getOrCreate('https://help.kusto.windows.net', 'Samples', async () => { throw new Error('offline'); }).catch(() => { });
+        expect(cache.hasRecentlyFailed('https://help.kusto.windows.net', 'Samples')).toBe(true);
+        expect(cache.hasRecentlyFailed('https://help.kusto.windows.net', 'Samples', 0)).toBe(false);
+
+        await cache.refresh('https://help.kusto.windows.net', 'Samples', async () => schema('Samples', []));
+        expect(cache.hasRecentlyFailed('https://help.kusto.windows.net', 'Samples')).toBe(false);
+    });
+
+    test('refresh without a known connection fails', async () => {
+        const cache = new LanguageServiceCache();
+        await expect(cache.refresh('https://help.kusto.windows.net', 'Samples')).rejects.toThrow('No connection known');
+    });
+});
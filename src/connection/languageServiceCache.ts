@@ -3,6 +3,8 @@ import {
     KustoSchema,
     createKustoLanguageService,
 } from '../language/kusto/kustoLanguageService';
+import { IDisposable } from '../language/common/fileSystem';
+import type { AuthType } from './kustoClient';
 
 /**
  * Cache key for a cluster+database pair.
@@ -14,12 +16,30 @@ function cacheKey(cluster: string, database: string): string {
 /**
  * Caches KustoLanguageService instances per cluster+database.
  * Each service has the schema baked in for completions.
+ *
+ * Schemas loaded from persistent storage are "stale" until a refetch from the
+ * cluster has been started; they are served meanwhile.
  */
 export class LanguageServiceCache {
     private readonly cache = new Map<string, KustoLanguageService>();
+    private readonly schemas = new Map<string, KustoSchema>();
+    /** Services that also know referenced databases, by the keys of all their schemas */
+    private readonly combined = new Map<string, KustoLanguageService>();
     private readonly pending = new Map<string, Promise<KustoLanguageService>>();
     private readonly defaultService: KustoLanguageService;
 
+    /** Fetch functions of the connections used in this session, for refreshing. */
+    private readonly fetchers = new Map<string, { cluster: string; database: string; fetchSchema: () => Promise<KustoSchema> }>();
+    private readonly stale = new Set<string>();
+    private readonly fetchedAt = new Map<string, Date>();
+    /** When the last fetch failed, for fetches that haven't succeeded since */
+    private readonly failedAt = new Map<string, number>();
+    /** Authentication of the last fetch, including fetches of earlier sessions */
+    private readonly authTypes = new Map<string, AuthType>();
+
+    /** Listeners for when a schema was fetched from a cluster */
+    private readonly schemaFetchedListeners = new Set<(schema: KustoSchema, fetchedAt: Date, authType: AuthType | undefined) => void>();
+
     constructor() {
         // Default service without schema (for when no connection is configured)
         this.defaultService = createKustoLanguageService();
@@ -48,6 +68,82 @@ export class LanguageServiceCache {
         return this.cache.has(cacheKey(cluster, database));
     }
 
+    /**
+     * Get a language service for a cluster+database that also knows the schemas of
+     * databases referenced via `cluster()` / `database()`.
+     * References without a cached schema are left out.
+     */
+    getWithReferences(
+        cluster: string,
+        database: string,
+        references: readonly { cluster: string; database: string }[]
+    ): KustoLanguageService {
+        const key = cacheKey(cluster, database);
+        const schema = this.schemas.get(key);
+        if (!schema) {
+            return this.get(cluster, database);
+        }
+
+        const referenced = new Map<string, KustoSchema>();
+        for (const ref of references) {
+            const refKey = cacheKey(ref.cluster, ref.database);
+            const refSchema = this.schemas.get(refKey);
+            if (refKey !== key && refSchema) {
+                referenced.set(refKey, refSchema);
+            }
+        }
+        if (referenced.size === 0) {
+            return this.get(cluster, database);
+        }
+
+        const combinedKey = [key, ...[...referenced.keys()].sort()].join(';');
+        let service = this.combined.get(combinedKey);
+        if (!service) {
+            service = createKustoLanguageService(schema, [...referenced.values()]);
+            this.combined.set(combinedKey, service);
+        }
+        return service;
+    }
+
+    /**
+     * Get the cached schema for a cluster+database.
+     */
+    getSchema(cluster: string, database: string): KustoSchema | undefined {
+        return this.schemas.get(cacheKey(cluster, database));
+    }
+
+    /**
+     * Check if the cached schema was loaded from storage and should be revalidated.
+     */
+    isStale(cluster: string, database: string): boolean {
+        return this.stale.has(cacheKey(cluster, database));
+    }
+
+    /**
+     * Check if the last fetch for a cluster+database failed within the given time,
+     * so background fetches don't retry e.g. unreachable clusters on every keystroke.
+     */
+    hasRecentlyFailed(cluster: string, database: string, withinMs = 60_000): boolean {
+        const failedAt = this.failedAt.get(cacheKey(cluster, database));
+        return failedAt !== undefined && Date.now() - failedAt < withinMs;
+    }
+
+    /**
+     * Get when the cached schema was fetched from the cluster.
+     */
+    getFetchedAt(cluster: string, database: string): Date | undefined {
+        return this.fetchedAt.get(cacheKey(cluster, database));
+    }
+
+    /**
+     * Listen for schemas fetched from a cluster.
+     * Used to persist schemas across sessions and to update the schema explorer.
+     */
+    onDidFetchSchema(listener: (schema: KustoSchema, fetchedAt: Date, authType: AuthType | undefined) => void): IDisposable {
+        this.schemaFetchedListeners.add(listener);
+        return { dispose: () => this.schemaFetchedListeners.delete(listener) };
+    }
+
     /**
      * Get or create a language service for a cluster+database.
      * If not cached, fetches schema using the provided function.
@@ -58,27 +154,69 @@ export class LanguageServiceCache {
         database: string,
         fetchSchema: () => Promise<KustoSchema>
     ): Promise<KustoLanguageService> {
-        const key = cacheKey(cluster, database);
-
         // Return cached service
-        const cached = this.cache.get(key);
+        const cached = this.cache.get(cacheKey(cluster, database));
         if (cached) {
             return cached;
         }
 
+        return this.refresh(cluster, database, fetchSchema);
+    }
+
+    /**
+     * Refetch the schema of a cluster+database. The cached service stays in use until the fetch succeeds.
+     * Without a fetch function, the one of the last fetch in this session is used.
+     * The authentication the fetch function uses is passed to schema listeners, e.g. to persist it with the schema.
+     * Returns pending promise to avoid duplicate fetches.
+     */
+    refresh(
+        cluster: string,
+        database: string,
+        fetchSchema?: () => Promise<KustoSchema>,
+        authType?: AuthType
+    ): Promise<KustoLanguageService> {
+        const key = cacheKey(cluster, database);
+
         // Return pending fetch - don't start another one
         const pending = this.pending.get(key);
         if (pending) {
             return pending;
         }
 
+        if (fetchSchema) {
+            this.fetchers.set(key, { cluster, database, fetchSchema });
+            if (authType) {
+                this.authTypes.set(key, authType);
+            } else {
+                this.authTypes.delete(key);
+            }
+        }
+        const fetcher = this.fetchers.get(key);
+        if (!fetcher) {
+            return Promise.reject(new Error(`No connection known for ${cluster}/${database}`));
+        }
+
+        // Revalidate stale schemas only once, even if the fetch fails (e.g. while offline)
+        this.stale.delete(key);
+
         // Start new fetch
         const promise = (async () => {
             try {
-                const schema = await fetchSchema();
+                const schema = await fetcher.fetchSchema();
                 const service = createKustoLanguageService(schema);
+                const fetchedAt = new Date();
                 this.cache.set(key, service);
+                this.schemas.set(key, schema);
+                this.combined.clear();
+                this.fetchedAt.set(key, fetchedAt);
+                this.failedAt.delete(key);
+                for (const listener of this.schemaFetchedListeners) {
+                    listener(schema, fetchedAt, this.authTypes.get(key));
+                }
                 return service;
+            } catch (e) {
+                this.failedAt.set(key, Date.now());
+                throw e;
             } finally {
                 this.pending.delete(key);
             }
@@ -88,6 +226,50 @@ export class LanguageServiceCache {
         return promise;
     }
 
+    /**
+     * Refetch all cached schemas, including the ones loaded from storage.
+     * Schemas used in this session are fetched the way they were last fetched, the others
+     * (not used since they were loaded) with `fetchSchema` and the authentication they were loaded with.
+     * Schemas loaded without authentication (e.g. it had secrets that weren't persisted) are skipped.
+     * @returns The number of refreshed, failed and skipped schemas
+     */
+    async refreshAll(fetchSchema: (cluster: string, database: string, authType: AuthType) => Promise<KustoSchema>): Promise<{ refreshed: number; failed: number; skipped: number }> {
+        const refreshes: Promise<KustoLanguageService>[] = [];
+        let skipped = 0;
+        for (const [key, { cluster, database }] of this.schemas) {
+            const authType = this.authTypes.get(key);
+            if (this.fetchers.has(key)) {
+                refreshes.push(this.refresh(cluster, database));
+            } else if (authType) {
+                refreshes.push(this.refresh(cluster, database, () => fetchSchema(cluster, database, authType), authType));
+            } else {
+                skipped++;
+            }
+        }
+        const results = await Promise.allSettled(refreshes);
+        const failed = results.filter(r => r.status === 'rejected').length;
+        return { refreshed: results.length - failed, failed, skipped };
+    }
+
+    /**
+     * Load a schema from persistent storage, with the authentication it was fetched with if known.
+     * It is marked stale until refetched.
+     */
+    preload(schema: KustoSchema, fetchedAt: Date, authType?: AuthType): void {
+        const key = cacheKey(schema.cluster, schema.database);
+        if (this.cache.has(key)) {
+            return;
+        }
+        if (authType) {
+            this.authTypes.set(key, authType);
+        }
+        this.cache.set(key, createKustoLanguageService(schema));
+        this.schemas.set(key, schema);
+        this.combined.clear();
+        this.stale.add(key);
+        this.fetchedAt.set(key, fetchedAt);
+    }
+
     /**
      * Manually set a cached service (useful for testing or preloading).
      */
@@ -100,7 +282,10 @@ export class LanguageServiceCache {
      */
     setFromSchema(schema: KustoSchema): KustoLanguageService {
         const service = createKustoLanguageService(schema);
-        this.cache.set(cacheKey(schema.cluster, schema.database), service);
+        const key = cacheKey(schema.cluster, schema.database);
+        this.cache.set(key, service);
+        this.schemas.set(key, schema);
+        this.combined.clear();
         return service;
     }
 
@@ -108,14 +293,17 @@ export class LanguageServiceCache {
      * Invalidate cached service for a cluster (optionally specific database).
      */
     invalidate(cluster: string, database?: string): void {
+        this.combined.clear();
         if (database) {
             this.cache.delete(cacheKey(cluster, database));
+            this.schemas.delete(cacheKey(cluster, database));
         } else {
             // Invalidate all databases for this cluster
             const prefix = cluster.toLowerCase() + '|';
             for (const key of this.cache.keys()) {
                 if (key.startsWith(prefix)) {
                     this.cache.delete(key);
+                    this.schemas.delete(key);
                 }
             }
         }
@@ -126,7 +314,13 @@ export class LanguageServiceCache {
      */
     clear(): void {
         this.cache.clear();
+        this.schemas.clear();
+        this.combined.clear();
         this.pending.clear();
+        this.stale.clear();
+        this.fetchedAt.clear();
+        this.failedAt.clear();
+        this.authTypes.clear();
     }
 }
 
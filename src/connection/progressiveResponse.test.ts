@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest';
+import { FrameReader, ProgressiveResponse } from './progressiveResponse';
+
+const frames = [
+    { FrameType: 'DataSetHeader', IsProgressive: true, Version: 'v2.0' },
+    { FrameType: 'DataTable', TableId: 0, TableKind: 'QueryProperties', TableName: '@ExtendedProperties', Columns: [{ ColumnName: 'TableId', ColumnType: 'int' }, { ColumnName: 'Key', ColumnType: 'string' }, { ColumnName: 'Value', ColumnType: 'dynamic' }], Rows: [[1, 'Visualization', '{}']] },
+    { FrameType: 'TableHeader', TableId: 1, TableKind: 'PrimaryResult', TableName: 'PrimaryResult', Columns: [{ ColumnName: 'Name', ColumnType: 'string' }] },
+    { FrameType: 'TableFragment', TableFragmentType: 'DataAppend', TableId: 1, Rows: [['a "}" b'], ['c']] },
+    { FrameType: 'TableFragment', TableFragmentType: 'DataAppend', TableId: 1, Rows: [['d']] },
+    { FrameType: 'TableCompletion', TableId: 1, RowCount: 3 },
+    { FrameType: 'DataSetCompletion', HasErrors: false, Cancelled: false },
+];
+
+describe('FrameReader', () => {
+    test('emits frames as soon as they are complete', () => {
+        const text = JSON.stringify(frames);
+        const reader = new FrameReader();
+        const counts: number[] = [];
+        for (let i = 0; i < text.length; i += 37) {
+            counts.push(reader.push(text.substring(i, i + 37)).length);
+        }
+        expect(counts.reduce((a, b) => a + b)).toBe(frames.length);
+        expect(counts.filter(c => c > 0).length).toBeGreaterThan(1);
+    });
+});
+
+describe('ProgressiveResponse', () => {
+    test('collects tables and caps rows', () => {
+        const response = new ProgressiveResponse(2);
+        const changes = frames.map(frame => response.addFrame(frame));
+
+        expect(changes).toMatchInlineSnapshot(`
+          [
+            false,
+            false,
+            false,
+            true,
+            true,
+            false,
+            false,
+          ]
+        `);
+        expect(response.primaryTables.map(t => ({ name: t.name, rows: t.rows, totalRows: t.totalRows }))).toMatchInlineSnapshot(`
+          [
+            {
+              "name": "PrimaryResult",
+              "rows": [
+                [
+                  "a "}" b",
+                ],
+                [
+                  "c",
+                ],
+              ],
+              "totalRows": 3,
+            },
+          ]
+        `);
+    });
+
+    test('throws errors sent in place of rows', () => {
+        const response = new ProgressiveResponse(10);
+        response.addFrame(frames[2]);
+        expect(() => response.addFrame({
+            FrameType: 'TableFragment',
+            TableId: 1,
+            Rows: [['a'], { OneApiErrors: [{ error: { code: 'LimitsExceeded', '@message': 'Query result set has exceeded the internal record count limit.' } }] }],
+        })).toThrowErrorMatchingInlineSnapshot(`[Error: Query result set has exceeded the internal record count limit.]`);
+    });
+});
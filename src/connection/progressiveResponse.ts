@@ -0,0 +1,165 @@
+import { parseKustoJson } from './kustoValues';
+
+/**
+ * Splits a v2 response body (a JSON array of frames) into frames as the text arrives.
+ */
+export class FrameReader {
+    private _buffer = '';
+    private _depth = 0;
+    private _inString = false;
+    private _escaped = false;
+    /** Start of the current frame in the buffer, or -1 between frames */
+    private _frameStart = -1;
+
+    /** Add the next chunk of the response; returns the frames completed by it. */
+    push(chunk: string): unknown[] {
+        const frames: unknown[] = [];
+        const offset = this._buffer.length;
+        this._buffer += chunk;
+
+        for (let i = offset; i < this._buffer.length; i++) {
+            const ch = this._buffer[i];
+            if (this._inString) {
+                if (this._escaped) {
+                    this._escaped = false;
+                } else if (ch === '\\') {
+                    this._escaped = true;
+                } else if (ch === '"') {
+                    this._inString = false;
+                }
+            } else if (ch === '"') {
+                this._inString = true;
+            } else if (ch === '{' || ch === '[') {
+                if (ch === '{' && this._depth === 1) {
+                    this._frameStart = i;
+                }
+                this._depth++;
+            } else if (ch === '}' || ch === ']') {
+                this._depth--;
+                if (ch === '}' && this._depth === 1) {
+                    frames.push(parseKustoJson(this._buffer.substring(this._frameStart, i + 1)));
+                    this._frameStart = -1;
+                }
+            }
+        }
+
+        // Only keep the text of the unfinished frame
+        if (this._frameStart === -1) {
+            this._buffer = '';
+        } else {
+            this._buffer = this._buffer.substring(this._frameStart);
+            this._frameStart = 0;
+        }
+        return frames;
+    }
+}
+
+export interface RawColumn {
+    readonly name: string;
+    readonly type: string;
+}
+
+/**
+ * A table of a response, before it's turned into a result table.
+ */
+export interface RawTable {
+    readonly id: number;
+    readonly name: string;
+    /** `PrimaryResult`, `QueryProperties`, `QueryCompletionInformation`, ... */
+    readonly kind: string;
+    readonly columns: readonly RawColumn[];
+    rows: unknown[][];
+    /** Number of rows received, including rows beyond the row limit that were discarded */
+    totalRows: number;
+}
+
+interface Frame {
+    FrameType?: string;
+    TableId?: number;
+    TableKind?: string;
+    TableName?: string;
+    Columns?: { ColumnName?: string; ColumnType?: string; DataType?: string }[];
+    Rows?: unknown[];
+    TableFragmentType?: string;
+    HasErrors?: boolean;
+    OneApiErrors?: unknown[];
+}
+
+/**
+ * Collects the tables of a progressive v2 response (`results_progressive_enabled`) frame by frame.
+ * Rows beyond `maxRows` per table are discarded, but counted.
+ */
+export class ProgressiveResponse {
+    readonly tables: RawTable[] = [];
+
+    constructor(private readonly _maxRows: number) { }
+
+    get primaryTables(): RawTable[] {
+        return this.tables.filter(t => t.kind === 'PrimaryResult');
+    }
+
+    /**
+     * Apply a frame of the response.
+     * @returns whether the rows of a primary result table changed
+     * @throws Error with the message of errors reported in the response
+     */
+    addFrame(frame: Frame): boolean {
+        switch (frame.FrameType) {
+            case 'DataTable':
+            case 'TableHeader': {
+                const table: RawTable = {
+                    id: frame.TableId ?? this.tables.length,
+                    name: frame.TableName ?? '',
+                    kind: frame.TableKind ?? 'PrimaryResult',
+                    columns: (frame.Columns ?? []).map(c => ({ name: c.ColumnName ?? '', type: c.ColumnType ?? c.DataType ?? '' })),
+                    rows: [],
+                    totalRows: 0,
+                };
+                this.tables.push(table);
+                if (frame.Rows) {
+                    this._appendRows(table, frame.Rows);
+                }
+                return table.kind === 'PrimaryResult' && table.totalRows > 0;
+            }
+            case 'TableFragment': {
+                const table = this.tables.find(t => t.id === frame.TableId);
+                if (!table || !frame.Rows) {
+                    return false;
+                }
+                if (frame.TableFragmentType === 'DataReplace') {
+                    table.rows = [];
+                    table.totalRows = 0;
+                }
+                this._appendRows(table, frame.Rows);
+                return table.kind === 'PrimaryResult';
+            }
+            case 'TableCompletion':
+            case 'DataSetCompletion':
+                if (frame.OneApiErrors?.length || frame.HasErrors) {
+                    throw new Error(getErrorMessage(frame.OneApiErrors) ?? 'Query failed');
+                }
+                return false;
+            default:
+                return false;
+        }
+    }
+
+    private _appendRows(table: RawTable, rows: unknown[]): void {
+        for (const row of rows) {
+            // Errors that occur while rows are streamed are sent in place of a row
+            if (!Array.isArray(row)) {
+                throw new Error(getErrorMessage((row as { OneApiErrors?: unknown[] })?.OneApiErrors) ?? 'Query failed');
+            }
+            if (table.rows.length < this._maxRows) {
+                table.rows.push(row);
+            }
+            table.totalRows++;
+        }
+    }
+}
+
+/** Get the message of the first error in `OneApiErrors`. */
+function getErrorMessage(errors: unknown[] | undefined): string | undefined {
+    const error = (errors?.[0] as { error?: { '@message'?: string; message?: string } } | undefined)?.error;
+    return error?.['@message'] ?? error?.message;
+}
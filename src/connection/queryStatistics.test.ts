@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { parseQueryStatistics } from './queryStatistics';
+
+const columns = ['Timestamp', 'ClientRequestId', 'EventTypeName', 'Payload'];
+
+function createRow(eventType: string, payload: unknown): unknown[] {
+    return ['2024-01-01T00:00:00Z', 'request', eventType, JSON.stringify(payload)];
+}
+
+describe('parseQueryStatistics', () => {
+    test('extracts the resource consumption', () => {
+        const rows = [
+            createRow('QueryInfo', { Count: 1 }),
+            createRow('QueryResourceConsumption', {
+                ExecutionTime: 0.25,
+                resource_usage: {
+                    cache: {
+                        memory: { hits: 30, misses: 10, total: 40 },
+                        disk: { hits: 0, misses: 0, total: 0 },
+                        shards: { hot: { hitbytes: 900, missbytes: 100, retrievebytes: 0 } },
+                    },
+                    cpu: { 'user': '00:00:01.5', 'kernel': '00:00:00', 'total cpu': '00:00:01.5000000' },
+                    memory: { peak_per_node: 52428800 },
+                },
+                input_dataset_statistics: {
+                    extents: { total: 120, scanned: 12 },
+                    rows: { total: 1000000, scanned: 50000 },
+                },
+            }),
+        ];
+
+        expect(parseQueryStatistics(columns, rows)).toMatchInlineSnapshot(`
+          {
+            "cacheHitRate": 0.9,
+            "cpuTimeMs": 1500,
+            "executionTimeMs": 250,
+            "extentsScanned": 12,
+            "extentsTotal": 120,
+            "memoryCacheHitRate": 0.75,
+            "memoryPeakBytes": 52428800,
+            "rowsScanned": 50000,
+            "rowsTotal": 1000000,
+          }
+        `);
+    });
+
+    test('returns undefined without a resource consumption event', () => {
+        expect(parseQueryStatistics(columns, [createRow('QueryInfo', {})])).toBeUndefined();
+        expect(parseQueryStatistics(['Value'], [['x']])).toBeUndefined();
+    });
+});
@@ -0,0 +1,97 @@
+import { parseTimespanMs } from './kustoValues';
+
+/**
+ * Resource consumption of a query, from the `QueryResourceConsumption` event
+ * of the `QueryCompletionInformation` table.
+ */
+export interface QueryStatistics {
+    /** Server-side execution time */
+    executionTimeMs?: number;
+    /** Total CPU time across all nodes */
+    cpuTimeMs?: number;
+    /** Peak memory per node */
+    memoryPeakBytes?: number;
+    extentsTotal?: number;
+    extentsScanned?: number;
+    rowsTotal?: number;
+    rowsScanned?: number;
+    /** Share of hot cache bytes that were hits (0..1) */
+    cacheHitRate?: number;
+    /** Share of memory cache accesses that were hits (0..1), reported by older clusters */
+    memoryCacheHitRate?: number;
+    /** Share of disk cache accesses that were hits (0..1), reported by older clusters */
+    diskCacheHitRate?: number;
+}
+
+/**
+ * Extract the statistics from the rows of a `QueryCompletionInformation` table.
+ * Returns undefined if the table has no `QueryResourceConsumption` event.
+ */
+export function parseQueryStatistics(columns: readonly string[], rows: readonly unknown[][]): QueryStatistics | undefined {
+    const eventTypeIndex = columns.indexOf('EventTypeName');
+    const payloadIndex = columns.indexOf('Payload');
+    if (eventTypeIndex === -1 || payloadIndex === -1) {
+        return undefined;
+    }
+
+    const row = rows.find(r => r[eventTypeIndex] === 'QueryResourceConsumption');
+    const payload = row?.[payloadIndex];
+    if (typeof payload !== 'string') {
+        return undefined;
+    }
+
+    let data: ResourceConsumptionPayload;
+    try {
+        data = JSON.parse(payload);
+    } catch {
+        return undefined;
+    }
+
+    const usage = data.resource_usage;
+    const input = data.input_dataset_statistics;
+    const hot = usage?.cache?.shards?.hot;
+    const statistics: QueryStatistics = {
+        executionTimeMs: typeof data.ExecutionTime === 'number' ? data.ExecutionTime * 1000 : undefined,
+        cpuTimeMs: parseTimespanMs(usage?.cpu?.['total cpu']),
+        memoryPeakBytes: usage?.memory?.peak_per_node,
+        extentsTotal: input?.extents?.total,
+        extentsScanned: input?.extents?.scanned,
+        rowsTotal: input?.rows?.total,
+        rowsScanned: input?.rows?.scanned,
+        cacheHitRate: getHitRate(hot?.hitbytes, hot?.missbytes),
+        memoryCacheHitRate: getHitRate(usage?.cache?.memory?.hits, usage?.cache?.memory?.misses),
+        diskCacheHitRate: getHitRate(usage?.cache?.disk?.hits, usage?.cache?.disk?.misses),
+    };
+
+    // Drop fields the cluster didn't report
+    for (const key of Object.keys(statistics) as (keyof QueryStatistics)[]) {
+        if (statistics[key] === undefined) {
+            delete statistics[key];
+        }
+    }
+    return statistics;
+}
+
+interface ResourceConsumptionPayload {
+    ExecutionTime?: number;
+    resource_usage?: {
+        cache?: {
+            memory?: { hits?: number; misses?: number };
+            disk?: { hits?: number; misses?: number };
+            shards?: { hot?: { hitbytes?: number; missbytes?: number } };
+        };
+        cpu?: { 'total cpu'?: string };
+        memory?: { peak_per_node?: number };
+    };
+    input_dataset_statistics?: {
+        extents?: { total?: number; scanned?: number };
+        rows?: { total?: number; scanned?: number };
+    };
+}
+
+function getHitRate(hits: number | undefined, misses: number | undefined): number | undefined {
+    if (hits === undefined || misses === undefined || hits + misses === 0) {
+        return undefined;
+    }
+    return hits / (hits + misses);
+}
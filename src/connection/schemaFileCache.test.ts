@@ -0,0 +1,181 @@
+import { describe, test, expect } from 'vitest';
+import { createInMemoryFs } from '../language/common/fileSystem';
+import { SchemaFileCache } from './schemaFileCache';
+import { parseSchemaJson } from './schemaJson';
+
+function schemaJson(tables: Record<string, string[]>): string {
+    return JSON.stringify({
+        Databases: {
+            Samples: {
+                Name: 'Samples',
+                Tables: Object.fromEntries(Object.entries(tables).map(([name, columns]) => [name, {
+                    Name: name,
+                    OrderedColumns: columns.map(c => ({ Name: c, Type: 'System.String', CslType: 'string' })),
+                }])),
+            },
+        },
+    });
+}
+
+describe('parseSchemaJson', () => {
+    test('uses the first database when none is given', () => {
+        expect(parseSchemaJson(JSON.stringify({
+            Databases: {
+                Samples: {
+                    Name: 'Samples',
+                    Tables: {
+                        StormEvents: {
+                            OrderedColumns: [
+                                { Name: 'StartTime', Type: 'System.DateTime', CslType: 'datetime' },
+                                { Name: 'State', Type: 'System.String', DocString: 'US state' },
+                            ],
+                        },
+                    },
+                },
+            },
+        }), 'file:///schema.json')).toMatchInlineSnapshot(`
+          {
+            "cluster": "file:///schema.json",
+            "database": "Samples",
+            "tables": [
+              {
+                "columns": [
+                  {
+                    "docstring": undefined,
+                    "name": "StartTime",
+                    "type": "datetime",
+                  },
+                  {
+                    "docstring": "US state",
+                    "name": "State",
+                    "type": "string",
+                  },
+                ],
+                "name": "StormEvents",
+              },
+            ],
+          }
+        `);
+    });
+
+    test('reads materialized views, external tables, functions and entity groups', () => {
+        const schema = parseSchemaJson(JSON.stringify({
+            Databases: {
+                Samples: {
+                    Name: 'Samples',
+                    Tables: {},
+                    MaterializedViews: {
+                        DailyEvents: {
+                            OrderedColumns: [{ Name: 'Day', Type: 'System.DateTime', CslType: 'datetime' }],
+                            Query: 'StormEvents | summarize count() by Day = bin(StartTime, 1d)',
+                        },
+                    },
+                    ExternalTables: {
+                        ArchivedEvents: { OrderedColumns: [{ Name: 'State', Type: 'System.String' }], DocString: 'Before 2020' },
+                    },
+                    EntityGroups: {
+                        AllSamples: { Entities: ["cluster('help').database('Samples')"] },
+                    },
+                    Functions: {
+                        EventsSince: {
+                            InputParameters: [
+                                { Name: 'start', Type: 'System.DateTime', CslType: 'datetime' },
+                                { Name: 'limit', Type: 'System.Int64', CslType: 'long', CslDefaultValue: '10' },
+                                { Name: 'T', CslType: '', Columns: [] },
+                            ],
+                            Body: '{ StormEvents | where StartTime > start | take limit }',
+                            DocString: 'Recent events',
+                        },
+                    },
+                },
+            },
+        }), 'https://help.kusto.windows.net', 'Samples');
+
+        expect({ ...schema, tables: undefined }).toMatchInlineSnapshot(`
+          {
+            "cluster": "https://help.kusto.windows.net",
+            "database": "Samples",
+            "entityGroups": [
+              {
+                "entities": [
+                  "cluster('help').database('Samples')",
+                ],
+                "name": "AllSamples",
+              },
+            ],
+            "externalTables": [
+              {
+                "columns": [
+                  {
+                    "docstring": undefined,
+                    "name": "State",
+                    "type": "string",
+                  },
+                ],
+                "docstring": "Before 2020",
+                "name": "ArchivedEvents",
+              },
+            ],
+            "functions": [
+              {
+                "body": "{ StormEvents | where StartTime > start | take limit }",
+                "docstring": "Recent events",
+                "name": "EventsSince",
+                "parameters": [
+                  {
+                    "defaultValue": undefined,
+                    "name": "start",
+                    "type": "datetime",
+                  },
+                  {
+                    "defaultValue": "10",
+                    "name": "limit",
+                    "type": "long",
+                  },
+                  {
+                    "defaultValue": undefined,
+                    "name": "T",
+                    "type": "(*)",
+                  },
+                ],
+              },
+            ],
+            "materializedViews": [
+              {
+                "columns": [
+                  {
+                    "docstring": undefined,
+                    "name": "Day",
+                    "type": "datetime",
+                  },
+                ],
+                "name": "DailyEvents",
+                "query": "StormEvents | summarize count() by Day = bin(StartTime, 1d)",
+              },
+            ],
+            "tables": undefined,
+          }
+        `);
+    });
+});
+
+describe('SchemaFileCache', () => {
+    test('loads schema files in the background and reloads them on change', async () => {
+        const fs = createInMemoryFs({ 'file:///project/schema.json': schemaJson({ StormEvents: ['State'] }) });
+        const cache = new SchemaFileCache(fs);
+        const uri = cache.resolve('file:///project/main.kql', './schema.json');
+
+        expect(cache.get(uri)).toBeUndefined();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const service = cache.get(uri);
+        expect(service?.getCompletions('StormEvents | where ', 20).some(c => c.label === 'State')).toBe(true);
+
+        fs.set(uri, schemaJson({ StormEvents: ['EventType'] }));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const reloaded = cache.get(uri);
+        expect(reloaded).not.toBe(service);
+        expect(reloaded?.getCompletions('StormEvents | where ', 20).some(c => c.label === 'EventType')).toBe(true);
+
+        cache.dispose();
+    });
+});
@@ -0,0 +1,83 @@
+import { KustoLanguageService, createKustoLanguageService } from '../language/kusto/kustoLanguageService';
+import { WatchableFileSystem, IDisposable } from '../language/common/fileSystem';
+import { parseSchemaJson } from './schemaJson';
+
+/**
+ * Caches language services for local schema files (`:setSchema("./schema.json")`).
+ * Files are loaded in the background and watched; a change reloads the schema.
+ */
+export class SchemaFileCache implements IDisposable {
+    private readonly cache = new Map<string, KustoLanguageService>();
+    private readonly watchers = new Map<string, IDisposable>();
+    private readonly pending = new Set<string>();
+    /** Files that changed while they were loading */
+    private readonly stale = new Set<string>();
+
+    constructor(private readonly fs: WatchableFileSystem) { }
+
+    /** Resolve the path of a schema file against the document that declares it. */
+    resolve(documentUri: string, path: string): string {
+        return this.fs.resolvePath(documentUri, path);
+    }
+
+    /**
+     * Get the language service for a schema file.
+     * Returns undefined while the file is loading or if it can't be read.
+     */
+    get(uri: string): KustoLanguageService | undefined {
+        const cached = this.cache.get(uri);
+        if (cached) {
+            return cached;
+        }
+
+        if (!this.watchers.has(uri)) {
+            this.watchers.set(uri, this.fs.watchFile(uri, () => this._load(uri)));
+            this._load(uri);
+        }
+        return undefined;
+    }
+
+    /** Load (or reload) a schema file. */
+    private async _load(uri: string): Promise<void> {
+        if (this.pending.has(uri)) {
+            this.stale.add(uri);
+            return;
+        }
+        this.pending.add(uri);
+        try {
+            const { text } = await this.fs.readFile(uri);
+            const schema = parseSchemaJson(text, uri);
+            this.cache.set(uri, createKustoLanguageService(schema));
+            console.log(`[SchemaFile] Loaded ${schema.tables.length} tables from ${uri}`);
+        } catch (e) {
+            this.cache.delete(uri);
+            console.error(`[SchemaFile] Failed to load schema from ${uri}:`, e);
+        } finally {
+            this.pending.delete(uri);
+        }
+        if (this.stale.delete(uri)) {
+            await this._load(uri);
+        }
+    }
+
+    dispose(): void {
+        for (const watcher of this.watchers.values()) {
+            watcher.dispose();
+        }
+        this.watchers.clear();
+        this.cache.clear();
+    }
+}
+
+/**
+ * Singleton cache instance, set up by the extension with its file system.
+ */
+let _schemaFileCache: SchemaFileCache | undefined;
+
+export function getSchemaFileCache(): SchemaFileCache | undefined {
+    return _schemaFileCache;
+}
+
+export function setSchemaFileCache(cache: SchemaFileCache | undefined): void {
+    _schemaFileCache = cache;
+}
@@ -0,0 +1,120 @@
+import { KustoSchema, TableSchema, ColumnSchema, FunctionSchema, MaterializedViewSchema, EntityGroupSchema } from '../language/kusto/kustoLanguageService';
+
+/**
+ * Parse the output of `.show database schema as json` into a KustoSchema.
+ * If the database isn't given (or not found), the first database in the JSON is used.
+ *
+ * @param schemaJson The JSON text, e.g. from a schema file
+ * @param cluster The cluster to report in the schema
+ * @param database The database to pick from the JSON
+ */
+export function parseSchemaJson(schemaJson: string, cluster: string, database?: string): KustoSchema {
+    const schema = JSON.parse(schemaJson) as {
+        Databases?: Record<string, DatabaseJson>;
+    };
+
+    const databases = schema.Databases ?? {};
+    const dbName = database !== undefined && database in databases ? database : Object.keys(databases)[0];
+    const dbSchema = dbName !== undefined ? databases[dbName] : undefined;
+
+    const tables = parseTables(dbSchema?.Tables);
+    const materializedViews: MaterializedViewSchema[] = Object.entries(dbSchema?.MaterializedViews ?? {}).map(([name, view]) => ({
+        ...parseTable(name, view),
+        ...(view.Query ? { query: view.Query } : {}),
+    }));
+    const externalTables = parseTables(dbSchema?.ExternalTables);
+    const functions: FunctionSchema[] = Object.entries(dbSchema?.Functions ?? {}).map(([name, fn]) => ({
+        name,
+        parameters: (fn.InputParameters ?? []).map(p => ({
+            name: p.Name,
+            type: p.CslType || (p.Columns ? getTabularType(p.Columns) : mapKustoType(p.Type ?? '')),
+            defaultValue: p.CslDefaultValue ?? undefined,
+        })),
+        body: fn.Body ?? '{}',
+        docstring: fn.DocString || undefined,
+    }));
+    const entityGroups: EntityGroupSchema[] = Object.entries(dbSchema?.EntityGroups ?? {}).map(([name, group]) => ({
+        name,
+        entities: Array.isArray(group) ? group : group.Entities ?? [],
+    }));
+
+    return {
+        cluster,
+        database: database ?? dbSchema?.Name ?? dbName ?? '',
+        tables,
+        ...(materializedViews.length > 0 ? { materializedViews } : {}),
+        ...(externalTables.length > 0 ? { externalTables } : {}),
+        ...(functions.length > 0 ? { functions } : {}),
+        ...(entityGroups.length > 0 ? { entityGroups } : {}),
+    };
+}
+
+interface ColumnJson {
+    Name: string;
+    Type: string;
+    CslType?: string;
+    DocString?: string;
+}
+
+interface TableJson {
+    OrderedColumns?: ColumnJson[];
+    DocString?: string;
+}
+
+interface DatabaseJson {
+    Name?: string;
+    Tables?: Record<string, TableJson>;
+    MaterializedViews?: Record<string, TableJson & { Query?: string }>;
+    ExternalTables?: Record<string, TableJson>;
+    Functions?: Record<string, {
+        InputParameters?: Array<{ Name: string; Type?: string; CslType?: string; CslDefaultValue?: string | null; Columns?: ColumnJson[] }>;
+        Body?: string;
+        DocString?: string;
+    }>;
+    /** Entity references per group; older formats list them directly */
+    EntityGroups?: Record<string, string[] | { Entities?: string[] }>;
+}
+
+function parseTables(tables: Record<string, TableJson> | undefined): TableSchema[] {
+    return Object.entries(tables ?? {}).map(([name, table]) => parseTable(name, table));
+}
+
+function parseTable(name: string, table: TableJson): TableSchema {
+    return {
+        name,
+        columns: (table.OrderedColumns ?? []).map(parseColumn),
+        ...(table.DocString ? { docstring: table.DocString } : {}),
+    };
+}
+
+function parseColumn(col: ColumnJson): ColumnSchema {
+    return {
+        name: col.Name,
+        type: col.CslType ?? mapKustoType(col.Type),
+        docstring: col.DocString,
+    };
+}
+
+/** Type of a tabular function parameter, e.g. `(State:string)`, or `(*)` for any table. */
+function getTabularType(columns: ColumnJson[]): string {
+    if (columns.length === 0) {
+        return '(*)';
+    }
+    return `(${columns.map(c => `${c.Name}:${c.CslType ?? mapKustoType(c.Type)}`).join(', ')})`;
+}
+
+function mapKustoType(kustoType: string): string {
+    // Map Kusto types to simpler names if needed
+    const typeMap: Record<string, string> = {
+        'System.String': 'string',
+        'System.Int32': 'int',
+        'System.Int64': 'long',
+        'System.Double': 'real',
+        'System.DateTime': 'datetime',
+        'System.Boolean': 'bool',
+        'System.TimeSpan': 'timespan',
+        'System.Guid': 'guid',
+        'System.Object': 'dynamic',
+    };
+    return typeMap[kustoType] ?? kustoType;
+}
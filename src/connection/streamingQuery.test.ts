@@ -0,0 +1,60 @@
+import { describe, test, expect, vi } from 'vitest';
+import { Client, ClientRequestProperties, KustoConnectionStringBuilder } from 'azure-kusto-data';
+import { getClientTimeoutMs, getStreamingQueryTransport } from './streamingQuery';
+
+function createClient(): Client {
+    return new Client(KustoConnectionStringBuilder.withAccessToken('https://help.kusto.windows.net', 'token'));
+}
+
+async function* chunks(...texts: string[]): AsyncIterable<Uint8Array> {
+    for (const text of texts) {
+        yield new TextEncoder().encode(text);
+    }
+}
+
+describe('streaming query transport', () => {
+    // Fails when an SDK update changes the client internals the transport relies on
+    test('sends queries with the endpoint, headers and HTTP instance of the SDK client', async () => {
+        const client = createClient();
+        const data = chunks('[]');
+        const post = vi.fn().mockResolvedValue({ data });
+        client.axiosInstance.post = post;
+
+        const transport = getStreamingQueryTransport(client);
+        expect(transport).toBeDefined();
+
+        const properties = new ClientRequestProperties();
+        properties.clientRequestId = 'request-1';
+        const stream = await transport!.post('Samples', 'StormEvents | take 1', properties, undefined);
+        expect(stream).toBe(data);
+
+        const [url, body, config] = post.mock.calls[0];
+        expect(url).toBe('https://help.kusto.windows.net/v2/rest/query');
+        expect(JSON.parse(body)).toMatchObject({ db: 'Samples', csl: 'StormEvents | take 1' });
+        expect(config).toMatchObject({
+            responseType: 'stream',
+            timeout: 4.5 * 60 * 1000,
+            headers: { 'Authorization': 'Bearer token', 'x-ms-client-request-id': 'request-1' },
+        });
+    });
+
+    test('is unavailable without the client internals', () => {
+        const client = createClient();
+        delete (client as Partial<Client>).aadHelper;
+        expect(getStreamingQueryTransport(client)).toBeUndefined();
+    });
+
+    test('reads the error message from the response body', async () => {
+        const client = createClient();
+        client.axiosInstance.post = vi.fn().mockRejectedValue({ response: { data: chunks('{"error":{"@message":"Syntax ', 'error"}}') } });
+        const transport = getStreamingQueryTransport(client)!;
+        await expect(transport.post('Samples', 'T |', new ClientRequestProperties(), undefined)).rejects.toThrow('Syntax error');
+    });
+
+    test('derives the client timeout from the server timeout', () => {
+        const properties = new ClientRequestProperties();
+        expect(getClientTimeoutMs(properties)).toBe(270000);
+        properties.setTimeout(600000);
+        expect(getClientTimeoutMs(properties)).toBe(630000);
+    });
+});
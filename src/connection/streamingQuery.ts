@@ -0,0 +1,99 @@
+import type { Client, ClientRequestProperties } from 'azure-kusto-data';
+
+/** Client timeout of queries without a server timeout (the SDK's default) */
+const DEFAULT_QUERY_TIMEOUT_MS = 4.5 * 60 * 1000;
+/** How much longer than the server timeout the client waits (the SDK's delta) */
+const CLIENT_SERVER_DELTA_MS = 30 * 1000;
+
+/**
+ * Sends queries with the HTTP instance, endpoint and authentication of an SDK client
+ * and returns the response body as a stream of chunks.
+ */
+export interface StreamingQueryTransport {
+    post(database: string, query: string, properties: ClientRequestProperties, signal: AbortSignal | undefined): Promise<AsyncIterable<Uint8Array>>;
+}
+
+/** The members of the SDK client used to send streamed requests; they are not part of its documented API. */
+interface ClientInternals {
+    connectionString: { clientDetails(): { getHeaders(): Record<string, string | undefined> } };
+    aadHelper: { getAuthHeader(): Promise<string | null> };
+    endpoints: { query: string };
+    axiosInstance: {
+        post(url: string, data: string, config: object): Promise<{ data: unknown }>;
+    };
+}
+
+/**
+ * Get a transport for streamed queries that uses the internals of an SDK client,
+ * or undefined if the client doesn't have them (e.g. after an SDK update), in which case
+ * queries have to go through `client.executeQuery`.
+ */
+export function getStreamingQueryTransport(client: Client): StreamingQueryTransport | undefined {
+    const internals = client as unknown as Partial<ClientInternals>;
+    if (typeof internals.connectionString?.clientDetails !== 'function'
+        || typeof internals.aadHelper?.getAuthHeader !== 'function'
+        || typeof internals.endpoints?.query !== 'string'
+        || typeof internals.axiosInstance?.post !== 'function') {
+        return undefined;
+    }
+    const { connectionString, aadHelper, endpoints, axiosInstance } = internals as ClientInternals;
+
+    return {
+        async post(database, query, properties, signal) {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json; charset=utf-8' };
+            const kustoHeaders = { ...connectionString.clientDetails().getHeaders(), ...properties.getHeaders() };
+            for (const [key, value] of Object.entries(kustoHeaders)) {
+                if (value) {
+                    headers[key] = value;
+                }
+            }
+            const authHeader = await aadHelper.getAuthHeader();
+            if (authHeader) {
+                headers.Authorization = authHeader;
+            }
+
+            const body = JSON.stringify({ db: database, csl: query, properties: properties.toJSON() });
+            const response = await axiosInstance.post(endpoints.query, body, {
+                headers,
+                signal,
+                timeout: getClientTimeoutMs(properties),
+                responseType: 'stream',
+                // Frames are parsed as they arrive
+                transformResponse: [(data: unknown) => data],
+            }).catch(async (error: { response?: { data?: AsyncIterable<Uint8Array> } }) => {
+                throw await readErrorResponse(error);
+            });
+            return response.data as AsyncIterable<Uint8Array>;
+        },
+    };
+}
+
+/**
+ * Get the client timeout of a query the way the SDK computes it:
+ * the server timeout plus a delta, or the default query timeout.
+ */
+export function getClientTimeoutMs(properties: ClientRequestProperties): number {
+    const serverTimeout = properties.getTimeout();
+    return serverTimeout !== undefined ? serverTimeout + CLIENT_SERVER_DELTA_MS : DEFAULT_QUERY_TIMEOUT_MS;
+}
+
+/**
+ * Turn a failed streaming request into an error with the message from the response body, if there is one.
+ */
+async function readErrorResponse(error: { response?: { data?: AsyncIterable<Uint8Array> } }): Promise<unknown> {
+    const data = error.response?.data;
+    if (!data || typeof data[Symbol.asyncIterator] !== 'function') {
+        return error;
+    }
+    let text = '';
+    const decoder = new TextDecoder();
+    for await (const chunk of data) {
+        text += decoder.decode(chunk, { stream: true });
+    }
+    try {
+        const body = JSON.parse(text);
+        return new Error(body?.error?.['@message'] ?? body?.error?.message ?? text);
+    } catch {
+        return new Error(text || String(error));
+    }
+}
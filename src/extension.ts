@@ -1,5 +1,5 @@
 import '@kusto/language-service-next/bridge.js';
-import { ExtensionContext, window } from "vscode";
+import { ExtensionContext, Uri, window } from "vscode";
 import { Disposable } from "./utils/disposables";
 import {
     VsCodeWatchableFileSystem,
@@ -9,15 +9,28 @@ import {
     EnumCompletionProvider,
     DefinitionProvider,
     HoverProvider,
+    ReferenceProvider,
+    RenameProvider,
     CodeLensProvider,
+    ResultPreviewProvider,
     QueryRunner,
     DebugDocumentProvider,
     SemanticTokensProvider,
+    SignatureHelpProvider,
+    DocumentSymbolProvider,
+    WorkspaceSymbolProvider,
     ResultsViewProvider,
     RunQueryTool,
     QueryHistoryModel,
+    QueryHistoryPersistence,
+    FileResultRowStorage,
+    ResultRowSpilling,
+    SchemaCachePersistence,
+    SchemaCommands,
+    SchemaExplorerProvider,
 } from "./workspace";
 import { MutableProject } from "./language/workspace/mutableProject";
+import { SchemaFileCache, setSchemaFileCache } from "./connection";
 
 
 export class Extension extends Disposable {
@@ -36,8 +49,20 @@ export class Extension extends Disposable {
         this.project = new MutableProject(this.fileSystem);
         this._register(this.project);
 
+        // Load :setSchema files through the same file system (watched for changes)
+        const schemaFileCache = new SchemaFileCache(this.fileSystem);
+        setSchemaFileCache(schemaFileCache);
+        this._register({ dispose: () => { setSchemaFileCache(undefined); schemaFileCache.dispose(); } });
+
+        // Keep fetched cluster schemas across sessions (revalidated in the background)
+        this._register(new SchemaCachePersistence(context.globalStorageUri));
+
         // Create the query history model
         this.historyModel = new QueryHistoryModel();
+        // Rows of large results that aren't shown are kept on disk
+        const rowStorage = new FileResultRowStorage(Uri.joinPath(context.globalStorageUri, 'results'));
+        this._register(new QueryHistoryPersistence(context.globalStorageUri, this.historyModel, rowStorage));
+        this._register(new ResultRowSpilling(this.historyModel, rowStorage));
 
         // Auto-add root documents when Kusto files are opened
         this._register(this.fileSystem.onDidOpenKustoDocument(doc => {
@@ -61,7 +86,7 @@ export class Extension extends Disposable {
         );
 
         // Create query runner and connect to results provider and history model
-        const queryRunner = new QueryRunner(this.project);
+        const queryRunner = new QueryRunner(this.project, context.workspaceState);
         queryRunner.setResultsProvider(resultsProvider);
         queryRunner.setHistoryModel(this.historyModel);
         this._register(queryRunner);
@@ -72,15 +97,24 @@ export class Extension extends Disposable {
         runQueryTool.setHistoryModel(this.historyModel);
         this._register(runQueryTool);
 
+        this._register(new SchemaCommands(this.project));
+        this._register(new SchemaExplorerProvider(this.project));
+
         // Register providers (they use autorun for reactive updates)
         this._register(new DiagnosticsProvider(this.project));
         this._register(new CompletionProvider(this.project));
         this._register(new DefinitionCompletionProvider(this.project));
         this._register(new EnumCompletionProvider(this.project));
         this._register(new DefinitionProvider(this.project));
+        this._register(new ReferenceProvider(this.project));
+        this._register(new RenameProvider(this.project));
         this._register(new HoverProvider(this.project));
-        this._register(new CodeLensProvider(this.project));
+        this._register(new SignatureHelpProvider(this.project));
+        this._register(new CodeLensProvider(this.project, this.historyModel));
+        this._register(new ResultPreviewProvider(this.project, this.historyModel));
         this._register(new DebugDocumentProvider(this.project));
         this._register(new SemanticTokensProvider(this.project));
+        this._register(new DocumentSymbolProvider(this.project));
+        this._register(new WorkspaceSymbolProvider(this.project));
     }
 }
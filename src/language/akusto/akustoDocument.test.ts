@@ -104,6 +104,20 @@ let $events.extensions_action_install = RawEventsVSCode`);
 			`);
     });
 
+    it('parses parameterized definition', () => {
+      const doc = AkustoDocument.parse('file://test.kql', 'let $events.byName(name: string) = $events | where Name == name');
+      expect(doc.fragments.map(f => ({ exported: f.exportedName, refs: f.referencedNames }))).toMatchInlineSnapshot(`
+				[
+				  {
+				    "exported": "$events.byName",
+				    "refs": [
+				      "$events",
+				    ],
+				  },
+				]
+			`);
+    });
+
     it('parses query referencing variable with dot in name', () => {
       const doc = AkustoDocument.parse('file://test.kql', '$events.query | summarize count()');
       expect(doc.fragments.map(f => ({ text: f.text, exported: f.exportedName, refs: f.referencedNames }))).toMatchInlineSnapshot(`
@@ -266,7 +280,7 @@ second`);
       expect(firstFrag?.text).toBe(`StormEvents
 | project State`);
       // Cursor just after "State" (at the newline) should still be in fragment
-      expect(multiLine.getFragmentAt(firstFrag!.range.endExclusive)?.text).toBe(`StormEvents
+      expect(multiLine.getFragmentAt(multiLine.getFragmentRange(firstFrag!).endExclusive)?.text).toBe(`StormEvents
 | project State`);
     });
 
@@ -573,4 +587,136 @@ Logs`);
       expect(edited).toBe(doc);
     });
   });
+
+  describe('incremental reparse', () => {
+    const source = `:include("./lib.kql")
+let $a = Events
+
+// docs for b
+let $b = $a | take 10
+
+# Chapter 1
+
+:setDefaultDb("db")
+let $local = Logs
+
+$local | join $b
+
+# Chapter 2
+
+
+$a | count
+`;
+
+    /** Structural summary of a document, used to compare against a full parse. */
+    function describeDoc(doc: AkustoDocument) {
+      return {
+        ast: doc.ast.dump(),
+        ranges: [
+          ...doc.ast.children.map(n => n.range.toString()),
+          ...doc.ast.getChapters().flatMap(c => [c.titleRange.toString(), ...c.children.map(n => n.range.toString())]),
+        ],
+        fragments: doc.fragments.map(f => f.toString() + ' ' + JSON.stringify(f.text)),
+        topLevel: doc.topLevelFragments.map(f => f.toString()),
+        chapters: [...doc.chapterFragments].map(([c, frags]) => [c.title, frags.map(f => f.toString())]),
+      };
+    }
+
+    function expectEquivalentToFullParse(doc: AkustoDocument, start: number, end: number, text: string) {
+      const edited = doc.withEdit(start, end, text);
+      const full = AkustoDocument.parse(doc.uri, edited.text);
+      expect(describeDoc(edited)).toEqual(describeDoc(full));
+      return edited;
+    }
+
+    it('matches a full parse for edits at every offset', () => {
+      const doc = AkustoDocument.parse('file://test.kql', source);
+      const insertions = ['x', '\n', '\n\n', '# New\n', ':', '#', ' '];
+      for (let offset = 0; offset <= source.length; offset++) {
+        for (const text of insertions) {
+          expectEquivalentToFullParse(doc, offset, offset, text);
+        }
+        // Deletions of different lengths
+        for (const length of [1, 2, 5, 12]) {
+          if (offset + length <= source.length) {
+            expectEquivalentToFullParse(doc, offset, offset + length, '');
+          }
+        }
+      }
+    });
+
+    it('matches a full parse after a sequence of edits', () => {
+      let doc = AkustoDocument.parse('file://test.kql', source);
+      // Deterministic pseudo-random edits
+      let seed = 42;
+      const random = (max: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed % max;
+      };
+      const snippets = ['let $c = 1', '\n', '# Ch\n', ':include("x")\n', '$a', '\n\n', ''];
+      for (let i = 0; i < 300; i++) {
+        const start = random(doc.text.length + 1);
+        const end = Math.min(doc.text.length, start + random(8));
+        doc = expectEquivalentToFullParse(doc, start, end, snippets[random(snippets.length)]);
+      }
+    });
+
+    it('matches a full parse for multiple edits', () => {
+      const doc = AkustoDocument.parse('file://test.kql', source);
+      const edited = doc.withEdits([
+        { start: 10, end: 12, text: 'defs' },
+        { start: source.indexOf('# Chapter 2'), end: source.indexOf('# Chapter 2') + 2, text: '' },
+      ]);
+      expect(describeDoc(edited)).toEqual(describeDoc(AkustoDocument.parse(doc.uri, edited.text)));
+    });
+
+    it('reuses fragments and chapters outside of the edited chapter', () => {
+      const doc = AkustoDocument.parse('file://test.kql', source);
+      const offset = source.indexOf('$local | join');
+      const edited = doc.withEdit(offset, offset, 'x');
+
+      const [chapter1, chapter2] = doc.ast.getChapters();
+      const [editedChapter1, editedChapter2] = edited.ast.getChapters();
+
+      // Before the edit: same objects
+      expect(edited.topLevelFragments).toEqual(doc.topLevelFragments);
+      expect(edited.topLevelFragments.every((f, i) => f === doc.topLevelFragments[i])).toBe(true);
+      // The edited chapter is reparsed
+      expect(editedChapter1).not.toBe(chapter1);
+      // After the edit: moved by the length delta
+      expect(editedChapter2).not.toBe(chapter2);
+      expect(editedChapter2.range.start).toBe(chapter2.range.start + 1);
+    });
+
+    it('keeps the identity of fragments moved by an earlier edit', () => {
+      const doc = AkustoDocument.parse('file://test.kql', source);
+      const offset = source.indexOf('Events');
+      const edited = doc.withEdit(offset, offset, 'Storm');
+
+      const [, chapter2] = doc.ast.getChapters();
+      const [, editedChapter2] = edited.ast.getChapters();
+      const fragment = doc.chapterFragments.get(chapter2)![0];
+      const editedFragment = edited.chapterFragments.get(editedChapter2)![0];
+      expect(editedFragment).toBe(fragment);
+      expect(edited.getFragmentRange(editedFragment).start).toBe(doc.getFragmentRange(fragment).start + 'Storm'.length);
+      expect(edited.text.substring(edited.getFragmentRange(editedFragment).start)).toMatch(/^\$a \| count/);
+
+      // Unchanged fragments of the edited chapter after the edit are moved, keeping their parsed names
+      expect(edited.topLevelFragments[1].text).toBe(doc.topLevelFragments[1].text);
+      expect(edited.topLevelFragments[1].referencedNames).toBe(doc.topLevelFragments[1].referencedNames);
+    });
+
+    it('reuses following chapters when the length does not change', () => {
+      const doc = AkustoDocument.parse('file://test.kql', source);
+      const offset = source.indexOf('Events');
+      const edited = doc.withEdit(offset, offset + 'Events'.length, 'Traces');
+
+      const [chapter1, chapter2] = doc.ast.getChapters();
+      expect(edited.ast.getChapters()[0]).toBe(chapter1);
+      expect(edited.ast.getChapters()[1]).toBe(chapter2);
+      expect(edited.chapterFragments.get(chapter1)).toEqual(doc.chapterFragments.get(chapter1));
+      expect(edited.topLevelFragments[0]).not.toBe(doc.topLevelFragments[0]);
+      expect(edited.topLevelFragments[1]).toBe(doc.topLevelFragments[1]);
+    });
+  });
 });
@@ -1,12 +1,13 @@
 import { OffsetRange } from '../common/offsetRange';
 import { KustoFragment } from './kustoFragment';
-import { parseDocument } from './documentParser';
-import { DocumentAst, Chapter, CodeBlock } from './ast';
+import { parseDocument, parseDocumentRange } from './documentParser';
+import { AstNode, DocumentAst, Chapter, CodeBlock } from './ast';
 
 /**
  * Immutable Akusto document. Parses instructions, chapters, and code blocks.
  * Code blocks are further split into fragments separated by empty lines.
- * Supports global and chapter-scoped definitions via `let $name = ...` syntax.
+ * Supports global and chapter-scoped definitions via `let $name = ...` syntax,
+ * including parameterized definitions (`let $name(arg: type) = ...`).
  */
 export class AkustoDocument {
     private constructor(
@@ -18,18 +19,42 @@ export class AkustoDocument {
         /** Top-level fragments only (globally visible definitions). */
         public readonly topLevelFragments: readonly KustoFragment[],
         /** Map from chapter to its fragments. */
-        public readonly chapterFragments: ReadonlyMap<Chapter, readonly KustoFragment[]>
+        public readonly chapterFragments: ReadonlyMap<Chapter, readonly KustoFragment[]>,
+        /** Map from code block to its fragments, used to reuse fragments on edits. */
+        private readonly _blockFragments: ReadonlyMap<CodeBlock, readonly KustoFragment[]>,
+        /** Start of the chapter (or 0 for top-level fragments) that fragment ranges are relative to. */
+        private readonly _fragmentOffsets: ReadonlyMap<KustoFragment, number>
     ) { }
 
     static parse(uri: string, text: string): AkustoDocument {
         const ast = parseDocument(text);
+        return AkustoDocument._create(uri, text, ast, (block, chapterStart) => AkustoDocument._parseCodeBlock(text, block, chapterStart));
+    }
+
+    private static _create(
+        uri: string,
+        text: string,
+        ast: DocumentAst,
+        getBlockFragments: (block: CodeBlock, chapterStart: number) => readonly KustoFragment[]
+    ): AkustoDocument {
         const allFragments: KustoFragment[] = [];
         const topLevelFragments: KustoFragment[] = [];
         const chapterFragments = new Map<Chapter, KustoFragment[]>();
+        const blockFragments = new Map<CodeBlock, readonly KustoFragment[]>();
+        const fragmentOffsets = new Map<KustoFragment, number>();
+
+        const getFragments = (block: CodeBlock, chapterStart: number) => {
+            const frags = getBlockFragments(block, chapterStart);
+            blockFragments.set(block, frags);
+            for (const fragment of frags) {
+                fragmentOffsets.set(fragment, chapterStart);
+            }
+            return frags;
+        };
 
         // Parse top-level code blocks
         for (const block of ast.getCodeBlocks()) {
-            const frags = AkustoDocument._parseCodeBlock(text, block);
+            const frags = getFragments(block, 0);
             allFragments.push(...frags);
             topLevelFragments.push(...frags);
         }
@@ -38,19 +63,28 @@ export class AkustoDocument {
         for (const chapter of ast.getChapters()) {
             const chapterFrags: KustoFragment[] = [];
             for (const block of chapter.getCodeBlocks()) {
-                const frags = AkustoDocument._parseCodeBlock(text, block);
+                const frags = getFragments(block, chapter.range.start);
                 allFragments.push(...frags);
                 chapterFrags.push(...frags);
             }
             chapterFragments.set(chapter, chapterFrags);
         }
 
-        return new AkustoDocument(uri, text, ast, allFragments, topLevelFragments, chapterFragments);
+        return new AkustoDocument(uri, text, ast, allFragments, topLevelFragments, chapterFragments, blockFragments, fragmentOffsets);
+    }
+
+    /** Get the range of a fragment of this document within the document text. */
+    getFragmentRange(fragment: KustoFragment): OffsetRange {
+        const offset = this._fragmentOffsets.get(fragment);
+        if (offset === undefined) {
+            throw new Error('Fragment is not part of this document');
+        }
+        return fragment.relativeRange.delta(offset);
     }
 
     /**
      * Create a new document with an edit applied.
-     * Currently just reparses the full document; incremental parsing can be added later.
+     * Only the affected part of the document is reparsed, see `_reparse`.
      * 
      * @param start Start offset of the edit range
      * @param end End offset of the edit range (exclusive)
@@ -59,8 +93,7 @@ export class AkustoDocument {
     withEdit(start: number, end: number, newText: string): AkustoDocument {
         // Apply the edit to get new text
         const newFullText = this.text.substring(0, start) + newText + this.text.substring(end);
-        // For now, just reparse. Later we can implement incremental parsing.
-        return AkustoDocument.parse(this.uri, newFullText);
+        return this._reparse(newFullText, start, end, start + newText.length);
     }
 
     /**
@@ -80,7 +113,95 @@ export class AkustoDocument {
             newText = newText.substring(0, edit.start) + edit.text + newText.substring(edit.end);
         }
 
-        return AkustoDocument.parse(this.uri, newText);
+        // Reparse the range spanning all edits
+        const start = sortedEdits[sortedEdits.length - 1].start;
+        const end = Math.max(...edits.map(e => e.end));
+        return this._reparse(newText, start, end, end + newText.length - this.text.length);
+    }
+
+    /**
+     * Incrementally reparse after the range [editStart, oldEditEnd) was replaced by [editStart, newEditEnd).
+     *
+     * The document is split into segments: the part before the first chapter and each chapter.
+     * A chapter header always starts a new segment, so segments parse independently of each other.
+     * Only segments touched by the edit are reparsed. Segments before it are reused as is,
+     * the AST nodes of segments after it are moved by the length delta (or reused if the length did not change).
+     * Fragment ranges are relative to their chapter, so the fragments of all segments that were not reparsed
+     * keep their identity and per-fragment caches stay valid.
+     */
+    private _reparse(newText: string, editStart: number, oldEditEnd: number, newEditEnd: number): AkustoDocument {
+        const delta = newEditEnd - oldEditEnd;
+        const chapters = this.ast.getChapters();
+        const segmentStarts = [0, ...chapters.map(c => c.range.start)];
+
+        // Editing the header of the next chapter can merge it into a segment, so it counts as touching
+        let first = -1;
+        let last = -1;
+        for (let i = 0; i < segmentStarts.length; i++) {
+            const affectedEnd = i < chapters.length ? chapters[i].titleRange.endExclusive : this.text.length;
+            if (editStart <= affectedEnd && oldEditEnd >= segmentStarts[i]) {
+                if (first === -1) {
+                    first = i;
+                }
+                last = i;
+            }
+        }
+        if (first === -1) {
+            return AkustoDocument.parse(this.uri, newText);
+        }
+
+        const regionStart = segmentStarts[first];
+        const hasNext = last + 1 < segmentStarts.length;
+        const newRegionEnd = (hasNext ? segmentStarts[last + 1] : this.text.length) + delta;
+        // The newline before the next chapter header is not part of the reparsed lines
+        const parsed = parseDocumentRange(newText, new OffsetRange(regionStart, hasNext ? newRegionEnd - 1 : newRegionEnd));
+
+        const before: AstNode[] = [];
+        const after: AstNode[] = [];
+        const movedBlocks = new Map<number, CodeBlock>();
+        let segment = 0;
+        for (const node of this.ast.children) {
+            if (node instanceof Chapter) {
+                segment++;
+            }
+            if (segment < first) {
+                before.push(node);
+            } else if (segment > last) {
+                after.push(delta === 0 ? node : node.delta(delta));
+                if (delta !== 0) {
+                    const blocks = node instanceof Chapter ? node.getCodeBlocks() : node instanceof CodeBlock ? [node] : [];
+                    for (const block of blocks) {
+                        movedBlocks.set(block.range.start + delta, block);
+                    }
+                }
+            }
+        }
+
+        // Fragments in reparsed blocks whose text did not change are reused as well (or moved, keeping their parsed names)
+        const oldFragmentsByStart = new Map(this.fragments.map(f => [this.getFragmentRange(f).start, f]));
+        const reuseFragment = (text: string, relativeRange: OffsetRange, chapterStart: number): KustoFragment | undefined => {
+            const start = relativeRange.start + chapterStart;
+            const oldStart = start >= newEditEnd ? start - delta : start;
+            const old = oldFragmentsByStart.get(oldStart);
+            if (!old || old.text !== text || (oldStart !== start && oldStart < oldEditEnd)) {
+                return undefined;
+            }
+            return old.relativeRange.equals(relativeRange) ? old : old.withRelativeRange(relativeRange);
+        };
+
+        const ast = new DocumentAst([...before, ...parsed, ...after]);
+        return AkustoDocument._create(this.uri, newText, ast, (block, chapterStart) => {
+            const reused = this._blockFragments.get(block);
+            if (reused) {
+                return reused;
+            }
+            // Blocks after the reparsed segments moved with their chapter, so their relative ranges are unchanged
+            const moved = block.range.start >= newRegionEnd ? movedBlocks.get(block.range.start) : undefined;
+            if (moved) {
+                return this._blockFragments.get(moved) ?? [];
+            }
+            return AkustoDocument._parseCodeBlock(newText, block, chapterStart, reuseFragment);
+        });
     }
 
     /**
@@ -88,7 +209,10 @@ export class AkustoDocument {
      * Uses inclusive end to handle cursor at end of fragment.
      */
     getFragmentAt(offset: number): KustoFragment | undefined {
-        return this.fragments.find(f => f.range.start <= offset && offset <= f.range.endExclusive);
+        return this.fragments.find(f => {
+            const range = this.getFragmentRange(f);
+            return range.start <= offset && offset <= range.endExclusive;
+        });
     }
 
     /** Get the chapter containing this offset, if any. */
@@ -134,8 +258,16 @@ export class AkustoDocument {
         return result;
     }
 
-    /** Parse a CodeBlock into KustoFragments (split by empty lines). */
-    private static _parseCodeBlock(docText: string, block: CodeBlock): KustoFragment[] {
+    /**
+     * Parse a CodeBlock into KustoFragments (split by empty lines), with ranges relative to `chapterStart`.
+     * `reuseFragment` can return an existing fragment with the given text and range to avoid reparsing it.
+     */
+    private static _parseCodeBlock(
+        docText: string,
+        block: CodeBlock,
+        chapterStart: number,
+        reuseFragment?: (text: string, relativeRange: OffsetRange, chapterStart: number) => KustoFragment | undefined
+    ): KustoFragment[] {
         const fragments: KustoFragment[] = [];
         const blockText = block.text;
         const lines = blockText.split('\n');
@@ -149,15 +281,19 @@ export class AkustoDocument {
                 const fragmentText = fragmentLines.join('\n');
                 // Check if there's any non-whitespace content
                 if (fragmentText.trim().length > 0) {
-                    // Convert block-relative offsets to document offsets
+                    // Convert block-relative offsets to chapter-relative offsets
                     // Keep the original text (with trailing whitespace) so cursor positions work
-                    const docStart = block.range.start + fragmentStart;
-                    const docEnd = block.range.start + endOffset;
-                    const range = new OffsetRange(docStart, docEnd);
+                    const blockStart = block.range.start - chapterStart;
+                    const range = new OffsetRange(blockStart + fragmentStart, blockStart + endOffset);
 
-                    const exported = AkustoDocument._parseExportedName(fragmentText);
-                    const referenced = AkustoDocument._parseReferencedNames(fragmentText, exported);
-                    fragments.push(new KustoFragment(fragmentText, range, exported, referenced));
+                    const reused = reuseFragment?.(fragmentText, range, chapterStart);
+                    if (reused) {
+                        fragments.push(reused);
+                    } else {
+                        const exported = AkustoDocument._parseExportedName(fragmentText);
+                        const referenced = AkustoDocument._parseReferencedNames(fragmentText, exported);
+                        fragments.push(new KustoFragment(fragmentText, range, exported, referenced));
+                    }
                 }
             }
             fragmentLines = [];
@@ -192,7 +328,7 @@ export class AkustoDocument {
     private static _parseExportedName(text: string): string | null {
         // Strip leading comments before looking for let statement
         const strippedText = AkustoDocument._stripLeadingComments(text);
-        const match = strippedText.match(/^\s*let\s+(\$[a-zA-Z_][a-zA-Z0-9_.]*)\s*=/);
+        const match = strippedText.match(/^\s*let\s+(\$[a-zA-Z_][a-zA-Z0-9_.]*)\s*[=(]/);
         return match ? match[1] : null;
     }
 
@@ -217,6 +217,44 @@ $b | take 10`);
             `);
         });
 
+        it('resolves parameterized definition as a function', () => {
+            const doc = AkustoDocument.parse('file://a.kql',
+                `let $events.byName(name: string, window: timespan = 1d) = Events
+| where Timestamp > ago(window) and Name == name // filtered
+
+$events.byName("click") | take 10`);
+            const project = AkustoProject.fromDocuments([doc]);
+            const resolved = project.resolve(doc, doc.fragments[1]);
+
+            expect(resolved.virtualText).toMatchInlineSnapshot(`
+              "let events_byName = (name: string, window: timespan = 1d) {
+              Events
+              | where Timestamp > ago(window) and Name == name // filtered
+              };
+              events_byName("click") | take 10"
+            `);
+        });
+
+        it('maps parameter list and body of parameterized definition to source', () => {
+            const source = `let $f(n: long) = range x from 1 to n step 1
+
+$f(3)`;
+            const doc = AkustoDocument.parse('file://a.kql', source);
+            const project = AkustoProject.fromDocuments([doc]);
+            const resolved = project.resolve(doc, doc.fragments[1]);
+
+            const toSource = (needle: string) => {
+                const location = resolved.sourceMap.toDocumentOffset(resolved.virtualText.indexOf(needle));
+                return location && source.substring(location.offset, location.offset + needle.length);
+            };
+            expect([toSource('n: long'), toSource('range x')]).toMatchInlineSnapshot(`
+              [
+                "n: long",
+                "range x",
+              ]
+            `);
+        });
+
         it('throws on cyclic dependency', () => {
             const doc = AkustoDocument.parse('file://a.kql',
                 `let $a = $b
@@ -378,6 +416,101 @@ $private | take 10`);
         });
     });
 
+    describe('findReferences', () => {
+        function describeReferences(project: AkustoProject, refs: ReturnType<AkustoProject['findReferences']>) {
+            return refs.map(r => {
+                const text = project.documents.get(r.uri)!.text;
+                const line = text.substring(0, r.range.start).split('\n').length;
+                return `${r.uri}:${line} ${text.substring(r.range.start, r.range.endExclusive)}${r.isDeclaration ? ' (declaration)' : ''}`;
+            });
+        }
+
+        it('finds declaration and usages across documents', () => {
+            const lib = AkustoDocument.parse('file://lib.kql', `let $events = Events
+
+let $events.errors = $events | where Level == "Error"`);
+            const main = AkustoDocument.parse('file://main.kql', `:include("./lib.kql")
+
+$events | take 10
+
+$events.errors | count`);
+            const project = AkustoProject.fromDocuments([lib, main]);
+
+            const refs = project.findReferences(project.getDefinition('$events')!);
+            expect(describeReferences(project, refs)).toMatchInlineSnapshot(`
+              [
+                "file://lib.kql:1 $events (declaration)",
+                "file://lib.kql:3 $events",
+                "file://main.kql:3 $events",
+              ]
+            `);
+        });
+
+        it('excludes usages in chapters that shadow the definition', () => {
+            const doc = AkustoDocument.parse('file://a.kql', `let $x = Events
+
+$x | take 1
+
+# Chapter
+
+let $x = Logs
+
+$x | take 10`);
+            const project = AkustoProject.fromDocuments([doc]);
+
+            const globalRefs = project.findReferences(project.getDefinition('$x')!);
+            expect(describeReferences(project, globalRefs)).toMatchInlineSnapshot(`
+              [
+                "file://a.kql:1 $x (declaration)",
+                "file://a.kql:3 $x",
+              ]
+            `);
+
+            const localDef = project.getDefinitionAt(doc, doc.text.lastIndexOf('$x'))!;
+            const localRefs = project.findReferences(localDef);
+            expect(describeReferences(project, localRefs)).toMatchInlineSnapshot(`
+              [
+                "file://a.kql:7 $x (declaration)",
+                "file://a.kql:9 $x",
+              ]
+            `);
+        });
+
+        it('ignores names in comments and string literals', () => {
+            const doc = AkustoDocument.parse('file://a.kql', `let $foo = Events
+
+// Uses $foo
+$foo | where Message == "$foo" or Message has @'c:\\$foo' | extend Note = '\\'$foo'`);
+            const project = AkustoProject.fromDocuments([doc]);
+
+            const refs = project.findReferences(project.getDefinition('$foo')!);
+            expect(describeReferences(project, refs)).toMatchInlineSnapshot(`
+              [
+                "file://a.kql:1 $foo (declaration)",
+                "file://a.kql:4 $foo",
+              ]
+            `);
+        });
+    });
+
+    describe('findRenameConflict', () => {
+        it('finds definitions that would shadow renamed references', () => {
+            const doc = AkustoDocument.parse('file://a.kql', `let $a = Events
+
+# Chapter
+
+let $b = Logs
+
+$a | join $b on Id`);
+            const project = AkustoProject.fromDocuments([doc]);
+            const globalDef = project.getDefinition('$a')!;
+
+            const conflict = project.findRenameConflict(globalDef, '$b');
+            expect(conflict && doc.text.substring(conflict.range.start, conflict.range.endExclusive)).toMatchInlineSnapshot(`"let $b = Logs"`);
+            expect(project.findRenameConflict(globalDef, '$c')).toBeUndefined();
+        });
+    });
+
     describe('multi-file project with instructions', () => {
         it('resolves query using definition from library file with connection', () => {
             // Library file: shared definitions
@@ -489,6 +622,25 @@ Logs | take 5`);
 			`);
         });
 
+        it('resolves setSchema with the declaring document', () => {
+            const doc = AkustoDocument.parse('file:///queries/main.kql', `:setSchema("./schema.json")
+Events | take 10`);
+            const project = AkustoProject.fromDocuments([doc]);
+            const resolved = project.resolve(doc, doc.fragments[0]);
+
+            expect(resolved.instructions).toMatchInlineSnapshot(`
+              [
+                {
+                  "type": "setSchema",
+                  "value": {
+                    "documentUri": "file:///queries/main.kql",
+                    "path": "./schema.json",
+                  },
+                },
+              ]
+            `);
+        });
+
         it('transitive dependencies across files with instructions', () => {
             // Base definitions
             const baseDoc = AkustoDocument.parse('file://base.kql',
@@ -6,7 +6,7 @@ import { KustoFragment } from './kustoFragment';
 import { Chapter, Instruction } from './ast';
 import { parseInstructionExpression } from './instructionResolver';
 import { ResolvedInstruction } from './instructionTypes';
-import { DefinitionInfo, extractDefinitionInfo } from './definitionInfo';
+import { DefinitionInfo, DefinitionHeader, extractDefinitionInfo, findDefinitionNameTokens, getDefinitionNameAtOffset, parseDefinitionHeader } from './definitionInfo';
 
 /** Reference to a fragment within a document. */
 export class FragmentRef {
@@ -16,12 +16,36 @@ export class FragmentRef {
         /** The chapter this fragment belongs to, if any. */
         public readonly chapter: Chapter | undefined = undefined
     ) { }
+
+    /** Range of the fragment within the document. */
+    get range(): OffsetRange {
+        return this.document.getFragmentRange(this.fragment);
+    }
+}
+
+/**
+ * Definition info per fragment, shared across project versions.
+ * The info has document ranges, so it is only reused while the fragment stays at the same start.
+ */
+const definitionInfoByFragment = new WeakMap<KustoFragment, { start: number; info: DefinitionInfo }>();
+
+/** An occurrence of a `$definition` name in a document. */
+export class DefinitionReference {
+    constructor(
+        public readonly uri: string,
+        /** Range of the name (including `$`) in the document. */
+        public readonly range: OffsetRange,
+        /** True for the name in the `let $name = ...` declaration. */
+        public readonly isDeclaration: boolean
+    ) { }
 }
 
 /** Immutable project containing multiple Akusto documents. */
 export class AkustoProject {
     /** Cached definition info, computed lazily */
     private _definitionInfoCache: Map<string, DefinitionInfo> | null = null;
+    /** Cached map from `$name` to fragments that reference or export it, computed lazily */
+    private _referenceIndexCache: Map<string, FragmentRef[]> | null = null;
 
     private constructor(
         public readonly documents: ReadonlyMap<string, AkustoDocument>
@@ -86,14 +110,14 @@ export class AkustoProject {
             for (const doc of this.documents.values()) {
                 for (const fragment of doc.topLevelFragments) {
                     if (fragment.exportedName) {
-                        const info = extractDefinitionInfo(
-                            doc.text,
-                            fragment.text,
-                            fragment.range.start,
-                            fragment.exportedName,
-                            doc.uri
-                        );
-                        this._definitionInfoCache.set(fragment.exportedName, info);
+                        // Fragments are reused across incremental edits, so their info can be too
+                        const start = doc.getFragmentRange(fragment).start;
+                        let cached = definitionInfoByFragment.get(fragment);
+                        if (cached?.start !== start) {
+                            cached = { start, info: extractDefinitionInfo(doc.text, fragment.text, start, fragment.exportedName, doc.uri) };
+                            definitionInfoByFragment.set(fragment, cached);
+                        }
+                        this._definitionInfoCache.set(fragment.exportedName, cached.info);
                     }
                 }
             }
@@ -108,6 +132,114 @@ export class AkustoProject {
         return this.getDefinitionInfos().get(name);
     }
 
+    /**
+     * Find all occurrences of a definition across the project, including its declaration.
+     * References inside chapters that define a local definition with the same name are excluded,
+     * as they refer to the chapter-local definition.
+     */
+    findReferences(definition: FragmentRef): DefinitionReference[] {
+        const name = definition.fragment.exportedName;
+        if (!name) {
+            return [];
+        }
+
+        const result: DefinitionReference[] = [];
+        for (const ref of this._getReferenceIndex().get(name) ?? []) {
+            const target = this.getVisibleDefinition(name, ref.document, ref.chapter);
+            if (target?.fragment !== definition.fragment) {
+                continue;
+            }
+
+            const declarationOffset = ref.fragment === definition.fragment
+                ? parseDefinitionHeader(ref.fragment.text, name)?.nameOffset
+                : undefined;
+            for (const offset of findNameOccurrences(ref.fragment.text, name)) {
+                const start = ref.range.start + offset;
+                result.push(new DefinitionReference(
+                    ref.document.uri,
+                    new OffsetRange(start, start + name.length),
+                    offset === declarationOffset
+                ));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Get the definition that a reference of a definition would refer to instead if it was renamed to `newName`,
+     * e.g. a chapter-local `$b` for the references in that chapter when renaming the global `$a` to `$b`.
+     */
+    findRenameConflict(definition: FragmentRef, newName: string): FragmentRef | undefined {
+        for (const reference of this.findReferences(definition)) {
+            const doc = this.documents.get(reference.uri);
+            const conflict = doc && this.getVisibleDefinition(newName, doc, doc.getChapterAt(reference.range.start));
+            if (conflict) {
+                return conflict;
+            }
+        }
+        return undefined;
+    }
+
+    /** Get the definition referenced by the `$name` at an offset, respecting chapter-local shadowing. */
+    getDefinitionAt(doc: AkustoDocument, offset: number): FragmentRef | undefined {
+        const name = getDefinitionNameAtOffset(doc.text, offset);
+        if (!name) {
+            return undefined;
+        }
+        return this.getVisibleDefinition(name, doc, doc.getChapterAt(offset));
+    }
+
+    /** Get definition visible from a context (chapter-local first, then global). */
+    getVisibleDefinition(
+        name: string,
+        contextDoc: AkustoDocument,
+        contextChapter: Chapter | undefined
+    ): FragmentRef | undefined {
+        // Check chapter-local definitions first
+        if (contextChapter) {
+            const chapterFrags = contextDoc.chapterFragments.get(contextChapter) ?? [];
+            for (const fragment of chapterFrags) {
+                if (fragment.exportedName === name) {
+                    return new FragmentRef(contextDoc, fragment, contextChapter);
+                }
+            }
+        }
+        // Fall back to global definitions
+        return this.getDefinition(name);
+    }
+
+    /** Index of all fragments by the `$names` they reference or export. */
+    private _getReferenceIndex(): Map<string, FragmentRef[]> {
+        if (!this._referenceIndexCache) {
+            const index = new Map<string, FragmentRef[]>();
+            const add = (ref: FragmentRef) => {
+                const names = ref.fragment.exportedName
+                    ? [ref.fragment.exportedName, ...ref.fragment.referencedNames]
+                    : ref.fragment.referencedNames;
+                for (const name of names) {
+                    let refs = index.get(name);
+                    if (!refs) {
+                        refs = [];
+                        index.set(name, refs);
+                    }
+                    refs.push(ref);
+                }
+            };
+            for (const doc of this.documents.values()) {
+                for (const fragment of doc.topLevelFragments) {
+                    add(new FragmentRef(doc, fragment));
+                }
+                for (const [chapter, fragments] of doc.chapterFragments) {
+                    for (const fragment of fragments) {
+                        add(new FragmentRef(doc, fragment, chapter));
+                    }
+                }
+            }
+            this._referenceIndexCache = index;
+        }
+        return this._referenceIndexCache;
+    }
+
     /** @throws Error on cyclic dependencies */
     resolve(targetDoc: AkustoDocument, targetFragment: KustoFragment): ResolvedKustoDocument {
         const startTime = performance.now();
@@ -132,19 +264,29 @@ export class AkustoProject {
             const exportedName = dep.fragment.exportedName;
             if (exportedName) {
                 const kustoName = renames.get(exportedName) ?? exportedName;
-                // Emit: let name = <body>;
                 builder.append(`let ${kustoName} = `);
                 // Get the body text and its offset within the original fragment
-                const { body: bodyText, bodyOffset } = this._getDefinitionBodyWithOffset(dep.fragment.text, exportedName);
+                const { body: bodyText, bodyOffset, parameterList } = this._getDefinitionBodyWithOffset(dep.fragment.text, exportedName);
                 // Pass source mapping for dependencies so Go to Definition can find declarations
-                const bodySourceOffset = dep.fragment.range.start + bodyOffset;
-                this._appendWithRenames(builder, bodyText, renames, dep.document.uri, bodySourceOffset);
-                builder.append(';\n');
+                const bodySourceOffset = dep.range.start + bodyOffset;
+                if (parameterList) {
+                    // Emit as a function: let name = (params) { <body> };
+                    const paramsSourceOffset = dep.range.start + parameterList.offset;
+                    this._appendWithRenames(builder, parameterList.text, renames, dep.document.uri, paramsSourceOffset);
+                    builder.append(' {\n');
+                    this._appendWithRenames(builder, bodyText, renames, dep.document.uri, bodySourceOffset);
+                    // Newline so a trailing line comment in the body can't swallow the closing brace
+                    builder.append('\n};\n');
+                } else {
+                    // Emit: let name = <body>;
+                    this._appendWithRenames(builder, bodyText, renames, dep.document.uri, bodySourceOffset);
+                    builder.append(';\n');
+                }
             }
         }
 
         // Emit target fragment with variable renames, preserving source mapping for non-renamed parts
-        this._appendWithRenames(builder, targetFragment.text, renames, targetDoc.uri, targetFragment.range.start);
+        this._appendWithRenames(builder, targetFragment.text, renames, targetDoc.uri, targetDoc.getFragmentRange(targetFragment).start);
 
         const { text, sourceMap } = builder.build();
         const instructions = this._collectInstructions(targetDoc, chapter);
@@ -157,32 +299,29 @@ export class AkustoProject {
         return new ResolvedKustoDocument(text, sourceMap, instructions);
     }
 
-    /** Extract body from a definition (strip "let $name = " or "$name = " prefix). 
+    /** Extract body from a definition (strip "let $name = ", "let $name(params) = " or "$name = " prefix). 
      * Handles leading comments before the let statement.
-     * Returns both the body text and the offset where it starts in the original text.
+     * Returns the body text, the offset where it starts in the original text and the parameter list, if any.
      */
-    private _getDefinitionBodyWithOffset(text: string, exportedName: string): { body: string; bodyOffset: number } {
-        // Escape special regex characters in the name (especially $ and .)
-        const escapedName = exportedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-        // Match: optional leading content (comments/whitespace), then "let $name = ", capture the rest
-        const letRegex = new RegExp(`^[\\s\\S]*?let\\s+${escapedName}\\s*=\\s*`);
-        const letMatch = text.match(letRegex);
-        if (letMatch) {
-            const bodyOffset = letMatch[0].length;
-            return { body: text.substring(bodyOffset), bodyOffset };
+    private _getDefinitionBodyWithOffset(text: string, exportedName: string): { body: string; bodyOffset: number; parameterList: DefinitionHeader['parameterList'] } {
+        // Match: optional leading content (comments/whitespace), then "let $name(params) = ", capture the rest
+        const header = parseDefinitionHeader(text, exportedName);
+        if (header) {
+            return { body: text.substring(header.bodyOffset), bodyOffset: header.bodyOffset, parameterList: header.parameterList };
         }
 
         // Try simple "$name = " format
+        // Escape special regex characters in the name (especially $ and .)
+        const escapedName = exportedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
         const simpleRegex = new RegExp(`^[\\s\\S]*?${escapedName}\\s*=\\s*`);
         const simpleMatch = text.match(simpleRegex);
         if (simpleMatch) {
             const bodyOffset = simpleMatch[0].length;
-            return { body: text.substring(bodyOffset), bodyOffset };
+            return { body: text.substring(bodyOffset), bodyOffset, parameterList: null };
         }
 
         // Fallback: return as-is
-        return { body: text, bodyOffset: 0 };
+        return { body: text, bodyOffset: 0, parameterList: null };
     }
 
     /** Extract body from a definition (strip "let $name = " or "$name = " prefix). 
@@ -278,8 +417,13 @@ export class AkustoProject {
         const addInstructions = (instrs: Instruction[]) => {
             for (const instr of instrs) {
                 const parsed = parseInstructionExpression(instr.expression);
-                if (parsed.ok && parsed.instruction.type !== 'include') {
-                    result.push(parsed.instruction as ResolvedInstruction);
+                if (!parsed.ok || parsed.instruction.type === 'include') {
+                    continue;
+                }
+                if (parsed.instruction.type === 'setSchema') {
+                    result.push({ type: 'setSchema', value: { path: parsed.instruction.path, documentUri: doc.uri } });
+                } else {
+                    result.push(parsed.instruction);
                 }
             }
         };
@@ -304,25 +448,6 @@ export class AkustoProject {
         return undefined;
     }
 
-    /** Get definition visible from a context (chapter-local first, then global). */
-    private _getVisibleDefinition(
-        name: string,
-        contextDoc: AkustoDocument,
-        contextChapter: Chapter | undefined
-    ): FragmentRef | undefined {
-        // Check chapter-local definitions first
-        if (contextChapter) {
-            const chapterFrags = contextDoc.chapterFragments.get(contextChapter) ?? [];
-            for (const fragment of chapterFrags) {
-                if (fragment.exportedName === name) {
-                    return new FragmentRef(contextDoc, fragment, contextChapter);
-                }
-            }
-        }
-        // Fall back to global definitions
-        return this.getDefinition(name);
-    }
-
     // In topological order, throws on cyclic dependencies.
     private _getTransitiveDependencies(
         contextDoc: AkustoDocument,
@@ -342,7 +467,7 @@ export class AkustoProject {
                     throw new Error(`Cyclic dependency detected: ${name}`);
                 }
 
-                const def = this._getVisibleDefinition(name, contextDoc, contextChapter);
+                const def = this.getVisibleDefinition(name, contextDoc, contextChapter);
                 if (!def) {
                     // Unknown reference - skip (might be a built-in or external)
                     continue;
@@ -361,3 +486,8 @@ export class AkustoProject {
         return result;
     }
 }
+
+/** Find the offsets of all occurrences of a `$name` token in text, outside comments and string literals. */
+function findNameOccurrences(text: string, name: string): number[] {
+    return findDefinitionNameTokens(text).filter(t => t.name === name).map(t => t.offset);
+}
@@ -9,6 +9,9 @@ export abstract class AstNode {
 
     /** Dump this node as a human-readable string. */
     abstract dump(indent?: string): string;
+
+    /** Move this node by `delta`. */
+    abstract delta(delta: number): AstNode;
 }
 
 /** An instruction like `:include("./defs.kql")`. */
@@ -27,6 +30,10 @@ export class Instruction extends AstNode {
     dump(indent = ''): string {
         return `${indent}Instruction: :${this.expression}`;
     }
+
+    delta(delta: number): Instruction {
+        return new Instruction(this.expression, this.expressionRange.delta(delta), this.range.delta(delta));
+    }
 }
 
 /** A chapter header like `# Query 123`. */
@@ -61,6 +68,15 @@ export class Chapter extends AstNode {
         }
         return lines.join('\n');
     }
+
+    delta(delta: number): Chapter {
+        return new Chapter(
+            this.title,
+            this.titleRange.delta(delta),
+            this.children.map(c => c.delta(delta)),
+            this.range.delta(delta)
+        );
+    }
 }
 
 /** A block of Kusto code. */
@@ -88,8 +104,12 @@ export class CodeBlock extends AstNode {
         return `${indent}CodeBlock: ${preview}${exported}`;
     }
 
+    delta(delta: number): CodeBlock {
+        return new CodeBlock(this.text, this.range.delta(delta));
+    }
+
     private static _parseExportedName(text: string): string | null {
-        const match = text.match(/^\s*let\s+(\$[a-zA-Z_][a-zA-Z0-9_]*)\s*=/);
+        const match = text.match(/^\s*let\s+(\$[a-zA-Z_][a-zA-Z0-9_]*)\s*[=(]/);
         return match ? match[1] : null;
     }
 }
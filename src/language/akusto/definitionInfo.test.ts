@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { extractDefinitionInfo, getDefinitionNameAtOffset } from './definitionInfo';
+import { extractDefinitionInfo, getDefinitionNameAtOffset, getDefinitionCallAtOffset, parseDefinitionHeader } from './definitionInfo';
 
 describe('DefinitionInfo', () => {
     describe('extractDefinitionInfo', () => {
@@ -46,6 +46,75 @@ with multiple lines`);
             expect(info.name).toBe('$events.query.debug');
             expect(info.body).toBe('Events | where Level == "debug"');
         });
+
+        test('extracts parameters of parameterized definition', () => {
+            const text = 'let $events.byName(name: string, window: timespan = 1d) = Events | where Name == name';
+            const info = extractDefinitionInfo(text, text, 0, '$events.byName', 'file://test.kql');
+
+            expect({ nameRange: info.nameRange.toString(), body: info.body, parameters: info.parameters }).toMatchInlineSnapshot(`
+              {
+                "body": "Events | where Name == name",
+                "nameRange": "[4, 18)",
+                "parameters": [
+                  {
+                    "name": "name",
+                    "type": "string",
+                  },
+                  {
+                    "defaultValue": "1d",
+                    "name": "window",
+                    "type": "timespan",
+                  },
+                ],
+              }
+            `);
+        });
+
+        test('has null parameters for plain definition', () => {
+            const text = 'let $events = Events';
+            const info = extractDefinitionInfo(text, text, 0, '$events', 'file://test.kql');
+
+            expect(info.parameters).toBeNull();
+        });
+    });
+
+    describe('parseDefinitionHeader', () => {
+        test('parses tabular parameters and leading comments', () => {
+            const text = `// Filters a table
+let $filtered(T: (Name: string, Count: long), minCount: long) = T | where Count >= minCount`;
+            const header = parseDefinitionHeader(text, '$filtered');
+
+            expect({
+                name: header && text.substring(header.nameOffset, header.nameOffset + '$filtered'.length),
+                parameterList: header?.parameterList?.text,
+                parameters: header?.parameterList?.parameters,
+                body: header && text.substring(header.bodyOffset),
+            }).toMatchInlineSnapshot(`
+              {
+                "body": "T | where Count >= minCount",
+                "name": "$filtered",
+                "parameterList": "(T: (Name: string, Count: long), minCount: long)",
+                "parameters": [
+                  {
+                    "name": "T",
+                    "type": "(Name: string, Count: long)",
+                  },
+                  {
+                    "name": "minCount",
+                    "type": "long",
+                  },
+                ],
+              }
+            `);
+        });
+
+        test('does not match a longer name with the same prefix', () => {
+            expect(parseDefinitionHeader('let $events.query = Events', '$events')).toBeNull();
+        });
+
+        test('returns null for unclosed parameter list', () => {
+            expect(parseDefinitionHeader('let $f(a: string = Events', '$f')).toBeNull();
+        });
     });
 
     describe('getDefinitionNameAtOffset', () => {
@@ -94,4 +163,26 @@ with multiple lines`);
             expect(getDefinitionNameAtOffset(text, 7)).toBe('$x');
         });
     });
+
+    describe('getDefinitionCallAtOffset', () => {
+        test('returns called definition and argument index', () => {
+            const text = '$events.byName("foo", 1d';
+            expect(getDefinitionCallAtOffset(text, 15)).toEqual({ name: '$events.byName', argumentIndex: 0 });
+            expect(getDefinitionCallAtOffset(text, text.length)).toEqual({ name: '$events.byName', argumentIndex: 1 });
+        });
+
+        test('skips nested calls and commas in strings', () => {
+            const text = '$f(bin(Timestamp, 1h), "a,b", ';
+            expect(getDefinitionCallAtOffset(text, text.length)).toEqual({ name: '$f', argumentIndex: 2 });
+        });
+
+        test('returns null inside a non-definition call', () => {
+            const text = '$f(bin(Timestamp, ';
+            expect(getDefinitionCallAtOffset(text, text.length)).toBeNull();
+        });
+
+        test('returns null outside of a call', () => {
+            expect(getDefinitionCallAtOffset('$f(1) | take 10', 12)).toBeNull();
+        });
+    });
 });
@@ -23,6 +23,41 @@ export interface DefinitionInfo {
 
     /** The body expression (after "let $name = ") */
     readonly body: string;
+
+    /** Parameters of a parameterized definition (`let $name(a: string) = ...`), null otherwise */
+    readonly parameters: readonly DefinitionParameter[] | null;
+}
+
+/** A parameter of a parameterized definition. */
+export interface DefinitionParameter {
+    /** The parameter name, e.g., "window" */
+    readonly name: string;
+
+    /** The declared type, e.g., "timespan" or "(*)" for tabular parameters */
+    readonly type: string;
+
+    /** The default value expression, if any */
+    readonly defaultValue?: string;
+}
+
+/**
+ * Parsed header of a definition: `let $name = ` or `let $name(a: string, b: long = 1) = `.
+ * All offsets are relative to the fragment text.
+ */
+export interface DefinitionHeader {
+    /** Offset of the definition name */
+    readonly nameOffset: number;
+
+    /** The parameter list, or null if the definition takes no parameters */
+    readonly parameterList: {
+        /** Text of the parameter list including the parentheses */
+        readonly text: string;
+        readonly offset: number;
+        readonly parameters: readonly DefinitionParameter[];
+    } | null;
+
+    /** Offset where the body starts (after "= " and following whitespace) */
+    readonly bodyOffset: number;
 }
 
 /**
@@ -42,23 +77,19 @@ export function extractDefinitionInfo(
     uri: string
 ): DefinitionInfo {
     // Find where the name appears in the fragment
-    // Pattern: let $name = body
-    const escapedName = exportedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const letPattern = new RegExp(`let\\s+(${escapedName})\\s*=\\s*`);
-    const match = fragmentText.match(letPattern);
+    // Pattern: let $name = body, or let $name(params) = body
+    const header = parseDefinitionHeader(fragmentText, exportedName);
 
     let nameRange: OffsetRange;
     let body: string;
 
-    if (match && match.index !== undefined) {
+    if (header) {
         // Found "let $name = "
-        const nameStartInFragment = match.index + match[0].indexOf(exportedName);
-        const nameStart = fragmentStart + nameStartInFragment;
+        const nameStart = fragmentStart + header.nameOffset;
         nameRange = new OffsetRange(nameStart, nameStart + exportedName.length);
 
         // Body is everything after "let $name = "
-        const bodyStart = match.index + match[0].length;
-        body = fragmentText.substring(bodyStart).trim();
+        body = fragmentText.substring(header.bodyOffset).trim();
     } else {
         // Fallback: assume name is at start of fragment
         const nameStart = fragmentText.indexOf(exportedName);
@@ -83,9 +114,175 @@ export function extractDefinitionInfo(
         fullRange: new OffsetRange(fragmentStart, fragmentStart + fragmentText.length),
         documentation,
         body,
+        parameters: header?.parameterList?.parameters ?? null,
     };
 }
 
+/**
+ * Parse the header of a definition fragment (`let $name(params) = `).
+ * Leading comments before the let statement are skipped.
+ *
+ * @param fragmentText The fragment text
+ * @param exportedName The exported name (e.g., "$events.query")
+ * @returns The parsed header, or null if the fragment has no `let $name ... =` header
+ */
+export function parseDefinitionHeader(fragmentText: string, exportedName: string): DefinitionHeader | null {
+    const escapedName = exportedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const letPattern = new RegExp(`let\\s+${escapedName}(?![a-zA-Z0-9_.])`);
+    const match = fragmentText.match(letPattern);
+    if (!match || match.index === undefined) {
+        return null;
+    }
+
+    const nameOffset = match.index + match[0].length - exportedName.length;
+    let pos = skipWhitespace(fragmentText, nameOffset + exportedName.length);
+
+    let parameterList: DefinitionHeader['parameterList'] = null;
+    if (fragmentText[pos] === '(') {
+        const closeParen = findClosingParen(fragmentText, pos);
+        if (closeParen === -1) {
+            return null;
+        }
+        const text = fragmentText.substring(pos, closeParen + 1);
+        parameterList = { text, offset: pos, parameters: parseParameterList(text.slice(1, -1)) };
+        pos = skipWhitespace(fragmentText, closeParen + 1);
+    }
+
+    if (fragmentText[pos] !== '=') {
+        return null;
+    }
+
+    return { nameOffset, parameterList, bodyOffset: skipWhitespace(fragmentText, pos + 1) };
+}
+
+/** Parse the inside of a parameter list: `a: string, T: (*), b: long = 1`. */
+function parseParameterList(text: string): DefinitionParameter[] {
+    const result: DefinitionParameter[] = [];
+    for (const part of splitTopLevel(text, ',')) {
+        const trimmed = part.trim();
+        if (trimmed === '') {
+            continue;
+        }
+        const [declaration, ...defaultParts] = splitTopLevel(trimmed, '=');
+        const colon = declaration.indexOf(':');
+        const name = (colon === -1 ? declaration : declaration.substring(0, colon)).trim();
+        const type = colon === -1 ? '' : declaration.substring(colon + 1).trim();
+        const defaultValue = defaultParts.length > 0 ? defaultParts.join('=').trim() : undefined;
+        result.push(defaultValue !== undefined ? { name, type, defaultValue } : { name, type });
+    }
+    return result;
+}
+
+/** Split text at a separator, ignoring separators nested in parentheses, brackets or strings. */
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) {
+                quote = null;
+            }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '(' || ch === '[') {
+            depth++;
+        } else if (ch === ')' || ch === ']') {
+            depth--;
+        } else if (ch === separator && depth === 0) {
+            parts.push(text.substring(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.substring(start));
+    return parts;
+}
+
+/** Find the `)` matching the `(` at openOffset, or -1. */
+function findClosingParen(text: string, openOffset: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = openOffset; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) {
+                quote = null;
+            }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+function skipWhitespace(text: string, offset: number): number {
+    while (offset < text.length && /\s/.test(text[offset])) {
+        offset++;
+    }
+    return offset;
+}
+
+/**
+ * Format the parameter list of a definition for display, e.g. `(start: datetime, window: timespan = 1d)`.
+ */
+export function formatDefinitionParameters(parameters: readonly DefinitionParameter[]): string {
+    const formatted = parameters.map(p => {
+        const typed = p.type ? `${p.name}: ${p.type}` : p.name;
+        return p.defaultValue !== undefined ? `${typed} = ${p.defaultValue}` : typed;
+    });
+    return `(${formatted.join(', ')})`;
+}
+
+/** Check whether a string is a valid definition name (e.g., `$events.query`). */
+export function isValidDefinitionName(name: string): boolean {
+    return /^\$[a-zA-Z_][a-zA-Z0-9_.]*$/.test(name) && !name.endsWith('.');
+}
+
+/**
+ * Find all `$name` tokens in Kusto text, skipping `//` comments and string literals
+ * (including verbatim `@'...'` strings and ```` ``` ```` multi-line strings).
+ */
+export function findDefinitionNameTokens(text: string): { name: string; offset: number }[] {
+    const tokens: { name: string; offset: number }[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '/' && text[i + 1] === '/') {
+            const lineEnd = text.indexOf('\n', i);
+            i = lineEnd === -1 ? text.length : lineEnd;
+        } else if (text.startsWith('```', i)) {
+            const end = text.indexOf('```', i + 3);
+            i = end === -1 ? text.length : end + 3;
+        } else if (ch === '"' || ch === "'") {
+            // Verbatim strings (@"...") don't escape with backslashes; a doubled quote is part of the string
+            const verbatim = text[i - 1] === '@';
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                i += !verbatim && text[i] === '\\' ? 2 : 1;
+            }
+            i++;
+        } else if (ch === '$' && /[a-zA-Z_]/.test(text[i + 1] ?? '') && !/[a-zA-Z0-9_]/.test(text[i - 1] ?? '')) {
+            const match = /^\$[a-zA-Z_][a-zA-Z0-9_.]*/.exec(text.substring(i))!;
+            tokens.push({ name: match[0], offset: i });
+            i += match[0].length;
+        } else {
+            i++;
+        }
+    }
+    return tokens;
+}
+
 /**
  * Parse a definition reference to extract the name being referenced.
  * Handles both simple ($events) and dotted ($events.query.sub) names.
@@ -134,3 +331,50 @@ export function getDefinitionNameAtOffset(text: string, offset: number): string
 
     return name;
 }
+
+/**
+ * Find the `$definition(` call enclosing an offset, for signature help.
+ * Scans backwards from the offset to the nearest unclosed `(`; if it is preceded by a
+ * definition name, returns that name and the index of the argument containing the offset.
+ *
+ * @param text The text to search (typically a fragment)
+ * @param offset The cursor offset
+ * @returns The called definition and active argument index, or null
+ */
+export function getDefinitionCallAtOffset(text: string, offset: number): { name: string; argumentIndex: number } | null {
+    let depth = 0;
+    let argumentIndex = 0;
+    let quote: string | null = null;
+
+    for (let i = offset - 1; i >= 0; i--) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) {
+                quote = null;
+            }
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === ')' || ch === ']') {
+            depth++;
+        } else if (ch === '[') {
+            if (depth === 0) {
+                return null;
+            }
+            depth--;
+        } else if (ch === '(') {
+            if (depth > 0) {
+                depth--;
+                continue;
+            }
+            const name = getDefinitionNameAtOffset(text, i);
+            return name ? { name, argumentIndex } : null;
+        } else if (ch === ',' && depth === 0) {
+            argumentIndex++;
+        }
+    }
+
+    return null;
+}
@@ -8,11 +8,11 @@ type ParsedLine =
     | { type: 'empty'; lineStart: number; lineEnd: number }
     | { type: 'code'; text: string; lineStart: number; lineEnd: number };
 
-/** Parse document text into lines with type information. */
-function parseLines(text: string): ParsedLine[] {
+/** Parse document text into lines with type information. Offsets start at `baseOffset`. */
+function parseLines(text: string, baseOffset = 0): ParsedLine[] {
     const result: ParsedLine[] = [];
     const lines = text.split('\n');
-    let offset = 0;
+    let offset = baseOffset;
 
     for (const line of lines) {
         const lineStart = offset;
@@ -70,7 +70,20 @@ function collectCodeBlock(lines: ParsedLine[], startIdx: number): { block: CodeB
 
 /** Parse document text into AST. */
 export function parseDocument(text: string): DocumentAst {
-    const lines = parseLines(text);
+    return new DocumentAst(parseNodes(parseLines(text)));
+}
+
+/**
+ * Parse the lines within a range of the document into top-level nodes.
+ * The range must start at a line start and end at a line end.
+ * Node offsets are relative to the full document.
+ */
+export function parseDocumentRange(text: string, range: OffsetRange): AstNode[] {
+    return parseNodes(parseLines(range.substring(text), range.start));
+}
+
+/** Parse lines into top-level nodes. */
+function parseNodes(lines: ParsedLine[]): AstNode[] {
     const children: AstNode[] = [];
     let i = 0;
 
@@ -109,7 +122,7 @@ export function parseDocument(text: string): DocumentAst {
         i++;
     }
 
-    return new DocumentAst(children);
+    return children;
 }
 
 /** Parse a chapter starting at given line index. */
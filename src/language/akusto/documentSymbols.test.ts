@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { AkustoDocument } from './akustoDocument';
+import { DocumentSymbol, getDocumentSymbols } from './documentSymbols';
+
+function dumpSymbols(doc: AkustoDocument, symbols: readonly DocumentSymbol[], indent = ''): string[] {
+    return symbols.flatMap(s => [
+        `${indent}${s.kind}: ${s.name}${s.detail ?? ''} [${s.selectionRange.substring(doc.text)}]`,
+        ...dumpSymbols(doc, s.children, indent + '  '),
+    ]);
+}
+
+describe('getDocumentSymbols', () => {
+    it('nests definitions and queries under chapters', () => {
+        const doc = AkustoDocument.parse('file://test.kql', `let $events = Events
+
+// Recent errors
+$events | where Level == "Error"
+
+# Chapter 1
+
+let $window(span: timespan = 1h) = $events | where Timestamp > ago(span)
+
+$window(2h) | take 10
+
+#  `);
+
+        expect(dumpSymbols(doc, getDocumentSymbols(doc))).toMatchInlineSnapshot(`
+          [
+            "definition: $events [$events]",
+            "query: $events | where Level == "Error" []",
+            "chapter: Chapter 1 [Chapter 1]",
+            "  definition: $window(span: timespan = 1h) [$window]",
+            "  query: $window(2h) | take 10 []",
+            "chapter: (untitled) [ ]",
+          ]
+        `);
+    });
+
+    it('truncates long query names', () => {
+        const doc = AkustoDocument.parse('file://test.kql', 'Events | where ' + 'A == 1 and '.repeat(10) + 'true');
+        expect(getDocumentSymbols(doc)[0].name).toMatchInlineSnapshot(`"Events | where A == 1 and A == 1 and A == 1 and A == 1 and A..."`);
+    });
+});
@@ -0,0 +1,72 @@
+import { OffsetRange } from '../common/offsetRange';
+import { AkustoDocument } from './akustoDocument';
+import { KustoFragment } from './kustoFragment';
+import { formatDefinitionParameters, parseDefinitionHeader } from './definitionInfo';
+
+/** Kind of an outline symbol. */
+export type DocumentSymbolKind = 'chapter' | 'definition' | 'query';
+
+/** A symbol in the document outline. */
+export interface DocumentSymbol {
+    readonly name: string;
+    readonly kind: DocumentSymbolKind;
+    /** Parameter list of parameterized definitions, e.g. `(a: string)`. */
+    readonly detail?: string;
+    /** Range of the whole symbol. */
+    readonly range: OffsetRange;
+    /** Range to select when navigating to the symbol (e.g., the definition name). */
+    readonly selectionRange: OffsetRange;
+    readonly children: readonly DocumentSymbol[];
+}
+
+const maxQueryNameLength = 60;
+
+/**
+ * Get the outline of a document.
+ * Top-level definitions and queries come first, chapters nest their own definitions and queries.
+ */
+export function getDocumentSymbols(doc: AkustoDocument): DocumentSymbol[] {
+    const result = doc.topLevelFragments.map(f => getFragmentSymbol(f, doc.getFragmentRange(f)));
+
+    for (const [chapter, fragments] of doc.chapterFragments) {
+        result.push({
+            name: chapter.title.trim() || '(untitled)',
+            kind: 'chapter',
+            range: chapter.range,
+            selectionRange: chapter.titleRange,
+            children: fragments.map(f => getFragmentSymbol(f, doc.getFragmentRange(f))),
+        });
+    }
+
+    return result;
+}
+
+function getFragmentSymbol(fragment: KustoFragment, range: OffsetRange): DocumentSymbol {
+    if (fragment.exportedName) {
+        const header = parseDefinitionHeader(fragment.text, fragment.exportedName);
+        const nameStart = range.start + (header?.nameOffset ?? 0);
+        return {
+            name: fragment.exportedName,
+            kind: 'definition',
+            detail: header?.parameterList ? formatDefinitionParameters(header.parameterList.parameters) : undefined,
+            range,
+            selectionRange: OffsetRange.ofLength(nameStart, header ? fragment.exportedName.length : 0),
+            children: [],
+        };
+    }
+
+    return {
+        name: getQueryName(fragment.text),
+        kind: 'query',
+        range,
+        selectionRange: OffsetRange.empty(range.start),
+        children: [],
+    };
+}
+
+/** Use the first line that isn't a comment as the name of a query. */
+function getQueryName(text: string): string {
+    const lines = text.split('\n').map(l => l.trim()).filter(l => l !== '');
+    const line = lines.find(l => !l.startsWith('//')) ?? lines[0] ?? '';
+    return line.length > maxQueryNameLength ? line.slice(0, maxQueryNameLength) + '...' : line;
+}
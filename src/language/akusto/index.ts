@@ -1,6 +1,6 @@
 export { KustoFragment } from './kustoFragment';
 export { AkustoDocument } from './akustoDocument';
-export { AkustoProject, FragmentRef } from './akustoProject';
+export { AkustoProject, FragmentRef, DefinitionReference } from './akustoProject';
 export { AkustoProjectLoader } from './akustoProjectLoader';
 export { ResolvedKustoDocument } from './resolvedKustoDocument';
 export {
@@ -12,11 +12,19 @@ export {
 } from './resolvedDocumentAdapter';
 export {
     type DefinitionInfo,
+    type DefinitionParameter,
+    type DefinitionHeader,
     extractDefinitionInfo,
+    parseDefinitionHeader,
+    formatDefinitionParameters,
     getDefinitionNameAtOffset,
+    isValidDefinitionName,
+    getDefinitionCallAtOffset,
 } from './definitionInfo';
 export * from './ast';
+export * from './documentSymbols';
 export * from './documentParser';
 export * from './instructionTypes';
 export * from './instructionVirtualDocument';
+export * from './instructionSignatureHelp';
 export * from './instructionResolver';
@@ -40,6 +40,51 @@ describe('parseInstructionExpression', () => {
         });
     });
 
+    test('setSchema with path', () => {
+        const result = parseInstructionExpression('setSchema("./schema.json")');
+        expect(result).toEqual({
+            ok: true,
+            instruction: { type: 'setSchema', path: './schema.json' }
+        });
+    });
+
+    test('setOptions with request properties and parameters', () => {
+        const result = parseInstructionExpression('setOptions({ servertimeout: "00:10:00", notruncation: true, parameters: { minLevel: 3 } })');
+        expect(result).toEqual({
+            ok: true,
+            instruction: {
+                type: 'setOptions',
+                value: { servertimeout: '00:10:00', notruncation: true, parameters: { minLevel: 3 } }
+            }
+        });
+    });
+
+    test('setOptions validates option types', () => {
+        expect(parseInstructionExpression('setOptions({ truncationmaxrecords: "10" })')).toEqual({
+            ok: false,
+            error: 'setOptions(): "truncationmaxrecords" must be a number'
+        });
+        expect(parseInstructionExpression('setOptions({ servertimeout: "10 minutes" })')).toEqual({
+            ok: false,
+            error: 'setOptions(): "servertimeout" must be a timespan like "00:10:00"'
+        });
+        expect(parseInstructionExpression('setOptions({ parameters: { x: [1] } })')).toEqual({
+            ok: false,
+            error: 'setOptions(): parameter "x" must be a string, number or boolean'
+        });
+    });
+
+    test('allowDestructiveCommands', () => {
+        expect(parseInstructionExpression('allowDestructiveCommands(true)')).toEqual({
+            ok: true,
+            instruction: { type: 'allowDestructiveCommands', value: true }
+        });
+        expect(parseInstructionExpression('allowDestructiveCommands("yes")')).toEqual({
+            ok: false,
+            error: 'allowDestructiveCommands() expects exactly one boolean argument'
+        });
+    });
+
     test('setOutput with options', () => {
         const result = parseInstructionExpression('setOutput({ webEditorUrl: "https://example.com", fileExt: ".csv" })');
         expect(result).toEqual({
@@ -1,9 +1,9 @@
 import * as ts from 'typescript';
-import { ResolvedInstruction, IncludeInstruction, ConnectionConfig, OutputConfig } from './instructionTypes';
+import { ResolvedInstruction, IncludeInstruction, SchemaInstruction, ConnectionConfig, OutputConfig, QueryOptions } from './instructionTypes';
 
 /** Result of parsing an instruction expression. */
 export type ParsedInstruction =
-    | { ok: true; instruction: ResolvedInstruction | IncludeInstruction }
+    | { ok: true; instruction: Exclude<ResolvedInstruction, { type: 'setSchema' }> | IncludeInstruction | SchemaInstruction }
     | { ok: false; error: string };
 
 /** A JSON-compatible value. */
@@ -87,11 +87,79 @@ export function parseInstructionExpression(expression: string): ParsedInstructio
             }
             return { ok: true, instruction: { type: 'setOutput', value: args[0] as OutputConfig } };
 
+        case 'setOptions': {
+            if (args.length !== 1 || typeof args[0] !== 'object' || args[0] === null || Array.isArray(args[0])) {
+                return { ok: false, error: 'setOptions() expects exactly one object argument' };
+            }
+            const error = validateQueryOptions(args[0]);
+            if (error) {
+                return { ok: false, error: `setOptions(): ${error}` };
+            }
+            return { ok: true, instruction: { type: 'setOptions', value: args[0] as QueryOptions } };
+        }
+
+        case 'allowDestructiveCommands':
+            if (args.length !== 1 || typeof args[0] !== 'boolean') {
+                return { ok: false, error: 'allowDestructiveCommands() expects exactly one boolean argument' };
+            }
+            return { ok: true, instruction: { type: 'allowDestructiveCommands', value: args[0] } };
+
+        case 'setSchema':
+            if (args.length !== 1 || typeof args[0] !== 'string') {
+                return { ok: false, error: 'setSchema() expects exactly one string argument' };
+            }
+            return { ok: true, instruction: { type: 'setSchema', path: args[0] } };
+
         default:
             return { ok: false, error: `Unknown instruction: ${functionName}()` };
     }
 }
 
+/** Expected value types of well-known client request properties. */
+const queryOptionTypes: Record<string, 'string' | 'number' | 'boolean'> = {
+    truncationmaxrecords: 'number',
+    notruncation: 'boolean',
+    servertimeout: 'string',
+    query_datetimescope_column: 'string',
+    query_datetimescope_from: 'string',
+    query_datetimescope_to: 'string',
+    query_results_cache_max_age: 'string',
+};
+
+/**
+ * Validate the options of `setOptions()`: well-known options must have their type,
+ * `parameters` must map names to scalars and other options must be scalars.
+ */
+function validateQueryOptions(options: { [key: string]: JsonValue }): string | undefined {
+    const isScalar = (value: JsonValue) => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+    for (const [name, value] of Object.entries(options)) {
+        if (name === 'parameters') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return '"parameters" must be an object';
+            }
+            for (const [parameter, parameterValue] of Object.entries(value)) {
+                if (!isScalar(parameterValue)) {
+                    return `parameter "${parameter}" must be a string, number or boolean`;
+                }
+            }
+            continue;
+        }
+
+        const expectedType = queryOptionTypes[name];
+        if (expectedType && typeof value !== expectedType) {
+            return `"${name}" must be a ${expectedType}`;
+        }
+        if (!isScalar(value)) {
+            return `"${name}" must be a string, number or boolean`;
+        }
+        if (name === 'servertimeout' && !/^(\d+\.)?\d+:\d+:\d+(\.\d+)?$/.test(value as string)) {
+            return '"servertimeout" must be a timespan like "00:10:00"';
+        }
+    }
+    return undefined;
+}
+
 /** Result of parsing a TypeScript expression to JSON. */
 type ExpressionResult =
     | { ok: true; value: JsonValue }
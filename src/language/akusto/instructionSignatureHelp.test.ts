@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'vitest';
+import { getInstructionSignatureHelp } from './instructionSignatureHelp';
+import { parseDocument } from './documentParser';
+
+function getHelpAtEnd(text: string) {
+    const instruction = parseDocument(text).getInstructions()[0];
+    return getInstructionSignatureHelp(instruction, text.length);
+}
+
+describe('getInstructionSignatureHelp', () => {
+    test('returns signature with documentation', () => {
+        expect(getHelpAtEnd(':setDefaultDb(')).toMatchInlineSnapshot(`
+          {
+            "activeParameter": 0,
+            "activeSignature": 0,
+            "signatures": [
+              {
+                "documentation": "Set the default database for queries.",
+                "label": "setDefaultDb(database: string): void",
+                "parameters": [
+                  {
+                    "documentation": undefined,
+                    "label": "database: string",
+                  },
+                ],
+              },
+            ],
+          }
+        `);
+    });
+
+    test('returns signature for object parameter', () => {
+        const help = getHelpAtEnd(':setConnection({ type: "azureCli", ');
+        expect(help?.signatures[0].label).toMatchInlineSnapshot(`"setConnection(config: ConnectionConfig): void"`);
+        expect(help?.activeParameter).toBe(0);
+    });
+
+    test('returns null outside of the instruction', () => {
+        const instruction = parseDocument('print 1\n:include("./a.kql")').getInstructions()[0];
+        expect(getInstructionSignatureHelp(instruction, 0)).toBeNull();
+    });
+});
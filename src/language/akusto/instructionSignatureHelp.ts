@@ -0,0 +1,75 @@
+import * as ts from 'typescript';
+import { SignatureHelp, SignatureInformation } from '../kusto';
+import { Instruction } from './ast';
+import { instructionTypeDefinitions } from './instructionTypes';
+import { buildInstructionVirtualDocument } from './instructionVirtualDocument';
+
+const virtualFileName = 'instruction.ts';
+
+/**
+ * Get signature help for an instruction call like `:setConnection(...)`.
+ * Signatures come from `instructionTypeDefinitions` via the TypeScript language service.
+ */
+export function getInstructionSignatureHelp(instruction: Instruction, offset: number): SignatureHelp | null {
+    if (offset < instruction.expressionRange.start || offset > instruction.expressionRange.endExclusive) {
+        return null;
+    }
+
+    const virtualDoc = buildInstructionVirtualDocument(instruction, instructionTypeDefinitions);
+    const targetOffset = offset + virtualDoc.sourceMap.delta;
+
+    const items = getLanguageService(virtualDoc.text).getSignatureHelpItems(virtualFileName, targetOffset, undefined);
+    if (!items || items.items.length === 0) {
+        return null;
+    }
+
+    const signatures = items.items.map((item): SignatureInformation => {
+        const separator = ts.displayPartsToString(item.separatorDisplayParts);
+        const parameters = item.parameters.map(p => ({
+            label: ts.displayPartsToString(p.displayParts),
+            documentation: ts.displayPartsToString(p.documentation) || undefined,
+        }));
+        const label = ts.displayPartsToString(item.prefixDisplayParts)
+            + parameters.map(p => p.label).join(separator)
+            + ts.displayPartsToString(item.suffixDisplayParts);
+        return {
+            label,
+            documentation: ts.displayPartsToString(item.documentation) || undefined,
+            parameters,
+        };
+    });
+
+    return {
+        signatures,
+        activeSignature: items.selectedItemIndex,
+        activeParameter: items.argumentIndex,
+    };
+}
+
+let currentText = '';
+let currentVersion = 0;
+let languageService: ts.LanguageService | undefined;
+
+/** Get the shared TypeScript language service, updated to the given virtual text. */
+function getLanguageService(text: string): ts.LanguageService {
+    if (text !== currentText) {
+        currentText = text;
+        currentVersion++;
+    }
+
+    if (!languageService) {
+        const host: ts.LanguageServiceHost = {
+            getCompilationSettings: () => ({ noLib: true, target: ts.ScriptTarget.Latest }),
+            getScriptFileNames: () => [virtualFileName],
+            getScriptVersion: () => String(currentVersion),
+            getScriptSnapshot: fileName => fileName === virtualFileName ? ts.ScriptSnapshot.fromString(currentText) : undefined,
+            getCurrentDirectory: () => '/',
+            getDefaultLibFileName: () => 'lib.d.ts',
+            fileExists: fileName => fileName === virtualFileName,
+            readFile: fileName => fileName === virtualFileName ? currentText : undefined,
+        };
+        languageService = ts.createLanguageService(host);
+    }
+
+    return languageService;
+}
@@ -14,12 +14,30 @@ declare function setDefaultDb(database: string): void;
 /** Configure output settings. */
 declare function setOutput(config: OutputConfig): void;
 
+/**
+ * Set client request properties for queries, e.g. \`setOptions({ servertimeout: "00:10:00", notruncation: true })\`.
+ * Options of several instructions are merged; chapter instructions override document instructions.
+ */
+declare function setOptions(options: QueryOptions): void;
+
+/**
+ * Run destructive management commands (\`.drop\`, \`.set-or-replace\`, \`.delete\`, \`.alter\`, ...)
+ * without asking for confirmation. Usually set in the chapter that contains such commands.
+ */
+declare function allowDestructiveCommands(allow: boolean): void;
+
+/**
+ * Load the schema for completions from a local JSON file (relative to this document),
+ * in the shape returned by ".show database schema as json". No cluster connection is needed.
+ */
+declare function setSchema(path: string): void;
+
 /**
  * Connection configuration.
  * - azureCli: Uses 'az login' credentials (recommended for local dev)
  * - vscode: Uses VS Code's built-in authentication
  * - defaultAzure: Tries multiple methods (env, managed identity, CLI, etc.)
- * - connectionString: Raw connection string
+ * - connectionString: Kusto connection string (Data Source, Initial Catalog, Fed, AppClientId/AppKey, Authority Id, User Token)
  */
 type ConnectionConfig = 
 	| { type: "azureCli"; cluster: string }
@@ -28,11 +46,32 @@ type ConnectionConfig =
 	| { type: "connectionString"; connectionString: string };
 
 interface OutputConfig {
-	/** URL to open results in a web editor. */
+	/** URL to open results in a web editor. {data} is replaced with the URL-encoded JSON results. */
 	webEditorUrl?: string;
-	/** File extension for output files. */
+	/** File extension for output files. Results are written next to the document, e.g. ".test.json". */
 	fileExt?: string;
 }
+
+interface QueryOptions {
+	/** Maximum number of records a query may return. */
+	truncationmaxrecords?: number;
+	/** Disable the truncation of query results. */
+	notruncation?: boolean;
+	/** Server timeout as timespan, e.g. "00:10:00" (at most 1 hour). */
+	servertimeout?: string;
+	/** Column that the datetime scope applies to. */
+	query_datetimescope_column?: string;
+	/** Start of the datetime scope, e.g. "2024-01-01T00:00:00Z". */
+	query_datetimescope_from?: string;
+	/** End of the datetime scope. */
+	query_datetimescope_to?: string;
+	/** Reuse cached results not older than this timespan, e.g. "00:05:00". */
+	query_results_cache_max_age?: string;
+	/** Values for parameters declared with \`declare query_parameters\`. */
+	parameters?: { [name: string]: string | number | boolean };
+	/** Other client request properties. */
+	[option: string]: string | number | boolean | { [name: string]: string | number | boolean } | undefined;
+}
 `;
 
 /**
@@ -40,7 +79,7 @@ interface OutputConfig {
  * - azureCli: Uses 'az login' credentials (recommended for local dev)
  * - vscode: Uses VS Code's built-in authentication
  * - defaultAzure: Tries multiple methods (env, managed identity, CLI, etc.)
- * - connectionString: Raw connection string
+ * - connectionString: Kusto connection string (Data Source, Initial Catalog, Fed, AppClientId/AppKey, Authority Id, User Token)
  */
 export type ConnectionConfig =
     | { type: 'azureCli'; cluster: string }
@@ -54,11 +93,43 @@ export interface OutputConfig {
     fileExt?: string;
 }
 
+/** A scalar value of a client request property or query parameter. */
+export type QueryOptionValue = string | number | boolean;
+
+/** Client request properties (`:setOptions`). */
+export interface QueryOptions {
+    truncationmaxrecords?: number;
+    notruncation?: boolean;
+    servertimeout?: string;
+    query_datetimescope_column?: string;
+    query_datetimescope_from?: string;
+    query_datetimescope_to?: string;
+    query_results_cache_max_age?: string;
+    /** Values for `declare query_parameters` */
+    parameters?: Record<string, QueryOptionValue>;
+    [option: string]: QueryOptionValue | Record<string, QueryOptionValue> | undefined;
+}
+
 /** All resolved instruction types (excluding include which is handled specially). */
 export type ResolvedInstruction =
     | { type: 'setConnection'; value: ConnectionConfig }
     | { type: 'setDefaultDb'; value: string }
-    | { type: 'setOutput'; value: OutputConfig };
+    | { type: 'setOutput'; value: OutputConfig }
+    | { type: 'setOptions'; value: QueryOptions }
+    | { type: 'allowDestructiveCommands'; value: boolean }
+    | { type: 'setSchema'; value: SchemaFileReference };
+
+/** A schema file set via `:setSchema`, with the document its path is relative to. */
+export interface SchemaFileReference {
+    path: string;
+    documentUri: string;
+}
+
+/** Schema instruction as parsed (the document URI is added during resolution). */
+export interface SchemaInstruction {
+    type: 'setSchema';
+    path: string;
+}
 
 /** Include instruction (handled separately during resolution). */
 export interface IncludeInstruction {
@@ -2,11 +2,15 @@ import { OffsetRange } from '../common/offsetRange';
 
 /**
  * Immutable fragment of Kusto code. Fragments are separated by empty lines.
+ * The range is relative to the chapter containing the fragment (or to the document for top-level fragments),
+ * so fragments keep their identity when an edit before their chapter moves them.
+ * Use `AkustoDocument.getFragmentRange` to get the range within the document.
  */
 export class KustoFragment {
     constructor(
         public readonly text: string,
-        public readonly range: OffsetRange,
+        /** Range relative to the start of the containing chapter, or of the document for top-level fragments. */
+        public readonly relativeRange: OffsetRange,
         /** e.g. "$events" from "let $events = ..." */
         public readonly exportedName: string | null,
         public readonly referencedNames: readonly string[]
@@ -16,9 +20,14 @@ export class KustoFragment {
         return this.exportedName !== null;
     }
 
+    /** Create this fragment at another relative range, keeping the parsed names. */
+    withRelativeRange(relativeRange: OffsetRange): KustoFragment {
+        return new KustoFragment(this.text, relativeRange, this.exportedName, this.referencedNames);
+    }
+
     toString(): string {
         const exported = this.exportedName ? ` exports=${this.exportedName}` : '';
         const refs = this.referencedNames.length > 0 ? ` refs=[${this.referencedNames.join(', ')}]` : '';
-        return `KustoFragment(${this.range}${exported}${refs})`;
+        return `KustoFragment(${this.relativeRange}${exported}${refs})`;
     }
 }
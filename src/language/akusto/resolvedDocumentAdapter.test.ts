@@ -77,6 +77,19 @@ describe('ResolvedDocumentAdapter', () => {
             expect(diagnostics).toHaveLength(0);
         });
 
+        test('returns empty for call to parameterized definition', () => {
+            const doc = AkustoDocument.parse('file://test.kql', `let $byLevel(level: string, n: long = 10) = Events
+| where Level == level // filter by level
+| take n
+
+$byLevel("error") | project Message`);
+            const project = AkustoProject.fromDocuments([doc]);
+            const resolved = project.resolve(doc, doc.fragments[1]);
+            const adapter = new ResolvedDocumentAdapter(resolved, createKustoLanguageService(schema));
+
+            expect(adapter.getDiagnostics()).toHaveLength(0);
+        });
+
         test('maps diagnostic location back to source', () => {
             const adapter = createAdapter('BadTable');
             const diagnostics = adapter.getDiagnostics();
@@ -120,6 +133,28 @@ describe('ResolvedDocumentAdapter', () => {
         });
     });
 
+    describe('getSignatureHelp', () => {
+        test('returns signature for builtin function call', () => {
+            const text = 'Events | extend x = substring(Message, ';
+            const adapter = createAdapter(text);
+            const help = adapter.getSignatureHelp(new DocumentOffset('file://test.kql', text.length));
+
+            expect(help?.signatures.map(s => s.label)).toMatchInlineSnapshot(`
+              [
+                "substring(string: scalar, start: int | long, [length: int | long]): string",
+              ]
+            `);
+            expect(help?.activeParameter).toBe(1);
+        });
+
+        test('returns null for invalid offset', () => {
+            const adapter = createAdapter('print strcat("a", "b")');
+            const help = adapter.getSignatureHelp(new DocumentOffset('file://other.kql', 0));
+
+            expect(help).toBeNull();
+        });
+    });
+
     describe('multi-file resolution', () => {
         test('completions work with resolved dependencies', () => {
             // Create a project with definition in one file, usage in another
@@ -229,7 +264,7 @@ describe('ResolvedDocumentAdapter', () => {
                 documentLength: text.length,
                 fragmentText: fragment.text,
                 fragmentTextLength: fragment.text.length,
-                fragmentRange: fragment.range.toJSON(),
+                fragmentRange: doc.getFragmentRange(fragment).toJSON(),
                 cursorOffset,
                 cursorInFragment: doc.getFragmentAt(cursorOffset) === fragment,
                 resolvedText: resolved.virtualText,
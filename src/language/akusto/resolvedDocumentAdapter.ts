@@ -4,7 +4,8 @@ import {
     KustoLanguageService,
     CompletionItem, SemanticToken,
     Hover,
-    RelatedElement
+    RelatedElement,
+    SignatureHelp
 } from '../kusto';
 
 /** Diagnostic with document-space range. */
@@ -143,6 +144,18 @@ export class ResolvedDocumentAdapter {
         return hover;
     }
 
+    /**
+     * Get signature help at a document offset.
+     * Signatures only contain labels, so no mapping back to document coordinates is needed.
+     */
+    getSignatureHelp(docOffset: DocumentOffset): SignatureHelp | null {
+        const textOffset = this.resolved.sourceMap.fromDocumentOffset(docOffset, true);
+        if (textOffset === undefined) {
+            return null;
+        }
+        return this.service.getSignatureHelp(this.resolved.virtualText, textOffset);
+    }
+
     /**
      * Extract documentation from comments at the declaration site of a symbol.
      * Uses getRelatedElements to find the declaration, then extracts comments.
@@ -13,4 +13,7 @@ export {
     type RelatedInfo,
     type RelatedElement,
     type RelatedElementKind,
+    type SignatureHelp,
+    type SignatureInformation,
+    type ParameterInformation,
 } from './kustoLanguageService';
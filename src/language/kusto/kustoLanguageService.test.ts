@@ -207,6 +207,59 @@ describe('KustoLanguageService', () => {
             expect(diagnostics.length).toBeGreaterThan(0);
             expect(diagnostics[0].range.start).toBeGreaterThanOrEqual(0);
         });
+
+        test('knows stored functions, materialized views, external tables and entity groups', () => {
+            const schema: KustoSchema = {
+                cluster: 'https://test.kusto.windows.net',
+                database: 'TestDB',
+                tables: [{ name: 'Events', columns: [{ name: 'Timestamp', type: 'datetime' }] }],
+                materializedViews: [{ name: 'DailyEvents', columns: [{ name: 'Day', type: 'datetime' }, { name: 'Count', type: 'long' }], query: 'Events | summarize count() by bin(Timestamp, 1d)' }],
+                externalTables: [{ name: 'ArchivedEvents', columns: [{ name: 'Timestamp', type: 'datetime' }] }],
+                functions: [{
+                    name: 'EventsSince',
+                    parameters: [{ name: 'start', type: 'datetime' }, { name: 'limit', type: 'long', defaultValue: '10' }],
+                    body: '{ Events | where Timestamp > start | take limit }',
+                    docstring: 'Events after a point in time',
+                }],
+                entityGroups: [{ name: 'AllEvents', entities: ["cluster('https://test.kusto.windows.net').database('TestDB')"] }],
+            };
+            const service = createKustoLanguageService(schema);
+
+            expect(service.getDiagnostics('EventsSince(ago(1d)) | project Timestamp')).toHaveLength(0);
+            expect(service.getDiagnostics('DailyEvents | where Count > 10 | project Day')).toHaveLength(0);
+            expect(service.getDiagnostics("external_table('ArchivedEvents') | project Timestamp")).toHaveLength(0);
+            expect(service.getDiagnostics('macro-expand AllEvents as X ( X.Events | count )')).toHaveLength(0);
+            expect(service.getDiagnostics('EventsSince(ago(1d)) | project Unknown')).not.toHaveLength(0);
+        });
+
+        test('resolves referenced clusters and databases', () => {
+            const schema: KustoSchema = {
+                cluster: 'https://test.kusto.windows.net',
+                database: 'TestDB',
+                tables: [{ name: 'Events', columns: [{ name: 'UserId', type: 'long' }] }],
+            };
+            const shared: KustoSchema = {
+                cluster: 'https://other.kusto.windows.net/',
+                database: 'Shared',
+                tables: [{ name: 'Users', columns: [{ name: 'Id', type: 'long' }, { name: 'Name', type: 'string' }] }],
+            };
+            const archive: KustoSchema = {
+                cluster: 'https://test.kusto.windows.net',
+                database: 'Archive',
+                tables: [{ name: 'OldEvents', columns: [{ name: 'UserId', type: 'long' }] }],
+            };
+            const query = 'Events | join (cluster("other").database("Shared").Users) on $left.UserId == $right.Id | union database("Archive").OldEvents';
+
+            expect(createKustoLanguageService(schema).getDiagnostics(query)).not.toHaveLength(0);
+
+            const service = createKustoLanguageService(schema, [shared, archive]);
+            expect(service.getDiagnostics(query)).toHaveLength(0);
+            expect(service.getDiagnostics('Events | project UserId')).toHaveLength(0);
+
+            const text = 'cluster("other").database("Shared").Users | project ';
+            const completions = service.getCompletions(text, text.length);
+            expect(completions.some(c => c.label === 'Name')).toBe(true);
+        });
     });
 
     describe('getSemanticTokens', () => {
@@ -288,6 +341,104 @@ print x`;
         });
     });
 
+    describe('getDatabaseReferences', () => {
+        test('returns referenced databases with full cluster host names', () => {
+            const service = createKustoLanguageService({ cluster: 'https://test.kusto.windows.net', database: 'TestDB', tables: [] });
+            expect(service.getDatabaseReferences('cluster("other").database("Shared").Users | union database("Archive").OldEvents')).toMatchInlineSnapshot(`
+              [
+                {
+                  "cluster": "other.kusto.windows.net",
+                  "database": "Shared",
+                },
+                {
+                  "cluster": "test.kusto.windows.net",
+                  "database": "Archive",
+                },
+              ]
+            `);
+        });
+    });
+
+    describe('getSignatureHelp', () => {
+        test('returns signature of the enclosing builtin function', () => {
+            const service = createKustoLanguageService();
+            const text = 'print substring("abc", ';
+            const result = service.getSignatureHelp(text, text.length);
+
+            expect(result).toMatchInlineSnapshot(`
+              {
+                "activeParameter": 1,
+                "activeSignature": 0,
+                "signatures": [
+                  {
+                    "documentation": undefined,
+                    "label": "substring(string: scalar, start: int | long, [length: int | long]): string",
+                    "parameters": [
+                      {
+                        "documentation": undefined,
+                        "label": "string: scalar",
+                      },
+                      {
+                        "documentation": undefined,
+                        "label": "start: int | long",
+                      },
+                      {
+                        "documentation": undefined,
+                        "label": "[length: int | long]",
+                      },
+                    ],
+                  },
+                ],
+              }
+            `);
+        });
+
+        test('uses the innermost call', () => {
+            const service = createKustoLanguageService();
+            const text = 'print strcat("a", tolower(';
+            const result = service.getSignatureHelp(text, text.length);
+
+            expect(result?.signatures[0].label).toMatchInlineSnapshot(`"tolower(value: scalar): string"`);
+            expect(result?.activeParameter).toBe(0);
+        });
+
+        test('returns signature of a local function', () => {
+            const service = createKustoLanguageService();
+            const text = `let f = (a: string, b: long = 1) { a };
+print f("x", 2)`;
+            const result = service.getSignatureHelp(text, text.indexOf('2)'));
+
+            expect(result).toMatchInlineSnapshot(`
+              {
+                "activeParameter": 1,
+                "activeSignature": 0,
+                "signatures": [
+                  {
+                    "documentation": undefined,
+                    "label": "f(a: string, [b: long])",
+                    "parameters": [
+                      {
+                        "documentation": undefined,
+                        "label": "a: string",
+                      },
+                      {
+                        "documentation": undefined,
+                        "label": "[b: long]",
+                      },
+                    ],
+                  },
+                ],
+              }
+            `);
+        });
+
+        test('returns null outside of a call', () => {
+            const service = createKustoLanguageService();
+            const text = 'print strcat("a") ';
+            expect(service.getSignatureHelp(text, text.length)).toBeNull();
+        });
+    });
+
     describe('Kusto API exploration', () => {
         test('GetRelatedElements on extend column reference', () => {
             // What does Kusto return when we're on a column created by extend?
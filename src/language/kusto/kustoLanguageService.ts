@@ -59,6 +59,28 @@ export interface Hover {
     readonly range?: OffsetRange;
 }
 
+/** A parameter of a function signature. */
+export interface ParameterInformation {
+    /** The parameter as it appears in the signature label (e.g., `start: long`). */
+    readonly label: string;
+    readonly documentation?: string;
+}
+
+/** A single signature of a function. */
+export interface SignatureInformation {
+    /** The full signature (e.g., `substring(source: string, start: long, [length: long])`). */
+    readonly label: string;
+    readonly documentation?: string;
+    readonly parameters: readonly ParameterInformation[];
+}
+
+/** Signature help for the function call at a position. */
+export interface SignatureHelp {
+    readonly signatures: readonly SignatureInformation[];
+    readonly activeSignature: number;
+    readonly activeParameter: number;
+}
+
 /** Kind of related element. */
 export type RelatedElementKind = 'syntax' | 'reference' | 'declaration' | 'other';
 
@@ -75,17 +97,59 @@ export interface RelatedInfo {
     readonly currentIndex: number;
 }
 
+/** A `database()` reference, optionally qualified with `cluster()`. */
+export interface DatabaseReference {
+    /** Full host name, e.g. `help.kusto.windows.net` */
+    readonly cluster: string;
+    readonly database: string;
+}
+
 /** Kusto schema for a database. */
 export interface KustoSchema {
     readonly cluster: string;
     readonly database: string;
     readonly tables: readonly TableSchema[];
+    readonly materializedViews?: readonly MaterializedViewSchema[];
+    readonly externalTables?: readonly TableSchema[];
+    readonly functions?: readonly FunctionSchema[];
+    readonly entityGroups?: readonly EntityGroupSchema[];
 }
 
 /** Table schema. */
 export interface TableSchema {
     readonly name: string;
     readonly columns: readonly ColumnSchema[];
+    readonly docstring?: string;
+}
+
+/** Materialized view schema. */
+export interface MaterializedViewSchema extends TableSchema {
+    /** The query the view materializes */
+    readonly query?: string;
+}
+
+/** Entity group schema. */
+export interface EntityGroupSchema {
+    readonly name: string;
+    /** Entity references, e.g. `cluster('c1').database('db1')` */
+    readonly entities: readonly string[];
+}
+
+/** Stored function schema. */
+export interface FunctionSchema {
+    readonly name: string;
+    readonly parameters: readonly FunctionParameterSchema[];
+    /** Function body including braces, e.g. `{ StormEvents | take 10 }` */
+    readonly body: string;
+    readonly docstring?: string;
+}
+
+/** Stored function parameter. */
+export interface FunctionParameterSchema {
+    readonly name: string;
+    /** Scalar type, or a tabular schema like `(*)` or `(State:string)` */
+    readonly type: string;
+    readonly defaultValue?: string;
 }
 
 /** Column schema. */
@@ -111,16 +175,40 @@ export interface KustoLanguageService {
 
     /** Get related elements (declarations, references) at the given offset. */
     getRelatedElements(text: string, offset: number): RelatedInfo | null;
+
+    /** Get signature help for the innermost function call enclosing the given offset. */
+    getSignatureHelp(text: string, offset: number): SignatureHelp | null;
+
+    /** Get the databases referenced via `cluster()` / `database()` in the text. */
+    getDatabaseReferences(text: string): DatabaseReference[];
 }
 
-/** Create a Kusto language service, optionally with schema. */
-export function createKustoLanguageService(schema?: KustoSchema): KustoLanguageService {
-    const globalState = schema ? createGlobalState(schema) : Kusto.Language.GlobalState.Default!;
+/**
+ * Get the full host name of a cluster URL or short name,
+ * e.g. `help` and `https://help.kusto.windows.net/` both become `help.kusto.windows.net`.
+ * Returns the input if it has no host (e.g. the URI of a schema file).
+ */
+export function getClusterHostName(clusterUrlOrName: string): string {
+    const host = Kusto.Language.KustoFacts.GetHostName(clusterUrlOrName);
+    if (!host) {
+        return clusterUrlOrName;
+    }
+    return Kusto.Language.KustoFacts.GetFullHostName(host, Kusto.Language.KustoFacts.KustoWindowsNet) ?? host;
+}
+
+/**
+ * Create a Kusto language service, optionally with schema.
+ * Schemas of databases referenced via `cluster()` / `database()` can be added, so that
+ * cross-cluster and cross-database queries resolve.
+ */
+export function createKustoLanguageService(schema?: KustoSchema, referencedSchemas: readonly KustoSchema[] = []): KustoLanguageService {
+    const globalState = schema ? createGlobalState(schema, referencedSchemas) : Kusto.Language.GlobalState.Default!;
 
     // Build column docstring lookup map from schema
     const columnDocstrings = new Map<string, string>();
-    if (schema) {
-        for (const table of schema.tables) {
+    const allSchemas = schema ? [schema, ...referencedSchemas] : [];
+    for (const dbSchema of allSchemas) {
+        for (const table of [...dbSchema.tables, ...dbSchema.materializedViews ?? [], ...dbSchema.externalTables ?? []]) {
             for (const col of table.columns) {
                 if (col.docstring) {
                     // Store with just column name (columns are unique within context)
@@ -133,35 +221,75 @@ export function createKustoLanguageService(schema?: KustoSchema): KustoLanguageS
     return new KustoLanguageServiceImpl(globalState, columnDocstrings);
 }
 
-/** Create GlobalState from our schema definition. */
-function createGlobalState(schema: KustoSchema): Kusto.Language.GlobalState {
-    const ScalarSymbol = Kusto.Language.Symbols.ScalarSymbol;
-    const ColumnSymbol = Kusto.Language.Symbols.ColumnSymbol;
-    const TableSymbol = Kusto.Language.Symbols.TableSymbol;
-    const DatabaseSymbol = Kusto.Language.Symbols.DatabaseSymbol;
-    const ClusterSymbol = Kusto.Language.Symbols.ClusterSymbol;
+/** Create GlobalState from our schema definition, with the given schema as the default database. */
+function createGlobalState(schema: KustoSchema, referencedSchemas: readonly KustoSchema[]): Kusto.Language.GlobalState {
+    const database = createDatabaseSymbol(schema);
+
+    // Group databases by cluster; cluster symbols are named by host so that `cluster("name")` resolves
+    const clusters = new Map<string, { name: string; databases: Kusto.Language.Symbols.DatabaseSymbol[] }>();
+    const addDatabase = (cluster: string, db: Kusto.Language.Symbols.DatabaseSymbol) => {
+        const name = getClusterHostName(cluster);
+        const entry = clusters.get(name.toLowerCase()) ?? { name, databases: [] };
+        if (!entry.databases.some(d => d.Name?.toLowerCase() === db.Name?.toLowerCase())) {
+            entry.databases.push(db);
+        }
+        clusters.set(name.toLowerCase(), entry);
+    };
+    addDatabase(schema.cluster, database);
+    for (const referenced of referencedSchemas) {
+        addDatabase(referenced.cluster, createDatabaseSymbol(referenced));
+    }
 
-    const tables: Kusto.Language.Symbols.TableSymbol[] = [];
+    let globals = Kusto.Language.GlobalState.Default!;
+    for (const { name, databases } of clusters.values()) {
+        const cluster = new Kusto.Language.Symbols.ClusterSymbol.ctor(name, databases);
+        globals = globals.WithCluster(cluster)!;
+    }
+    globals = globals.WithDatabase(database)!;
+
+    return globals;
+}
+
+function createDatabaseSymbol(schema: KustoSchema): Kusto.Language.Symbols.DatabaseSymbol {
+    const Symbols = Kusto.Language.Symbols;
+
+    const members: Kusto.Language.Symbols.Symbol[] = [];
 
     for (const tableSchema of schema.tables) {
-        const columns: Kusto.Language.Symbols.ColumnSymbol[] = [];
+        members.push(new Symbols.TableSymbol.$ctor6(tableSchema.name, asEnumerable(createColumnSymbols(tableSchema.columns)), tableSchema.docstring ?? null));
+    }
 
-        for (const col of tableSchema.columns) {
-            const scalarType = ScalarSymbol.From(col.type);
-            columns.push(new ColumnSymbol(col.name, scalarType, col.docstring ?? null, null, null, null));
-        }
+    for (const view of schema.materializedViews ?? []) {
+        members.push(new Symbols.MaterializedViewSymbol.$ctor2(view.name, asEnumerable(createColumnSymbols(view.columns)), view.query ?? null, view.docstring ?? null));
+    }
+
+    for (const table of schema.externalTables ?? []) {
+        members.push(new Symbols.ExternalTableSymbol.$ctor3(table.name, asEnumerable(createColumnSymbols(table.columns)), table.docstring ?? null));
+    }
 
-        tables.push(new TableSymbol.$ctor4(tableSchema.name, columns));
+    for (const fn of schema.functions ?? []) {
+        const parameterList = fn.parameters
+            .map(p => p.defaultValue !== undefined ? `${p.name}:${p.type} = ${p.defaultValue}` : `${p.name}:${p.type}`)
+            .join(', ');
+        members.push(new Symbols.FunctionSymbol.$ctor16(fn.name, `(${parameterList})`, fn.body, fn.docstring ?? null));
     }
 
-    const database = new DatabaseSymbol.ctor(schema.database, tables);
-    const cluster = new ClusterSymbol.ctor(schema.cluster, [database]);
+    for (const group of schema.entityGroups ?? []) {
+        members.push(new Symbols.EntityGroupSymbol.$ctor3(group.name, `[${group.entities.join(', ')}]`, null));
+    }
 
-    let globals = Kusto.Language.GlobalState.Default!;
-    globals = globals.WithCluster(cluster)!;
-    globals = globals.WithDatabase(database)!;
+    return new Symbols.DatabaseSymbol.ctor(schema.database, members);
+}
 
-    return globals;
+/** Bridge.NET arrays implement IEnumerable at runtime, but their typings don't say so. */
+function asEnumerable<T>(items: T[]): System.Collections.Generic.IEnumerable$1<T> {
+    return items as unknown as System.Collections.Generic.IEnumerable$1<T>;
+}
+
+function createColumnSymbols(columns: readonly ColumnSchema[]): Kusto.Language.Symbols.ColumnSymbol[] {
+    return columns.map(col =>
+        new Kusto.Language.Symbols.ColumnSymbol(col.name, Kusto.Language.Symbols.ScalarSymbol.From(col.type), col.docstring ?? null, null, null, null)
+    );
 }
 
 /** Implementation of KustoLanguageService. */
@@ -293,6 +421,124 @@ class KustoLanguageServiceImpl implements KustoLanguageService {
             currentIndex: relatedInfo.CurrentIndex,
         };
     }
+
+    getDatabaseReferences(text: string): DatabaseReference[] {
+        const codeService = new Kusto.Language.Editor.KustoCodeService.$ctor1(text, this.globalState);
+        const references = codeService.GetDatabaseReferences();
+        if (!references) {
+            return [];
+        }
+
+        const result: DatabaseReference[] = [];
+        for (let i = 0; i < references.Count; i++) {
+            const ref = references.getItem(i);
+            if (ref?.Cluster && ref.Database) {
+                // Unknown clusters are reported as written, e.g. `other` for `cluster("other")`
+                result.push({ cluster: getClusterHostName(ref.Cluster), database: ref.Database });
+            }
+        }
+        return result;
+    }
+
+    getSignatureHelp(text: string, offset: number): SignatureHelp | null {
+        const code = Kusto.Language.KustoCode.ParseAndAnalyze(text, this.globalState);
+        const call = findEnclosingFunctionCall(code!, offset);
+        const symbol = call?.ReferencedSymbol;
+        if (!call || !(symbol instanceof Kusto.Language.Symbols.FunctionSymbol)) {
+            return null;
+        }
+
+        // The active parameter is the number of separators before the cursor
+        const args = call.ArgumentList!.Expressions!;
+        let activeParameter = 0;
+        for (let i = 0; i < args.Count; i++) {
+            const separator = (args.getItem(i) as Kusto.Language.Syntax.SeparatedElement).Separator;
+            if (separator && !separator.IsMissing && separator.TextStart < offset) {
+                activeParameter++;
+            }
+        }
+
+        const signatures: SignatureInformation[] = [];
+        let activeSignature = -1;
+        for (let i = 0; i < symbol.Signatures!.Count; i++) {
+            const signature = symbol.Signatures!.getItem(i);
+            signatures.push(formatSignature(symbol.Name!, signature, symbol.Description));
+            if (signature === call.ReferencedSignature) {
+                activeSignature = i;
+            }
+        }
+        if (signatures.length === 0) {
+            return null;
+        }
+        if (activeSignature === -1) {
+            // Prefer the first signature that accepts enough arguments
+            activeSignature = Math.max(0, signatures.findIndex((_, i) => symbol.Signatures!.getItem(i).MaxArgumentCount > activeParameter));
+        }
+
+        return { signatures, activeSignature, activeParameter };
+    }
+}
+
+/** Find the innermost function call whose argument list contains the offset. */
+function findEnclosingFunctionCall(code: Kusto.Language.KustoCode, offset: number): Kusto.Language.Syntax.FunctionCallExpression | null {
+    const calls = code.Syntax!.GetDescendants(Kusto.Language.Syntax.FunctionCallExpression)!;
+    let result: Kusto.Language.Syntax.FunctionCallExpression | null = null;
+
+    for (let i = 0; i < calls.Count; i++) {
+        const call = calls.getItem(i);
+        const argumentList = call.ArgumentList!;
+        const closeParen = argumentList.CloseParen!;
+        const isInside = argumentList.OpenParen!.End <= offset
+            && (closeParen.IsMissing || offset <= closeParen.TextStart);
+        if (isInside && (!result || argumentList.OpenParen!.TextStart > result.ArgumentList!.OpenParen!.TextStart)) {
+            result = call;
+        }
+    }
+
+    return result;
+}
+
+/** Format a Kusto signature like `name(a: string, [b: long])`. */
+function formatSignature(name: string, signature: Kusto.Language.Symbols.Signature, description: string | null): SignatureInformation {
+    const parameters: ParameterInformation[] = [];
+    for (let i = 0; i < signature.Parameters!.Count; i++) {
+        const parameter = signature.Parameters!.getItem(i);
+        let label = `${parameter.Name}: ${getParameterTypeDisplay(parameter)}`;
+        if (parameter.IsRepeatable) {
+            label += ', ...';
+        }
+        if (parameter.IsOptional) {
+            label = `[${label}]`;
+        }
+        parameters.push({ label, documentation: parameter.Description || undefined });
+    }
+
+    const returnType = signature.DeclaredReturnType?.Name;
+    const label = `${name}(${parameters.map(p => p.label).join(', ')})` + (returnType ? `: ${returnType}` : '');
+    return { label, documentation: description || undefined, parameters };
+}
+
+/** Get a display string for a parameter's type (e.g., `string`, `long | real`, `scalar`). */
+function getParameterTypeDisplay(parameter: Kusto.Language.Symbols.Parameter): string {
+    const K = Kusto.Language.Symbols.ParameterTypeKind;
+    if (parameter.TypeKind === K.Declared && parameter.DeclaredTypes) {
+        const names: string[] = [];
+        for (let i = 0; i < parameter.DeclaredTypes.Count; i++) {
+            names.push(parameter.DeclaredTypes.getItem(i).Name!);
+        }
+        return names.join(' | ');
+    }
+    switch (parameter.TypeKind) {
+        case K.Scalar: return 'scalar';
+        case K.Tabular: return 'table';
+        case K.Database: return 'database';
+        case K.Cluster: return 'cluster';
+        case K.Integer: return 'int | long';
+        case K.RealOrDecimal: return 'real | decimal';
+        case K.StringOrDynamic: return 'string | dynamic';
+        case K.Number: return 'number';
+        default: return 'any';
+    }
 }
 
 /** Map Kusto CompletionKind to our kind. */
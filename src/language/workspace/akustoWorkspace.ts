@@ -155,7 +155,7 @@ export class AkustoWorkspace {
         }
 
         // Find the fragment containing this offset
-        const fragment = doc.fragments.find(f => f.range.contains(offset));
+        const fragment = doc.fragments.find(f => doc.getFragmentRange(f).contains(offset));
         if (!fragment) {
             return null;
         }
@@ -169,7 +169,7 @@ export class AkustoWorkspace {
     findFragmentAtOffset(uri: string, offset: number): KustoFragment | undefined {
         const normalizedUri = this._normalizeUri(uri);
         const doc = this._project.documents.get(normalizedUri);
-        return doc?.fragments.find(f => f.range.contains(offset));
+        return doc?.fragments.find(f => doc.getFragmentRange(f).contains(offset));
     }
 
     /**
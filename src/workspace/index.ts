@@ -2,6 +2,11 @@ export { VsCodeWatchableFileSystem } from './vscodeFileSystem';
 export { QueryRunner } from './queryRunner';
 export { RunQueryTool } from './runQueryTool';
 export { QueryHistoryModel, getQueryService, QueryService } from './queryHistoryModel';
+export { QueryHistoryPersistence } from './queryHistoryPersistence';
+export { FileResultRowStorage, ResultRowSpilling } from './resultRowStorage';
+export { SchemaCachePersistence } from './schemaCachePersistence';
+export { SchemaCommands } from './schemaCommands';
+export { SchemaExplorerProvider } from './schemaExplorerProvider';
 
 // Language feature providers
 export {
@@ -11,9 +16,15 @@ export {
     DefinitionCompletionProvider,
     DefinitionProvider,
     DiagnosticsProvider,
+    DocumentSymbolProvider,
     EnumCompletionProvider,
     HoverProvider,
+    ReferenceProvider,
+    RenameProvider,
+    ResultPreviewProvider,
     SemanticTokensProvider,
     SEMANTIC_TOKENS_LEGEND,
+    SignatureHelpProvider,
+    WorkspaceSymbolProvider,
     ResultsViewProvider,
 } from './providers';
@@ -1,6 +1,6 @@
-import { KustoLanguageService } from '../language/kusto/kustoLanguageService';
-import { getLanguageServiceCache, getKustoClient, AuthType } from '../connection';
-import { ConnectionConfig, ResolvedInstruction } from '../language/akusto/instructionTypes';
+import { KustoLanguageService, getClusterHostName } from '../language/kusto/kustoLanguageService';
+import { getLanguageServiceCache, getKustoClient, getSchemaFileCache, AuthType, parseConnectionString } from '../connection';
+import { ConnectionConfig, OutputConfig, QueryOptions, ResolvedInstruction, SchemaFileReference } from '../language/akusto/instructionTypes';
 
 /**
  * Get the appropriate language service for a set of resolved instructions.
@@ -9,12 +9,23 @@ import { ConnectionConfig, ResolvedInstruction } from '../language/akusto/instru
  * 
  * Schema fetching happens in the background - the first request will use
  * the default service, subsequent requests will use the cached schema.
+ * A schema file set via `:setSchema` takes precedence over the cluster schema.
+ *
+ * If the resolved query text is given, databases it references via `cluster()` / `database()`
+ * are fetched the same way and added to the service.
  */
 export function getLanguageServiceForInstructions(
-    instructions: readonly ResolvedInstruction[]
+    instructions: readonly ResolvedInstruction[],
+    text?: string
 ): KustoLanguageService {
     const cache = getLanguageServiceCache();
 
+    const schemaFile = extractSchemaFile(instructions);
+    const schemaFileCache = getSchemaFileCache();
+    if (schemaFile && schemaFileCache) {
+        return schemaFileCache.get(schemaFileCache.resolve(schemaFile.documentUri, schemaFile.path)) ?? cache.getDefault();
+    }
+
     // Extract connection info from instructions
     const { cluster, database, authType } = extractConnection(instructions);
 
@@ -23,9 +34,21 @@ export function getLanguageServiceForInstructions(
         return cache.getDefault();
     }
 
-    // Return cached service if available
+    // Return cached service if available (revalidating schemas loaded from storage)
     if (cache.has(cluster, database)) {
-        return cache.get(cluster, database);
+        if (cache.isStale(cluster, database)) {
+            fetchSchemaInBackground(cluster, database, authType);
+        }
+        const service = cache.get(cluster, database);
+        if (text === undefined) {
+            return service;
+        }
+
+        const references = getReferencedDatabases(service, text, cluster, database);
+        for (const ref of references) {
+            fetchSchemaInBackground(ref.cluster, ref.database, authType);
+        }
+        return cache.getWithReferences(cluster, database, references);
     }
 
     // Trigger background fetch, return default for now
@@ -34,32 +57,72 @@ export function getLanguageServiceForInstructions(
     return cache.getDefault();
 }
 
+/**
+ * Get the databases other than the current one that the text references via `cluster()` / `database()`.
+ * Clusters are returned as URLs; references to the current cluster keep its URL (and thus its cache entries).
+ */
+function getReferencedDatabases(
+    service: KustoLanguageService,
+    text: string,
+    cluster: string,
+    database: string
+): { cluster: string; database: string }[] {
+    // Avoid analyzing the text again for the common case
+    if (!/\b(cluster|database)\s*\(/.test(text)) {
+        return [];
+    }
+
+    const host = getClusterHostName(cluster).toLowerCase();
+    const result: { cluster: string; database: string }[] = [];
+    for (const ref of service.getDatabaseReferences(text)) {
+        const isCurrentCluster = ref.cluster.toLowerCase() === host;
+        if (isCurrentCluster && ref.database.toLowerCase() === database.toLowerCase()) {
+            continue;
+        }
+        result.push({ cluster: isCurrentCluster ? cluster : `https://${ref.cluster}`, database: ref.database });
+    }
+    return result;
+}
+
 /**
  * Fetch schema in background and cache the resulting language service.
+ * Stale schemas (loaded from storage) are refetched.
  * Safe to call multiple times - will be deduplicated by the cache.
  */
 export function fetchSchemaInBackground(cluster: string, database: string, authType: AuthType = 'azureCli'): void {
     const cache = getLanguageServiceCache();
-    const client = getKustoClient();
 
-    // Check if already cached or pending
-    if (cache.has(cluster, database)) {
+    // Check if already cached or pending, or if it failed just now
+    if (cache.has(cluster, database) && !cache.isStale(cluster, database)) {
+        return;
+    }
+    if (cache.hasRecentlyFailed(cluster, database)) {
         return;
     }
 
+    refreshSchema(cluster, database, authType).catch(err => {
+        console.error(`[LanguageService] Failed to fetch schema for ${cluster}/${database}:`, err);
+    });
+}
+
+/**
+ * Refetch the schema of a cluster+database, replacing the cached one when done.
+ */
+export function refreshSchema(cluster: string, database: string, authType: AuthType = 'azureCli'): Promise<KustoLanguageService> {
+    const client = getKustoClient();
     const startTime = performance.now();
 
-    cache.getOrCreate(cluster, database, async () => {
+    return getLanguageServiceCache().refresh(cluster, database, async () => {
         const schema = await client.getSchema(cluster, database, authType);
         console.log(`[LanguageService] Schema fetched for ${cluster}/${database} in ${(performance.now() - startTime).toFixed(0)}ms`);
         return schema;
-    }).catch(err => {
-        console.error(`[LanguageService] Failed to fetch schema for ${cluster}/${database}:`, err);
-    });
+    }, authType);
 }
 
 /**
  * Extract connection info from resolved instructions.
+ * For connection strings, `Data Source` is the cluster and `Initial Catalog`
+ * is the database unless `:setDefaultDb` overrides it.
  */
 export function extractConnection(
     instructions: readonly ResolvedInstruction[]
@@ -81,8 +144,10 @@ export function extractConnection(
 
     if (connection) {
         if (connection.type === 'connectionString') {
-            // TODO: Parse cluster from connection string
-            cluster = undefined;
+            const parsed = parseConnectionString(connection.connectionString);
+            cluster = parsed.dataSource;
+            database ??= parsed.initialCatalog;
+            authType = { type: 'connectionString', connectionString: parsed };
         } else {
             cluster = connection.cluster;
             authType = connection.type;
@@ -91,3 +156,68 @@ export function extractConnection(
 
     return { cluster, database, authType };
 }
+
+/**
+ * Extract the output configuration (`:setOutput`) from resolved instructions.
+ */
+export function extractOutputConfig(
+    instructions: readonly ResolvedInstruction[]
+): OutputConfig | undefined {
+    let output: OutputConfig | undefined;
+    for (const instr of instructions) {
+        if (instr.type === 'setOutput') {
+            output = instr.value;
+        }
+    }
+    return output;
+}
+
+/**
+ * Extract the client request properties (`:setOptions`) from resolved instructions.
+ * Unlike other instructions, options are merged: later instructions (e.g. of a chapter)
+ * override single options and parameters of earlier ones.
+ */
+export function extractQueryOptions(
+    instructions: readonly ResolvedInstruction[]
+): QueryOptions | undefined {
+    let options: QueryOptions | undefined;
+    for (const instr of instructions) {
+        if (instr.type === 'setOptions') {
+            const parameters = options?.parameters || instr.value.parameters
+                ? { ...options?.parameters, ...instr.value.parameters }
+                : undefined;
+            options = { ...options, ...instr.value, ...(parameters ? { parameters } : {}) };
+        }
+    }
+    return options;
+}
+
+/**
+ * Whether destructive management commands may run without confirmation (`:allowDestructiveCommands`).
+ */
+export function extractAllowDestructiveCommands(
+    instructions: readonly ResolvedInstruction[]
+): boolean {
+    let allow = false;
+    for (const instr of instructions) {
+        if (instr.type === 'allowDestructiveCommands') {
+            allow = instr.value;
+        }
+    }
+    return allow;
+}
+
+/**
+ * Extract the schema file (`:setSchema`) from resolved instructions.
+ */
+export function extractSchemaFile(
+    instructions: readonly ResolvedInstruction[]
+): SchemaFileReference | undefined {
+    let schemaFile: SchemaFileReference | undefined;
+    for (const instr of instructions) {
+        if (instr.type === 'setSchema') {
+            schemaFile = instr.value;
+        }
+    }
+    return schemaFile;
+}
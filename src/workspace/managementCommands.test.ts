@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { getManagementCommandText, getManagementCommandVerb, isDestructiveCommand } from './managementCommands';
+
+describe('getManagementCommandVerb', () => {
+    test('detects commands after comments', () => {
+        expect([
+            getManagementCommandVerb('.show tables'),
+            getManagementCommandVerb('// Tables\n  .Create-Or-Alter function F() { T }'),
+            getManagementCommandVerb('Events | take 10'),
+            getManagementCommandVerb('Events\n.show tables'),
+        ]).toMatchInlineSnapshot(`
+          [
+            ".show",
+            ".create-or-alter",
+            undefined,
+            undefined,
+          ]
+        `);
+    });
+});
+
+describe('isDestructiveCommand', () => {
+    test('matches destructive verbs and their variants', () => {
+        expect(['.drop', '.drop-pretend', '.alter-merge', '.set-or-replace', '.set-or-append', '.show', '.create-or-alter'].filter(isDestructiveCommand)).toMatchInlineSnapshot(`
+          [
+            ".drop",
+            ".drop-pretend",
+            ".alter-merge",
+            ".set-or-replace",
+          ]
+        `);
+    });
+});
+
+describe('getManagementCommandText', () => {
+    const definitions = 'let errors = Events | where Level == "Error";\n';
+
+    test('keeps commands without definitions', () => {
+        expect(getManagementCommandText('.show tables')).toBe('.show tables');
+    });
+
+    test('moves definitions after <|', () => {
+        expect(getManagementCommandText(`${definitions}.set-or-append Errors <| errors | take 10`)).toMatchInlineSnapshot(`
+          ".set-or-append Errors <|
+          let errors = Events | where Level == "Error";
+           errors | take 10"
+        `);
+    });
+
+    test('moves definitions into function bodies', () => {
+        expect(getManagementCommandText(`${definitions}.create-or-alter function RecentErrors() { errors | take 10 }`)).toMatchInlineSnapshot(`
+          ".create-or-alter function RecentErrors() {
+          let errors = Events | where Level == "Error";
+           errors | take 10 }"
+        `);
+    });
+});
@@ -0,0 +1,44 @@
+/** Verbs of management commands that change or remove data or schema. */
+const destructiveVerbs = ['.drop', '.set-or-replace', '.delete', '.alter', '.purge', '.clear'];
+
+/**
+ * Get the verb of a management (control) command, e.g. `.show` or `.create-or-alter`.
+ * Returns undefined for queries. Leading whitespace and line comments are skipped.
+ */
+export function getManagementCommandVerb(text: string): string | undefined {
+    const match = /^(?:\s|\/\/[^\n]*)*(\.[a-zA-Z][\w-]*)/.exec(text);
+    return match?.[1].toLowerCase();
+}
+
+/**
+ * Whether a command verb is destructive (`.drop`, `.set-or-replace`, `.delete`, `.alter`, `.purge`, `.clear`).
+ * Variants such as `.alter-merge` and `.drop-pretend` count as their base verb.
+ */
+export function isDestructiveCommand(verb: string): boolean {
+    return destructiveVerbs.some(v => verb === v || verb.startsWith(`${v}-`));
+}
+
+/**
+ * Turn the resolved text of a command fragment into the command to send.
+ * Definitions are resolved as `let` statements before the fragment, which commands don't allow;
+ * they are moved into the query after `<|` or into the body `{ ... }` of a function command.
+ * Without either, the command can't use definitions and they are dropped.
+ */
+export function getManagementCommandText(resolvedText: string): string {
+    const commandStart = /^[ \t]*\.[a-zA-Z]/m.exec(resolvedText)?.index ?? 0;
+    const definitions = resolvedText.substring(0, commandStart);
+    const command = resolvedText.substring(commandStart);
+    if (definitions.trim() === '') {
+        return command;
+    }
+
+    const query = command.indexOf('<|');
+    if (query !== -1) {
+        return `${command.substring(0, query + 2)}\n${definitions}${command.substring(query + 2)}`;
+    }
+    const body = /^\s*\.(create|alter|create-or-alter)\s+function\b/i.test(command) ? command.indexOf('{') : -1;
+    if (body !== -1) {
+        return `${command.substring(0, body + 1)}\n${definitions}${command.substring(body + 1)}`;
+    }
+    return command;
+}
@@ -2,16 +2,21 @@ import * as vscode from 'vscode';
 import { MutableProject } from '../../language/workspace/mutableProject';
 import { autorun } from '@vscode/observables';
 import { Disposable } from '../../utils/disposables';
+import { QueryHistoryModel } from '../queryHistoryModel';
+import { findLatestExecution, formatLastRun } from '../resultPreview';
 
 /**
  * Provides CodeLens for running Kusto queries.
- * Shows "Run Query" on each code fragment.
+ * Shows "Run Query" on each code fragment, and a summary of its last run that selects it in the history.
  */
 export class CodeLensProvider extends Disposable implements vscode.CodeLensProvider {
     private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
     public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
 
-    constructor(private readonly model: MutableProject) {
+    constructor(
+        private readonly model: MutableProject,
+        private readonly historyModel: QueryHistoryModel
+    ) {
         super();
 
         this._register(
@@ -24,6 +29,9 @@ export class CodeLensProvider extends Disposable implements vscode.CodeLensProvi
         this._register(
             autorun(reader => {
                 this.model.documents.read(reader);
+                for (const execution of this.historyModel.executions.read(reader)) {
+                    execution.outcome.read(reader);
+                }
                 this._onDidChangeCodeLenses.fire();
             })
         );
@@ -38,18 +46,30 @@ export class CodeLensProvider extends Disposable implements vscode.CodeLensProvi
             return [];
         }
 
+        const executions = this.historyModel.executions.get();
         const lenses: vscode.CodeLens[] = [];
 
         for (const fragment of akustoDoc.fragments) {
-            const startPos = document.positionAt(fragment.range.start);
+            const fragmentRange = akustoDoc.getFragmentRange(fragment);
+            const startPos = document.positionAt(fragmentRange.start);
             const range = new vscode.Range(startPos, startPos);
 
             lenses.push(new vscode.CodeLens(range, {
                 title: fragment.isDefinition ? '▶ Run Definition' : '▶ Run Query',
                 command: 'kusto.runQuery',
-                arguments: [uri, fragment.range.start, fragment.range.endExclusive],
+                arguments: [uri, fragmentRange.start, fragmentRange.endExclusive],
                 tooltip: 'Execute this query (Ctrl+Enter)',
             }));
+
+            const execution = findLatestExecution(executions, uri, fragment.text);
+            if (execution) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: formatLastRun(execution),
+                    command: 'kusto.showHistoryItem',
+                    arguments: [execution.id],
+                    tooltip: 'Show this result',
+                }));
+            }
         }
 
         const totalTime = performance.now() - startTime;
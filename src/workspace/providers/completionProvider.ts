@@ -86,7 +86,7 @@ export class CompletionProvider extends Disposable implements vscode.CompletionI
 
             // Get the appropriate language service (with schema if available)
             const serviceStart = performance.now();
-            const service = getLanguageServiceForInstructions(resolved.instructions);
+            const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
             const serviceTime = performance.now() - serviceStart;
 
             // Cache for resolveCompletionItem
@@ -173,7 +173,8 @@ export class DebugDocumentProvider extends Disposable implements vscode.TextDocu
 
         lines.push('\n---\n');
         lines.push('## Fragment at Cursor\n');
-        lines.push(`**Range:** ${fragment.range.start} - ${fragment.range.endExclusive}\n`);
+        const fragmentRange = doc.getFragmentRange(fragment);
+        lines.push(`**Range:** ${fragmentRange.start} - ${fragmentRange.endExclusive}\n`);
         if (fragment.exportedName) {
             lines.push(`**Exported Name:** \`${fragment.exportedName}\`\n`);
         }
@@ -262,7 +263,7 @@ export class DebugDocumentProvider extends Disposable implements vscode.TextDocu
             lines.push('\n---\n');
             lines.push('## Go to Definition (Related Elements)\n');
             try {
-                const service = getLanguageServiceForInstructions(resolved.instructions);
+                const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
                 const adapter = new ResolvedDocumentAdapter(resolved, service);
                 const relatedInfo = adapter.getRelatedElements(docOffset);
 
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { Disposable } from '../../utils/disposables';
 import { MutableProject } from '../../language/workspace/mutableProject';
+import { extractDefinitionInfo, formatDefinitionParameters } from '../../language/akusto/definitionInfo';
 
 /**
  * Provides completions for $-prefixed definitions.
@@ -71,6 +72,10 @@ export class DefinitionCompletionProvider extends Disposable implements vscode.C
                 allDefs.set(name, { source: 'local definition', isLocal: true });
             }
 
+            // Chapter-local definitions aren't part of the project's definition infos
+            const chapter = currentDoc.getChapterAt(offset);
+            const chapterDefs = chapter ? currentDoc.getChapterDefinitions(chapter) : undefined;
+
             // The partial text including $ that's already been typed
             const typedPrefix = '$' + (dollarMatch[1] || '');
             const partialText = dollarMatch[1] || '';
@@ -92,8 +97,15 @@ export class DefinitionCompletionProvider extends Disposable implements vscode.C
                 // The label shows the full name including $
                 const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
 
-                // Get definition info for documentation
-                const defInfo = definitionInfos.get(name);
+                // Get definition info for documentation (chapter-local definitions shadow global ones)
+                const chapterFragment = chapterDefs?.get(name);
+                const defInfo = chapterFragment
+                    ? extractDefinitionInfo(currentDoc.text, chapterFragment.text, currentDoc.getFragmentRange(chapterFragment).start, name, uri)
+                    : definitionInfos.get(name);
+
+                if (defInfo?.parameters) {
+                    item.label = { label: name, detail: formatDefinitionParameters(defInfo.parameters) };
+                }
 
                 // Description showing where it comes from
                 item.detail = isLocal ? '(local definition)' : '(definition)';
@@ -110,8 +122,13 @@ export class DefinitionCompletionProvider extends Disposable implements vscode.C
                     position.line, position.character
                 );
 
-                // Insert the full name including $
-                item.insertText = name;
+                // Insert the full name including $, with parentheses for parameterized definitions
+                if (defInfo?.parameters) {
+                    item.insertText = new vscode.SnippetString().appendText(name + '(').appendTabstop(0).appendText(')');
+                    item.command = { command: 'editor.action.triggerParameterHints', title: 'Trigger Parameter Hints' };
+                } else {
+                    item.insertText = name;
+                }
                 item.range = replaceRange;
 
                 // Filter text helps VS Code match what the user types
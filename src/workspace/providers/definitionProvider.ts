@@ -59,7 +59,7 @@ export class DefinitionProvider extends Disposable implements vscode.DefinitionP
 
         try {
             const resolved = project.resolve(doc, fragment);
-            const service = getLanguageServiceForInstructions(resolved.instructions);
+            const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
             const adapter = new ResolvedDocumentAdapter(resolved, service);
             const relatedInfo = adapter.getRelatedElements(new DocumentOffset(uri, offset));
 
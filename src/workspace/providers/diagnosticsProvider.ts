@@ -97,7 +97,7 @@ export class DiagnosticsProvider extends Disposable {
         for (const fragment of executableFragments) {
             try {
                 const resolved = project.resolve(doc, fragment);
-                const service = getLanguageServiceForInstructions(resolved.instructions);
+                const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
                 const adapter = new ResolvedDocumentAdapter(resolved, service);
 
                 // Only get diagnostics for the current document, not dependencies
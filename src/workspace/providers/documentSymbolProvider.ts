@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { Disposable } from '../../utils/disposables';
+import { MutableProject } from '../../language/workspace/mutableProject';
+import { DocumentSymbol, DocumentSymbolKind, getDocumentSymbols } from '../../language/akusto/documentSymbols';
+
+/**
+ * Provides the document outline (Outline view, breadcrumbs).
+ * Definitions and queries are nested under their chapters.
+ */
+export class DocumentSymbolProvider extends Disposable implements vscode.DocumentSymbolProvider {
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.languages.registerDocumentSymbolProvider(
+            [{ language: 'kusto' }, { pattern: '**/*.kql' }, { pattern: '**/*.csl' }],
+            this
+        ));
+    }
+
+    provideDocumentSymbols(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.DocumentSymbol[] {
+        const doc = this.model.documents.get().get(document.uri.toString());
+        if (!doc) {
+            return [];
+        }
+
+        const toVsCode = (symbol: DocumentSymbol): vscode.DocumentSymbol => {
+            const result = new vscode.DocumentSymbol(
+                symbol.name,
+                symbol.detail ?? '',
+                mapSymbolKind(symbol.kind, symbol.detail !== undefined),
+                new vscode.Range(document.positionAt(symbol.range.start), document.positionAt(symbol.range.endExclusive)),
+                new vscode.Range(document.positionAt(symbol.selectionRange.start), document.positionAt(symbol.selectionRange.endExclusive))
+            );
+            result.children = symbol.children.map(toVsCode);
+            return result;
+        };
+
+        return getDocumentSymbols(doc).map(toVsCode);
+    }
+}
+
+/** Map an outline symbol kind to the VS Code kind (parameterized definitions show as functions). */
+export function mapSymbolKind(kind: DocumentSymbolKind, hasParameters: boolean): vscode.SymbolKind {
+    switch (kind) {
+        case 'chapter': return vscode.SymbolKind.Namespace;
+        case 'definition': return hasParameters ? vscode.SymbolKind.Function : vscode.SymbolKind.Variable;
+        case 'query': return vscode.SymbolKind.Event;
+    }
+}
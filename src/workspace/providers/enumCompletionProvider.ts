@@ -72,7 +72,7 @@ export class EnumCompletionProvider extends Disposable implements vscode.Complet
         try {
             // Resolve the fragment
             const resolved = project.resolve(doc, fragment);
-            const service = getLanguageServiceForInstructions(resolved.instructions);
+            const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
 
             // Get the mapped offset for the identifier in the resolved document
             const identifierDocOffset = new DocumentOffset(uri, context.identifierOffset);
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { Disposable } from '../../utils/disposables';
 import { MutableProject } from '../../language/workspace/mutableProject';
 import { ResolvedDocumentAdapter, SourceTextProvider } from '../../language/akusto/resolvedDocumentAdapter';
-import { getDefinitionNameAtOffset } from '../../language/akusto/definitionInfo';
+import { formatDefinitionParameters, getDefinitionNameAtOffset } from '../../language/akusto/definitionInfo';
 import { DocumentOffset } from '../../language/common/documentOffset';
 import { getLanguageServiceForInstructions } from '../languageServiceResolver';
 
@@ -68,7 +68,10 @@ export class HoverProvider extends Disposable implements vscode.HoverProvider {
             console.log(`[Hover DEBUG] Found defInfo: ${!!defInfo}`);
             if (defInfo) {
                 const contents = new vscode.MarkdownString();
-                contents.appendCodeblock(defName, 'kusto');
+                const signature = defInfo.parameters
+                    ? defName + formatDefinitionParameters(defInfo.parameters)
+                    : defName;
+                contents.appendCodeblock(signature, 'kusto');
                 if (defInfo.documentation) {
                     contents.appendMarkdown('\n\n' + defInfo.documentation);
                 }
@@ -87,7 +90,7 @@ export class HoverProvider extends Disposable implements vscode.HoverProvider {
             const resolveTime = performance.now() - resolveStart;
 
             const serviceStart = performance.now();
-            const service = getLanguageServiceForInstructions(resolved.instructions);
+            const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
             const serviceTime = performance.now() - serviceStart;
 
             const hoverStart = performance.now();
@@ -4,7 +4,13 @@ export { DebugDocumentProvider } from './debugDocumentProvider';
 export { DefinitionCompletionProvider } from './definitionCompletionProvider';
 export { DefinitionProvider } from './definitionProvider';
 export { DiagnosticsProvider } from './diagnosticsProvider';
+export { DocumentSymbolProvider } from './documentSymbolProvider';
 export { EnumCompletionProvider } from './enumCompletionProvider';
 export { HoverProvider } from './hoverProvider';
+export { ReferenceProvider } from './referenceProvider';
+export { ResultPreviewProvider } from './resultPreviewProvider';
+export { RenameProvider } from './renameProvider';
 export { SemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './semanticTokensProvider';
+export { SignatureHelpProvider } from './signatureHelpProvider';
+export { WorkspaceSymbolProvider } from './workspaceSymbolProvider';
 export { ResultsViewProvider } from '../resultsViewProvider';
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { Disposable } from '../../utils/disposables';
+import { MutableProject } from '../../language/workspace/mutableProject';
+import { DefinitionReference } from '../../language/akusto/akustoProject';
+
+/**
+ * Provides "Find All References" for $definitions.
+ * Searches every document in the project, i.e. everything reachable through `:include`.
+ */
+export class ReferenceProvider extends Disposable implements vscode.ReferenceProvider {
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.languages.registerReferenceProvider(
+            [{ language: 'kusto' }, { pattern: '**/*.kql' }, { pattern: '**/*.csl' }],
+            this
+        ));
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | null> {
+        const doc = this.model.documents.get().get(document.uri.toString());
+        if (!doc) {
+            return null;
+        }
+
+        const project = this.model.project.get();
+        const definition = project.getDefinitionAt(doc, document.offsetAt(position));
+        if (!definition) {
+            return null;
+        }
+
+        const references = project.findReferences(definition)
+            .filter(r => context.includeDeclaration || !r.isDeclaration);
+        return toLocations(references);
+    }
+}
+
+/** Convert references to VS Code locations, opening the target documents as needed. */
+export async function toLocations(references: readonly DefinitionReference[]): Promise<vscode.Location[]> {
+    const locations: vscode.Location[] = [];
+    const vsDocs = new Map<string, vscode.TextDocument>();
+
+    for (const ref of references) {
+        let vsDoc = vsDocs.get(ref.uri);
+        if (!vsDoc) {
+            vsDoc = await vscode.workspace.openTextDocument(vscode.Uri.parse(ref.uri));
+            vsDocs.set(ref.uri, vsDoc);
+        }
+        const range = new vscode.Range(vsDoc.positionAt(ref.range.start), vsDoc.positionAt(ref.range.endExclusive));
+        locations.push(new vscode.Location(vsDoc.uri, range));
+    }
+
+    return locations;
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { Disposable } from '../../utils/disposables';
+import { MutableProject } from '../../language/workspace/mutableProject';
+import { isValidDefinitionName } from '../../language/akusto/definitionInfo';
+import { toLocations } from './referenceProvider';
+
+/**
+ * Renames $definitions across every document in the project.
+ * Chapter-local definitions and globals they shadow are renamed independently.
+ */
+export class RenameProvider extends Disposable implements vscode.RenameProvider {
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.languages.registerRenameProvider(
+            [{ language: 'kusto' }, { pattern: '**/*.kql' }, { pattern: '**/*.csl' }],
+            this
+        ));
+    }
+
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.Range {
+        const uri = document.uri.toString();
+        const offset = document.offsetAt(position);
+
+        const doc = this.model.documents.get().get(uri);
+        const definition = doc && this.model.project.get().getDefinitionAt(doc, offset);
+        if (!definition) {
+            throw new Error('Only $definitions can be renamed.');
+        }
+
+        const reference = this.model.project.get().findReferences(definition)
+            .find(r => r.uri === uri && r.range.containsOrTouches(offset));
+        if (!reference) {
+            throw new Error('Only $definitions can be renamed.');
+        }
+
+        return new vscode.Range(document.positionAt(reference.range.start), document.positionAt(reference.range.endExclusive));
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | null> {
+        const doc = this.model.documents.get().get(document.uri.toString());
+        if (!doc) {
+            return null;
+        }
+
+        const project = this.model.project.get();
+        const definition = project.getDefinitionAt(doc, document.offsetAt(position));
+        if (!definition) {
+            return null;
+        }
+
+        if (!newName.startsWith('$')) {
+            newName = '$' + newName;
+        }
+        if (!isValidDefinitionName(newName)) {
+            throw new Error(`'${newName}' is not a valid definition name.`);
+        }
+        if (newName !== definition.fragment.exportedName
+            && project.findRenameConflict(definition, newName)) {
+            throw new Error(`'${newName}' is already defined.`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const location of await toLocations(project.findReferences(definition))) {
+            edit.replace(location.uri, location.range, newName);
+        }
+        return edit;
+    }
+}
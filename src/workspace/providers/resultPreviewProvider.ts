@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { autorun, ISettableObservable, observableValue } from '@vscode/observables';
+import { Disposable } from '../../utils/disposables';
+import { MutableProject } from '../../language/workspace/mutableProject';
+import { QueryHistoryModel } from '../queryHistoryModel';
+import { findLatestExecution, formatResultPreview } from '../resultPreview';
+
+/**
+ * Shows the outcome of the latest execution of each fragment at the end of the fragment
+ * (row count, elapsed time, the value of single-cell results, or the error summary).
+ */
+export class ResultPreviewProvider extends Disposable {
+    private readonly _decorationType: vscode.TextEditorDecorationType;
+    private readonly _errorDecorationType: vscode.TextEditorDecorationType;
+    private readonly _visibleEditors: ISettableObservable<readonly vscode.TextEditor[]>;
+
+    constructor(
+        private readonly model: MutableProject,
+        private readonly historyModel: QueryHistoryModel
+    ) {
+        super();
+
+        this._decorationType = vscode.window.createTextEditorDecorationType({
+            after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 2em' },
+        });
+        this._errorDecorationType = vscode.window.createTextEditorDecorationType({
+            after: { color: new vscode.ThemeColor('editorError.foreground'), margin: '0 0 0 2em' },
+        });
+        this._register(this._decorationType);
+        this._register(this._errorDecorationType);
+
+        this._visibleEditors = observableValue('ResultPreviewProvider.visibleEditors', vscode.window.visibleTextEditors);
+        this._register(vscode.window.onDidChangeVisibleTextEditors(editors => {
+            this._visibleEditors.set(editors, undefined, undefined);
+        }));
+
+        this._register(autorun(reader => {
+            /** @description Update result previews of visible Kusto documents */
+            const documents = this.model.documents.read(reader);
+            const executions = this.historyModel.executions.read(reader);
+            for (const execution of executions) {
+                execution.outcome.read(reader);
+            }
+
+            for (const editor of this._visibleEditors.read(reader)) {
+                const uri = editor.document.uri.toString();
+                const akustoDoc = documents.get(uri);
+                if (!akustoDoc) {
+                    continue;
+                }
+
+                const previews: vscode.DecorationOptions[] = [];
+                const errors: vscode.DecorationOptions[] = [];
+                for (const fragment of akustoDoc.fragments) {
+                    const execution = findLatestExecution(executions, uri, fragment.text);
+                    if (!execution) {
+                        continue;
+                    }
+                    // Place the preview after the last non-blank line of the fragment
+                    const end = akustoDoc.getFragmentRange(fragment).start + fragment.text.trimEnd().length;
+                    const line = editor.document.lineAt(editor.document.positionAt(end).line);
+                    const options: vscode.DecorationOptions = {
+                        range: new vscode.Range(line.range.end, line.range.end),
+                        renderOptions: { after: { contentText: formatResultPreview(execution) } },
+                    };
+                    (execution.outcome.get()?.kind === 'error' ? errors : previews).push(options);
+                }
+                editor.setDecorations(this._decorationType, previews);
+                editor.setDecorations(this._errorDecorationType, errors);
+            }
+        }));
+    }
+}
@@ -69,7 +69,7 @@ export class SemanticTokensProvider extends Disposable implements vscode.Documen
             for (const fragment of doc.fragments) {
                 try {
                     const resolved = project.resolve(doc, fragment);
-                    const service = getLanguageServiceForInstructions(resolved.instructions);
+                    const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
                     const adapter = new ResolvedDocumentAdapter(resolved, service);
 
                     // Get tokens for this document only
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { Disposable } from '../../utils/disposables';
+import { MutableProject } from '../../language/workspace/mutableProject';
+import { ResolvedDocumentAdapter } from '../../language/akusto/resolvedDocumentAdapter';
+import { AkustoDocument } from '../../language/akusto/akustoDocument';
+import { DefinitionInfo, extractDefinitionInfo, formatDefinitionParameters, getDefinitionCallAtOffset } from '../../language/akusto/definitionInfo';
+import { getInstructionSignatureHelp } from '../../language/akusto/instructionSignatureHelp';
+import { DocumentAst, Instruction } from '../../language/akusto/ast';
+import { DocumentOffset } from '../../language/common/documentOffset';
+import { SignatureHelp } from '../../language/kusto';
+import { getLanguageServiceForInstructions } from '../languageServiceResolver';
+
+/**
+ * Provides signature help for Kusto function calls, akusto instructions
+ * and calls to parameterized definitions (`$name(arg, ...)`).
+ */
+export class SignatureHelpProvider extends Disposable implements vscode.SignatureHelpProvider {
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.languages.registerSignatureHelpProvider(
+            [{ language: 'kusto' }, { pattern: '**/*.kql' }, { pattern: '**/*.csl' }],
+            this,
+            { triggerCharacters: ['(', ','], retriggerCharacters: [')'] }
+        ));
+    }
+
+    provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.SignatureHelpContext
+    ): vscode.SignatureHelp | null {
+        const uri = document.uri.toString();
+        const offset = document.offsetAt(position);
+
+        const doc = this.model.documents.get().get(uri);
+        if (!doc) {
+            return null;
+        }
+
+        const instruction = findInstructionTouching(doc.ast, offset);
+        if (instruction) {
+            return toVsCodeSignatureHelp(getInstructionSignatureHelp(instruction, offset));
+        }
+
+        const fragment = doc.getFragmentAt(offset);
+        if (!fragment) {
+            return null;
+        }
+
+        const definitionCall = getDefinitionCallAtOffset(fragment.text, offset - doc.getFragmentRange(fragment).start);
+        if (definitionCall) {
+            return this._getDefinitionSignatureHelp(doc, offset, definitionCall);
+        }
+
+        try {
+            const resolved = this.model.project.get().resolve(doc, fragment);
+            const service = getLanguageServiceForInstructions(resolved.instructions, resolved.virtualText);
+            const adapter = new ResolvedDocumentAdapter(resolved, service);
+            return toVsCodeSignatureHelp(adapter.getSignatureHelp(new DocumentOffset(uri, offset)));
+        } catch (e) {
+            console.error('[SignatureHelp] Error:', e);
+            return null;
+        }
+    }
+
+    private _getDefinitionSignatureHelp(doc: AkustoDocument, offset: number, call: { name: string; argumentIndex: number }): vscode.SignatureHelp | null {
+        const defInfo = this._getVisibleDefinitionInfo(doc, offset, call.name);
+        if (!defInfo?.parameters) {
+            return null;
+        }
+
+        const signature = new vscode.SignatureInformation(call.name + formatDefinitionParameters(defInfo.parameters));
+        if (defInfo.documentation) {
+            signature.documentation = new vscode.MarkdownString(defInfo.documentation);
+        }
+        signature.parameters = defInfo.parameters.map(p => new vscode.ParameterInformation(
+            p.type ? `${p.name}: ${p.type}` : p.name
+        ));
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = Math.min(call.argumentIndex, Math.max(defInfo.parameters.length - 1, 0));
+        return help;
+    }
+
+    /** Get info for a definition visible at an offset (chapter-local first, then global). */
+    private _getVisibleDefinitionInfo(doc: AkustoDocument, offset: number, name: string): DefinitionInfo | undefined {
+        const chapter = doc.getChapterAt(offset);
+        const chapterFragment = chapter ? doc.getChapterDefinitions(chapter).get(name) : undefined;
+        if (chapterFragment) {
+            return extractDefinitionInfo(doc.text, chapterFragment.text, doc.getFragmentRange(chapterFragment).start, name, doc.uri);
+        }
+        return this.model.project.get().getDefinitionInfo(name);
+    }
+}
+
+/** Find the instruction whose expression contains or ends at the offset. */
+function findInstructionTouching(ast: DocumentAst, offset: number): Instruction | undefined {
+    const instructions = [
+        ...ast.getInstructions(),
+        ...ast.getChapters().flatMap(c => c.getInstructions()),
+    ];
+    return instructions.find(i => i.expressionRange.containsOrTouches(offset));
+}
+
+function toVsCodeSignatureHelp(help: SignatureHelp | null): vscode.SignatureHelp | null {
+    if (!help) {
+        return null;
+    }
+
+    const result = new vscode.SignatureHelp();
+    result.signatures = help.signatures.map(s => {
+        const signature = new vscode.SignatureInformation(s.label, s.documentation && new vscode.MarkdownString(s.documentation));
+        signature.parameters = s.parameters.map(p => new vscode.ParameterInformation(p.label, p.documentation));
+        return signature;
+    });
+    result.activeSignature = help.activeSignature;
+    result.activeParameter = help.activeParameter;
+    return result;
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { Disposable } from '../../utils/disposables';
+import { MutableProject } from '../../language/workspace/mutableProject';
+import { mapSymbolKind } from './documentSymbolProvider';
+
+/**
+ * Provides workspace symbol search (Ctrl+T) over all $definitions in the project.
+ */
+export class WorkspaceSymbolProvider extends Disposable implements vscode.WorkspaceSymbolProvider {
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.languages.registerWorkspaceSymbolProvider(this));
+    }
+
+    provideWorkspaceSymbols(query: string, _token: vscode.CancellationToken): vscode.SymbolInformation[] {
+        const project = this.model.project.get();
+        const positionAtByUri = new Map<string, (offset: number) => vscode.Position>();
+        const result: vscode.SymbolInformation[] = [];
+
+        for (const info of project.getDefinitionInfos().values()) {
+            if (!matchesFuzzy(query, info.name)) {
+                continue;
+            }
+
+            let positionAt = positionAtByUri.get(info.uri);
+            if (!positionAt) {
+                const text = project.documents.get(info.uri)?.text ?? '';
+                positionAt = createPositionAt(text);
+                positionAtByUri.set(info.uri, positionAt);
+            }
+
+            const range = new vscode.Range(positionAt(info.nameRange.start), positionAt(info.nameRange.endExclusive));
+            const uri = vscode.Uri.parse(info.uri);
+            result.push(new vscode.SymbolInformation(
+                info.name,
+                mapSymbolKind('definition', info.parameters !== null),
+                vscode.workspace.asRelativePath(uri),
+                new vscode.Location(uri, range)
+            ));
+        }
+
+        return result;
+    }
+}
+
+/** Case-insensitive subsequence match, e.g. `evq` matches `$events.query`. */
+function matchesFuzzy(query: string, name: string): boolean {
+    const lowerName = name.toLowerCase();
+    let pos = 0;
+    for (const ch of query.toLowerCase()) {
+        pos = lowerName.indexOf(ch, pos) + 1;
+        if (pos === 0) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/** Create an offset-to-position converter for a document that may not be open in the editor. */
+function createPositionAt(text: string): (offset: number) => vscode.Position {
+    const lineStarts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+    }
+
+    return offset => {
+        // Binary search for the last line starting at or before offset
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return new vscode.Position(low, offset - lineStarts[low]);
+    };
+}
@@ -4,6 +4,8 @@ import {
     IObservable,
     derived,
 } from '@vscode/observables';
+import { OutputConfig } from '../language/akusto/instructionTypes';
+import { QueryStatistics } from '../connection/queryStatistics';
 
 /**
  * Visualization properties from Kusto render operator
@@ -22,14 +24,54 @@ export interface KustoVisualization {
 }
 
 /**
- * Successful query result
+ * A named result table; queries using `fork` or several statements return more than one
  */
-export interface QueryResult {
+export interface ResultTable {
+    readonly name: string;
     readonly columns: string[];
+    /** Kusto type of each column; missing in history persisted before types were recorded */
+    readonly columnTypes?: string[];
     readonly rows: unknown[][];
     readonly totalRows: number;
-    readonly resolvedQuery: string;
     readonly visualization?: KustoVisualization;
+    /** Entries of the `@ExtendedProperties` table that refer to this table */
+    readonly extendedProperties?: Record<string, unknown>;
+}
+
+/**
+ * Successful query result
+ */
+export interface QueryResult {
+    readonly tables: readonly ResultTable[];
+    readonly resolvedQuery: string;
+    /** Resource consumption reported by the cluster (CPU time, memory peak, extents scanned, ...) */
+    readonly statistics?: QueryStatistics;
+    /** Set when the query had more rows than the row limit it ran with; the tables were cut at this many rows */
+    readonly truncatedAt?: number;
+    /** Set when the rows were dropped from persisted history to stay within the storage budget */
+    readonly rowsOmitted?: boolean;
+    /** Set while the rows are stored on disk instead of in memory; `QueryExecution.loadResult` reads them back */
+    readonly rowsSpilled?: boolean;
+    /** Size of the spilled rows in storage, which counts against the history storage budget */
+    readonly spilledBytes?: number;
+}
+
+/**
+ * Stores the rows of results outside of memory, by execution id.
+ */
+export interface ResultRowStorage {
+    /** Store the rows of each result table and return their size in bytes */
+    write(id: string, rows: readonly (readonly unknown[][])[]): Promise<number>;
+    read(id: string): Promise<unknown[][][]>;
+    /** Delete the rows of all executions except the given ones */
+    prune(keepIds: ReadonlySet<string>): Promise<void>;
+}
+
+/**
+ * Rows received so far while a query streams its results
+ */
+export interface PartialQueryResult {
+    readonly tables: readonly ResultTable[];
 }
 
 /**
@@ -55,6 +97,18 @@ export interface QueryInfo {
     readonly cluster: string;
     readonly database: string;
     readonly originalQuery: string;
+    /** Output configuration from `:setOutput`, if any */
+    readonly output?: OutputConfig;
+    /** Where the query comes from, used to derive output file names */
+    readonly source?: QuerySource;
+}
+
+/**
+ * The document (and chapter) a query was run from
+ */
+export interface QuerySource {
+    readonly documentUri: string;
+    readonly chapterTitle?: string;
 }
 
 /**
@@ -69,6 +123,8 @@ export interface QueryInfo {
  * Observable properties:
  * - endTime: when execution completed (undefined while running)
  * - outcome: the result (undefined while running, then success/error/cancelled)
+ * - partialResult: rows received so far (only while a query streams its results)
+ * - pinned: whether the execution is pinned in history (kept when history is trimmed, can be compared)
  */
 export class QueryExecution {
     /** Unique identifier for this execution */
@@ -89,13 +145,55 @@ export class QueryExecution {
     /** Outcome - undefined while running */
     private readonly _outcome: ISettableObservable<QueryOutcome | undefined>;
 
-    constructor(query: QueryInfo) {
-        this.id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    /** Rows received so far - undefined unless results stream in */
+    private readonly _partialResult: ISettableObservable<PartialQueryResult | undefined>;
+
+    /** Pinned executions stay in history and can be compared */
+    private readonly _pinned: ISettableObservable<boolean>;
+
+    /** Where the rows of the result are stored while they are not in memory */
+    private _rowStorage: ResultRowStorage | undefined;
+
+    /** Pending read of spilled rows */
+    private _loadingResult: Promise<QueryResult | undefined> | undefined;
+
+    constructor(query: QueryInfo, restored?: PersistedQueryExecution) {
+        this.id = restored?.id ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
         this.query = query;
-        this.startTime = new Date();
+        this.startTime = restored ? new Date(restored.startTime) : new Date();
         this._abortController = new AbortController();
-        this._endTime = observableValue(`QueryExecution(${this.id}).endTime`, undefined);
-        this._outcome = observableValue(`QueryExecution(${this.id}).outcome`, undefined);
+        this._endTime = observableValue(`QueryExecution(${this.id}).endTime`, restored ? new Date(restored.endTime) : undefined);
+        this._outcome = observableValue(`QueryExecution(${this.id}).outcome`, restored?.outcome);
+        this._partialResult = observableValue(`QueryExecution(${this.id}).partialResult`, undefined);
+        this._pinned = observableValue(`QueryExecution(${this.id}).pinned`, restored?.pinned ?? false);
+    }
+
+    /**
+     * Recreate a completed execution from persisted history
+     */
+    static restore(data: PersistedQueryExecution, rowStorage?: ResultRowStorage): QueryExecution {
+        const execution = new QueryExecution(data.query, { ...data, outcome: migrateOutcome(data.outcome) });
+        execution._rowStorage = rowStorage;
+        return execution;
+    }
+
+    /**
+     * Get the persisted form of a completed execution, or undefined while it is running
+     */
+    toPersisted(): PersistedQueryExecution | undefined {
+        const outcome = this._outcome.get();
+        const endTime = this._endTime.get();
+        if (!outcome || !endTime) {
+            return undefined;
+        }
+        return {
+            id: this.id,
+            query: this.query,
+            startTime: this.startTime.getTime(),
+            endTime: endTime.getTime(),
+            outcome,
+            pinned: this._pinned.get() || undefined,
+        };
     }
 
     /** Abort signal for passing to fetch/network calls */
@@ -113,11 +211,95 @@ export class QueryExecution {
         return this._outcome;
     }
 
+    /** Observable rows received so far, while the query is running */
+    get partialResult(): IObservable<PartialQueryResult | undefined> {
+        return this._partialResult;
+    }
+
+    /** Observable pinned state */
+    get pinned(): IObservable<boolean> {
+        return this._pinned;
+    }
+
+    /** Pin or unpin the execution */
+    setPinned(pinned: boolean): void {
+        this._pinned.set(pinned, undefined, undefined);
+    }
+
     /** Derived: is the query still running? */
     get isRunning(): IObservable<boolean> {
         return derived(this, reader => this._outcome.read(reader) === undefined);
     }
 
+    /**
+     * Get the successful result with its rows, reading them back if they were spilled to storage.
+     * The rows stay in memory until they are spilled again.
+     */
+    async loadResult(): Promise<QueryResult | undefined> {
+        const outcome = this._outcome.get();
+        if (outcome?.kind !== 'success') {
+            return undefined;
+        }
+        const storage = this._rowStorage;
+        if (!outcome.result.rowsSpilled || !storage) {
+            return outcome.result;
+        }
+
+        this._loadingResult ??= (async () => {
+            try {
+                // Without the stored rows (e.g. deleted with the storage), the result is shown without rows
+                const rows = await storage.read(this.id).catch(() => undefined);
+                const result: QueryResult = {
+                    ...outcome.result,
+                    tables: outcome.result.tables.map((table, i) => ({ ...table, rows: rows?.[i] ?? [] })),
+                    rowsSpilled: undefined,
+                    spilledBytes: undefined,
+                    rowsOmitted: rows ? outcome.result.rowsOmitted : true,
+                };
+                if (this._outcome.get() === outcome) {
+                    this._outcome.set({ kind: 'success', result }, undefined, undefined);
+                }
+                return result;
+            } finally {
+                this._loadingResult = undefined;
+            }
+        })();
+        return this._loadingResult;
+    }
+
+    /**
+     * Move the rows of a successful result to storage to free memory; `loadResult` reads them back.
+     */
+    async spillRows(storage: ResultRowStorage): Promise<void> {
+        const outcome = this._outcome.get();
+        if (outcome?.kind !== 'success' || outcome.result.rowsSpilled || outcome.result.tables.every(t => t.rows.length === 0)) {
+            return;
+        }
+        const spilledBytes = await storage.write(this.id, outcome.result.tables.map(t => t.rows));
+        // Rows that were loaded or replaced meanwhile stay in memory
+        if (this._outcome.get() !== outcome) {
+            return;
+        }
+        this._rowStorage = storage;
+        const result: QueryResult = {
+            ...outcome.result,
+            tables: outcome.result.tables.map(table => ({ ...table, rows: [] })),
+            rowsSpilled: true,
+            spilledBytes,
+        };
+        this._outcome.set({ kind: 'success', result }, undefined, undefined);
+    }
+
+    /**
+     * Report the rows received so far while the query is running
+     */
+    reportProgress(partialResult: PartialQueryResult): void {
+        if (this._outcome.get() !== undefined) {
+            return;
+        }
+        this._partialResult.set(partialResult, undefined, undefined);
+    }
+
     /**
      * Complete the execution with a successful result
      */
@@ -128,6 +310,7 @@ export class QueryExecution {
         }
         this._endTime.set(new Date(), undefined, undefined);
         this._outcome.set({ kind: 'success', result }, undefined, undefined);
+        this._partialResult.set(undefined, undefined, undefined);
     }
 
     /**
@@ -140,6 +323,7 @@ export class QueryExecution {
         }
         this._endTime.set(new Date(), undefined, undefined);
         this._outcome.set({ kind: 'error', error }, undefined, undefined);
+        this._partialResult.set(undefined, undefined, undefined);
     }
 
     /**
@@ -154,7 +338,38 @@ export class QueryExecution {
         this._abortController.abort();
         this._endTime.set(new Date(), undefined, undefined);
         this._outcome.set({ kind: 'cancelled' }, undefined, undefined);
+        this._partialResult.set(undefined, undefined, undefined);
+    }
+}
+
+/**
+ * Results persisted before queries could return several tables had a single table inline.
+ */
+function migrateOutcome(outcome: QueryOutcome): QueryOutcome {
+    if (outcome.kind !== 'success' || outcome.result.tables) {
+        return outcome;
     }
+    const legacy = outcome.result as unknown as Omit<ResultTable, 'name'> & QueryResult;
+    return {
+        kind: 'success',
+        result: {
+            tables: [{ name: 'PrimaryResult', columns: legacy.columns, rows: legacy.rows, totalRows: legacy.totalRows, visualization: legacy.visualization }],
+            resolvedQuery: legacy.resolvedQuery,
+            rowsOmitted: legacy.rowsOmitted,
+        },
+    };
+}
+
+/**
+ * Persisted format of a completed execution (stored across sessions)
+ */
+export interface PersistedQueryExecution {
+    readonly id: string;
+    readonly query: QueryInfo;
+    readonly startTime: number;
+    readonly endTime: number;
+    readonly outcome: QueryOutcome;
+    readonly pinned?: boolean;
 }
 
 /**
@@ -168,14 +383,29 @@ export interface SerializedQueryExecution {
     startTime: number;
     endTime: number | undefined;
     status: 'running' | 'success' | 'error' | 'cancelled';
-    /** Only included for completed queries */
+    /** Only included for completed queries: rows of the first table */
     totalRows?: number;
+    /** Only included for completed queries */
+    tableCount?: number;
+    /** Only included for completed queries, if the cluster reported them */
+    statistics?: QueryStatistics;
     /** Only included for errors */
     errorMessage?: string;
+    /** Whether `:setOutput` configured a web editor for the results */
+    hasWebEditor: boolean;
+    pinned: boolean;
+}
+
+/**
+ * A result table without its rows; the results view requests them in ranges
+ */
+export interface ResultTableInfo extends Omit<ResultTable, 'rows'> {
+    /** Number of rows available (less than `totalRows` if rows were discarded) */
+    readonly rowCount: number;
 }
 
 /**
- * Full data for a selected query (includes result rows)
+ * Full data for a selected query (result tables without rows)
  */
 export interface QueryExecutionFullData {
     id: string;
@@ -186,7 +416,7 @@ export interface QueryExecutionFullData {
     startTime: number;
     endTime: number | undefined;
     status: 'running' | 'success' | 'error' | 'cancelled';
-    result?: QueryResult;
+    result?: Omit<QueryResult, 'tables'> & { tables: ResultTableInfo[] };
     errorMessage?: string;
 }
 
@@ -199,12 +429,16 @@ export function serializeExecution(exec: QueryExecution): SerializedQueryExecuti
 
     let status: SerializedQueryExecution['status'] = 'running';
     let totalRows: number | undefined;
+    let tableCount: number | undefined;
+    let statistics: QueryStatistics | undefined;
     let errorMessage: string | undefined;
 
     if (outcome) {
         if (outcome.kind === 'success') {
             status = 'success';
-            totalRows = outcome.result.totalRows;
+            totalRows = outcome.result.tables[0]?.totalRows ?? 0;
+            tableCount = outcome.result.tables.length;
+            statistics = outcome.result.statistics;
         } else if (outcome.kind === 'error') {
             status = 'error';
             errorMessage = outcome.error.message;
@@ -222,26 +456,34 @@ export function serializeExecution(exec: QueryExecution): SerializedQueryExecuti
         endTime: endTime?.getTime(),
         status,
         totalRows,
+        tableCount,
+        statistics,
         errorMessage,
+        hasWebEditor: !!exec.query.output?.webEditorUrl,
+        pinned: exec.pinned.get(),
     };
 }
 
 /**
- * Get full data for a query execution (includes result rows)
+ * Get full data for a query execution; rows are left out, as they are requested in ranges.
+ * Spilled rows are not loaded, so call `loadResult` first for accurate row counts.
  */
 export function getExecutionFullData(exec: QueryExecution): QueryExecutionFullData {
     const outcome = exec.outcome.get();
     const endTime = exec.endTime.get();
 
     let status: QueryExecutionFullData['status'] = 'running';
-    let result: QueryResult | undefined;
+    let result: QueryExecutionFullData['result'];
     let errorMessage: string | undefined;
     let resolvedQuery = '';
 
     if (outcome) {
         if (outcome.kind === 'success') {
             status = 'success';
-            result = outcome.result;
+            result = {
+                ...outcome.result,
+                tables: outcome.result.tables.map(({ rows, ...table }) => ({ ...table, rowCount: rows.length })),
+            };
             resolvedQuery = outcome.result.resolvedQuery;
         } else if (outcome.kind === 'error') {
             status = 'error';
@@ -12,7 +12,7 @@ import {
     serializeExecution,
 } from './queryExecution';
 
-const MAX_HISTORY_ITEMS = 50;
+const DEFAULT_MAX_HISTORY_ITEMS = 50;
 
 /**
  * Observable model for query execution history.
@@ -37,6 +37,9 @@ export class QueryHistoryModel {
     /** Callback for when any execution's state changes */
     private _onExecutionChanged?: () => void;
 
+    /** Maximum number of executions kept in history */
+    private _maxItems = DEFAULT_MAX_HISTORY_ITEMS;
+
     constructor() {
         this._executions = observableValue('QueryHistoryModel.executions', []);
         this._selectedId = observableValue('QueryHistoryModel.selectedId', null);
@@ -62,6 +65,12 @@ export class QueryHistoryModel {
         this._selectedId.set(id, undefined, undefined);
     }
 
+    /** Pin or unpin an execution; pinned executions are kept when history is trimmed or cleared */
+    setPinned(id: string, pinned: boolean): void {
+        this.getExecution(id)?.setPinned(pinned);
+        this._onExecutionChanged?.();
+    }
+
     /**
      * Set callback for when any execution's state changes.
      * Used by the view provider to know when to re-sync.
@@ -86,11 +95,51 @@ export class QueryHistoryModel {
 
         transaction(tx => {
             const current = this._executions.get();
-            this._executions.set([execution, ...current].slice(0, MAX_HISTORY_ITEMS), tx, undefined);
+            this._executions.set(this._trim([execution, ...current]), tx, undefined);
             this._selectedId.set(execution.id, tx, undefined);
         });
     }
 
+    /**
+     * Add completed executions from a previous session.
+     * They are older than everything in the current session, so they go last.
+     */
+    restoreExecutions(executions: readonly QueryExecution[]): void {
+        const current = this._executions.get();
+        const known = new Set(current.map(e => e.id));
+        const restored = executions.filter(e => !known.has(e.id));
+        this._executions.set(this._trim([...current, ...restored]), undefined, undefined);
+    }
+
+    /**
+     * Set the maximum number of executions kept in history, dropping the oldest ones
+     */
+    setMaxItems(maxItems: number): void {
+        this._maxItems = Math.max(1, maxItems);
+        const current = this._executions.get();
+        const kept = this._trim(current);
+        if (kept.length < current.length) {
+            this._executions.set(kept, undefined, undefined);
+        }
+    }
+
+    /**
+     * Keep the most recent executions up to the maximum number of items, plus all pinned executions
+     */
+    private _trim(executions: readonly QueryExecution[]): QueryExecution[] {
+        let unpinnedSlots = this._maxItems - executions.filter(e => e.pinned.get()).length;
+        const kept: QueryExecution[] = [];
+        for (const execution of executions) {
+            if (execution.pinned.get() || unpinnedSlots-- > 0) {
+                kept.push(execution);
+            } else {
+                this._executionWatchers.get(execution.id)?.dispose();
+                this._executionWatchers.delete(execution.id);
+            }
+        }
+        return kept;
+    }
+
     /**
      * Delete an execution from history
      */
@@ -112,18 +161,24 @@ export class QueryHistoryModel {
     }
 
     /**
-     * Clear all history
+     * Clear the history, except for pinned executions
      */
     clearAll(): void {
-        // Clean up all watchers
-        for (const watcher of this._executionWatchers.values()) {
-            watcher.dispose();
+        const pinned = this._executions.get().filter(e => e.pinned.get());
+
+        // Clean up the watchers of removed executions
+        for (const [id, watcher] of this._executionWatchers) {
+            if (!pinned.some(e => e.id === id)) {
+                watcher.dispose();
+                this._executionWatchers.delete(id);
+            }
         }
-        this._executionWatchers.clear();
 
         transaction(tx => {
-            this._executions.set([], tx, undefined);
-            this._selectedId.set(null, tx, undefined);
+            this._executions.set(pinned, tx, undefined);
+            if (!pinned.some(e => e.id === this._selectedId.get())) {
+                this._selectedId.set(null, tx, undefined);
+            }
         });
     }
 
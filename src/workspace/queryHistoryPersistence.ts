@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { autorun } from '@vscode/observables';
+import { Disposable } from '../utils/disposables';
+import { QueryHistoryModel } from './queryHistoryModel';
+import { HistoryStorageLimits, getPersistedHistory, getRowStorageIdsToKeep } from './queryHistoryStorage';
+import { QueryExecution, PersistedQueryExecution, ResultRowStorage } from './queryExecution';
+
+const HISTORY_FILE_NAME = 'queryHistory.json';
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Persists the query history to extension storage and restores it on activation.
+ * Limits come from the `kusto.history.maxItems` and `kusto.history.maxStoredBytes` settings.
+ * Rows spilled to the row storage count against the byte limit of the persisted history; they are deleted
+ * once their execution leaves the history or is restored without rows.
+ */
+export class QueryHistoryPersistence extends Disposable {
+    private readonly _fileUri: vscode.Uri;
+    private _saveTimeout: ReturnType<typeof setTimeout> | undefined;
+    private _restored = false;
+
+    constructor(
+        private readonly _storageUri: vscode.Uri,
+        private readonly _historyModel: QueryHistoryModel,
+        private readonly _rowStorage: ResultRowStorage
+    ) {
+        super();
+        this._fileUri = vscode.Uri.joinPath(_storageUri, HISTORY_FILE_NAME);
+
+        this._historyModel.setMaxItems(this._getLimits().maxItems);
+        this._register(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('kusto.history')) {
+                this._historyModel.setMaxItems(this._getLimits().maxItems);
+                this._scheduleSave();
+            }
+        }));
+
+        // Save whenever the history or the outcome or pinned state of an execution changes
+        this._register(autorun(reader => {
+            for (const execution of this._historyModel.executions.read(reader)) {
+                execution.outcome.read(reader);
+                execution.pinned.read(reader);
+            }
+            this._scheduleSave();
+        }));
+
+        this._register({ dispose: () => clearTimeout(this._saveTimeout) });
+
+        this._restore();
+    }
+
+    private _getLimits(): HistoryStorageLimits {
+        const config = vscode.workspace.getConfiguration('kusto.history');
+        return {
+            maxItems: config.get<number>('maxItems', 50),
+            maxBytes: config.get<number>('maxStoredBytes', 10 * 1024 * 1024),
+        };
+    }
+
+    private async _restore(): Promise<void> {
+        try {
+            const content = await vscode.workspace.fs.readFile(this._fileUri);
+            const persisted = JSON.parse(Buffer.from(content).toString('utf8')) as PersistedQueryExecution[];
+            this._historyModel.restoreExecutions(persisted.map(p => QueryExecution.restore(p, this._rowStorage)));
+        } catch (e) {
+            if (!(e instanceof vscode.FileSystemError && e.code === 'FileNotFound')) {
+                console.error('[QueryHistory] Failed to restore history:', e);
+            }
+        } finally {
+            this._restored = true;
+            this._scheduleSave();
+        }
+    }
+
+    private _scheduleSave(): void {
+        // Don't overwrite the stored history before it has been restored
+        if (!this._restored) {
+            return;
+        }
+        clearTimeout(this._saveTimeout);
+        this._saveTimeout = setTimeout(() => this._save(), SAVE_DELAY_MS);
+    }
+
+    private async _save(): Promise<void> {
+        try {
+            const executions = this._historyModel.executions.get();
+            const persisted = getPersistedHistory(executions, this._getLimits());
+            await vscode.workspace.fs.createDirectory(this._storageUri);
+            await vscode.workspace.fs.writeFile(this._fileUri, Buffer.from(JSON.stringify(persisted), 'utf8'));
+            await this._rowStorage.prune(getRowStorageIdsToKeep(executions));
+        } catch (e) {
+            console.error('[QueryHistory] Failed to save history:', e);
+        }
+    }
+}
@@ -0,0 +1,152 @@
+import { describe, test, expect } from 'vitest';
+import { getPersistedHistory, getRowStorageIdsToKeep } from './queryHistoryStorage';
+import { QueryExecution, ResultRowStorage } from './queryExecution';
+
+function createExecution(query: string, rowCount: number): QueryExecution {
+    const execution = new QueryExecution({ cluster: 'https://help.kusto.windows.net', database: 'Samples', originalQuery: query });
+    execution.complete({
+        tables: [{
+            name: 'PrimaryResult',
+            columns: ['Value'],
+            rows: Array.from({ length: rowCount }, (_, i) => [`row ${i}`]),
+            totalRows: rowCount,
+        }],
+        resolvedQuery: query,
+    });
+    return execution;
+}
+
+function createRowStorage(stored: Map<string, unknown[][][]>): ResultRowStorage {
+    return {
+        write: async (id, rows) => {
+            const json = JSON.stringify(rows);
+            stored.set(id, JSON.parse(json));
+            return json.length;
+        },
+        read: async id => {
+            const rows = stored.get(id);
+            if (!rows) {
+                throw new Error(`No rows stored for ${id}`);
+            }
+            return rows;
+        },
+        prune: async keepIds => {
+            for (const id of stored.keys()) {
+                if (!keepIds.has(id)) {
+                    stored.delete(id);
+                }
+            }
+        },
+    };
+}
+
+function summarize(executions: QueryExecution[], maxItems: number, maxBytes: number) {
+    return getPersistedHistory(executions, { maxItems, maxBytes }).map(p => {
+        const outcome = p.outcome;
+        return outcome.kind === 'success'
+            ? `${p.query.originalQuery}: ${outcome.result.tables[0].rows.length} rows${outcome.result.rowsOmitted ? ' (omitted)' : ''}`
+            : `${p.query.originalQuery}: ${outcome.kind}`;
+    });
+}
+
+describe('getPersistedHistory', () => {
+    test('drops rows of older entries when over the byte budget', () => {
+        const executions = [createExecution('new', 100), createExecution('old', 100)];
+
+        expect(summarize(executions, 10, 10_000)).toMatchInlineSnapshot(`
+          [
+            "new: 100 rows",
+            "old: 100 rows",
+          ]
+        `);
+        expect(summarize(executions, 10, 2_500)).toMatchInlineSnapshot(`
+          [
+            "new: 100 rows",
+            "old: 0 rows (omitted)",
+          ]
+        `);
+        expect(summarize(executions, 1, 10_000)).toMatchInlineSnapshot(`
+          [
+            "new: 100 rows",
+          ]
+        `);
+    });
+
+    test('skips running executions', () => {
+        const cancelled = new QueryExecution({ cluster: 'c', database: 'd', originalQuery: 'cancelled' });
+        cancelled.cancel();
+        const running = new QueryExecution({ cluster: 'c', database: 'd', originalQuery: 'running' });
+
+        expect(summarize([running, cancelled, createExecution('done', 1)], 10, 10_000)).toMatchInlineSnapshot(`
+          [
+            "cancelled: cancelled",
+            "done: 1 rows",
+          ]
+        `);
+    });
+
+    test('keeps pinned executions beyond the maximum number of items', () => {
+        const pinned = createExecution('pinned', 1);
+        pinned.setPinned(true);
+
+        expect(summarize([createExecution('new', 1), createExecution('old', 1), pinned], 1, 10_000)).toMatchInlineSnapshot(`
+          [
+            "new: 1 rows",
+            "pinned: 1 rows",
+          ]
+        `);
+    });
+
+    test('persisted executions restore as completed executions', () => {
+        const persisted = JSON.parse(JSON.stringify(getPersistedHistory([createExecution('previous', 2)], { maxItems: 10, maxBytes: 10_000 })));
+        const restored = QueryExecution.restore(persisted[0]);
+
+        expect(restored.id).toBe(persisted[0].id);
+        expect(restored.isRunning.get()).toBe(false);
+        expect(restored.endTime.get()?.getTime()).toBe(persisted[0].endTime);
+        expect(restored.toPersisted()).toEqual(persisted[0]);
+    });
+
+    test('spilled rows are persisted separately and loaded on demand', async () => {
+        const storage = createRowStorage(new Map());
+        const execution = createExecution('large', 100);
+        await execution.spillRows(storage);
+
+        // The spilled rows count against the byte budget
+        expect(summarize([execution], 10, 10_000)).toMatchInlineSnapshot(`
+          [
+            "large: 0 rows",
+          ]
+        `);
+        expect(summarize([execution], 10, 1_000)).toMatchInlineSnapshot(`
+          [
+            "large: 0 rows (omitted)",
+          ]
+        `);
+
+        const persisted = getPersistedHistory([execution], { maxItems: 10, maxBytes: 10_000 });
+        const restored = QueryExecution.restore(persisted[0], storage);
+        const result = await restored.loadResult();
+        expect(result?.tables[0].rows.length).toBe(100);
+        expect(result?.rowsSpilled).toBeUndefined();
+    });
+
+    test('spilled rows over the byte budget stay available until the execution is restored without them', async () => {
+        const stored = new Map<string, unknown[][][]>();
+        const storage = createRowStorage(stored);
+        const execution = createExecution('large', 100);
+        await execution.spillRows(storage);
+
+        // Saving persists the execution without rows, but keeps them for the current session
+        const persisted = getPersistedHistory([execution], { maxItems: 10, maxBytes: 1_000 });
+        await storage.prune(getRowStorageIdsToKeep([execution]));
+        const result = await execution.loadResult();
+        expect(result?.tables[0].rows.length).toBe(100);
+        expect(result?.rowsOmitted).toBeUndefined();
+
+        // The next session restores the execution without rows, so they are deleted on its first save
+        const restored = QueryExecution.restore(persisted[0], storage);
+        await storage.prune(getRowStorageIdsToKeep([restored]));
+        expect(stored.size).toBe(0);
+    });
+});
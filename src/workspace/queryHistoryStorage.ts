@@ -0,0 +1,70 @@
+import { QueryExecution, PersistedQueryExecution } from './queryExecution';
+
+/**
+ * Limits for persisting history across sessions
+ */
+export interface HistoryStorageLimits {
+    /** Maximum number of executions to keep */
+    readonly maxItems: number;
+    /** Maximum size of the persisted JSON and spilled rows in bytes; result rows are dropped from older entries first */
+    readonly maxBytes: number;
+}
+
+/**
+ * Get the completed executions to persist, most recent first.
+ * Result rows, inline or spilled to storage, are kept as long as they fit into the byte budget; older entries are stored without rows.
+ * Pinned executions are persisted even beyond `maxItems`.
+ */
+export function getPersistedHistory(executions: readonly QueryExecution[], limits: HistoryStorageLimits): PersistedQueryExecution[] {
+    const result: PersistedQueryExecution[] = [];
+    let totalBytes = 0;
+
+    for (const execution of executions) {
+        const persisted = execution.toPersisted();
+        // Pinned executions are kept beyond the maximum number of items
+        if (!persisted || (result.length >= limits.maxItems && !persisted.pinned)) {
+            continue;
+        }
+
+        for (const candidate of [persisted, withoutRows(persisted)]) {
+            const bytes = Buffer.byteLength(JSON.stringify(candidate), 'utf8') + getSpilledBytes(candidate);
+            if (totalBytes + bytes <= limits.maxBytes) {
+                result.push(candidate);
+                totalBytes += bytes;
+                break;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Get the ids of the executions whose rows must stay in the row storage.
+ * Executions in history keep their stored rows even if they didn't fit into the byte budget, as they are
+ * read back when the execution is selected; the budget only decides which rows the next session restores.
+ * Executions restored without rows no longer need theirs.
+ */
+export function getRowStorageIdsToKeep(executions: readonly QueryExecution[]): Set<string> {
+    return new Set(executions
+        .filter(e => {
+            const outcome = e.outcome.get();
+            return outcome?.kind !== 'success' || !outcome.result.rowsOmitted;
+        })
+        .map(e => e.id));
+}
+
+function getSpilledBytes(execution: PersistedQueryExecution): number {
+    const outcome = execution.outcome;
+    return outcome.kind === 'success' && outcome.result.rowsSpilled ? outcome.result.spilledBytes ?? 0 : 0;
+}
+
+function withoutRows(execution: PersistedQueryExecution): PersistedQueryExecution {
+    const outcome = execution.outcome;
+    if (outcome.kind !== 'success' || (!outcome.result.rowsSpilled && outcome.result.tables.every(t => t.rows.length === 0))) {
+        return execution;
+    }
+    const tables = outcome.result.tables.map(t => ({ ...t, rows: [] }));
+    const result = { ...outcome.result, tables, rowsOmitted: true, rowsSpilled: undefined, spilledBytes: undefined };
+    return { ...execution, outcome: { kind: 'success', result } };
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { QueryParameter, toParameterLiteral, validateParameterValue } from './queryParameters';
+
+const LAST_VALUES_KEY = 'kusto.queryParameters.lastValues';
+
+/**
+ * Asks for the values of `declare query_parameters` before a query runs.
+ * The last entered value of each parameter (by name and type) is remembered per workspace.
+ */
+export class QueryParameterPrompt {
+    constructor(private readonly _storage: vscode.Memento) { }
+
+    /**
+     * Ask for a value per parameter, one input after the other.
+     * Parameters left empty that have a default are not passed, so the query uses the default.
+     * @returns the request parameters (as Kusto literals), or undefined if the user cancelled
+     */
+    async prompt(parameters: readonly QueryParameter[]): Promise<Record<string, string> | undefined> {
+        const lastValues = this._storage.get<Record<string, string>>(LAST_VALUES_KEY, {});
+        const result: Record<string, string> = {};
+        const entered: Record<string, string> = {};
+
+        for (const [index, parameter] of parameters.entries()) {
+            const key = `${parameter.name}:${parameter.type}`;
+            const title = `Query parameter ${index + 1}/${parameters.length}: ${parameter.name} (${parameter.type})`;
+            const value = parameter.type === 'bool' || parameter.type === 'boolean'
+                ? await this._pickBoolean(title, parameter, lastValues[key])
+                : await this._inputValue(title, parameter, lastValues[key]);
+            if (value === undefined) {
+                return undefined;
+            }
+
+            entered[key] = value;
+            if (value.trim() === '' && parameter.defaultValue !== undefined) {
+                continue;
+            }
+            result[parameter.name] = toParameterLiteral(parameter.type, value);
+        }
+
+        await this._storage.update(LAST_VALUES_KEY, { ...lastValues, ...entered });
+        return result;
+    }
+
+    private _inputValue(title: string, parameter: QueryParameter, lastValue: string | undefined): Thenable<string | undefined> {
+        const hasDefault = parameter.defaultValue !== undefined;
+        return vscode.window.showInputBox({
+            title,
+            prompt: hasDefault ? `Leave empty to use the default ${parameter.defaultValue}` : undefined,
+            placeHolder: parameter.defaultValue,
+            value: lastValue,
+            ignoreFocusOut: true,
+            validateInput: value => {
+                if (value.trim() === '') {
+                    return hasDefault || parameter.type === 'string' ? undefined : 'A value is required';
+                }
+                return validateParameterValue(parameter.type, value);
+            },
+        });
+    }
+
+    private async _pickBoolean(title: string, parameter: QueryParameter, lastValue: string | undefined): Promise<string | undefined> {
+        const items: (vscode.QuickPickItem & { value: string })[] = [
+            { label: 'true', value: 'true' },
+            { label: 'false', value: 'false' },
+        ];
+        if (parameter.defaultValue !== undefined) {
+            items.unshift({ label: 'Default', description: parameter.defaultValue, value: '' });
+        }
+        // Offer the last value first
+        items.sort((a, b) => (a.value === lastValue ? -1 : b.value === lastValue ? 1 : 0));
+
+        const picked = await vscode.window.showQuickPick(items, { title, ignoreFocusOut: true });
+        return picked?.value;
+    }
+}
@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'vitest';
+import { parseQueryParameters, toParameterLiteral, validateParameterValue } from './queryParameters';
+
+describe('parseQueryParameters', () => {
+    test('parses names, types and defaults', () => {
+        const query = [
+            'declare query_parameters(',
+            '    minLevel: int = 3,',
+            "    ['user name']: string = 'a, b',",
+            '    since: datetime = datetime(2024-01-01),',
+            '    tags: dynamic);',
+            'Events | where Level >= minLevel',
+        ].join('\n');
+
+        expect(parseQueryParameters(query)).toMatchInlineSnapshot(`
+          [
+            {
+              "defaultValue": "3",
+              "name": "minLevel",
+              "type": "int",
+            },
+            {
+              "defaultValue": "'a, b'",
+              "name": "user name",
+              "type": "string",
+            },
+            {
+              "defaultValue": "datetime(2024-01-01)",
+              "name": "since",
+              "type": "datetime",
+            },
+            {
+              "name": "tags",
+              "type": "dynamic",
+            },
+          ]
+        `);
+    });
+
+    test('ignores queries without declarations', () => {
+        expect(parseQueryParameters('Events | extend x = "declare query_parameters(a: int)"')).toEqual([]);
+    });
+});
+
+describe('validateParameterValue', () => {
+    test('checks values against the declared type', () => {
+        expect([
+            validateParameterValue('long', '42'),
+            validateParameterValue('long', '4.2'),
+            validateParameterValue('datetime', '2024-01-31'),
+            validateParameterValue('timespan', '1h'),
+            validateParameterValue('timespan', 'an hour'),
+            validateParameterValue('dynamic', '["a"]'),
+            validateParameterValue('string', 'anything'),
+        ]).toMatchInlineSnapshot(`
+          [
+            undefined,
+            "Expected an integer",
+            undefined,
+            undefined,
+            "Expected a timespan like 1h or 01:00:00",
+            undefined,
+            undefined,
+          ]
+        `);
+    });
+});
+
+describe('toParameterLiteral', () => {
+    test('wraps values in literals of the declared type', () => {
+        expect([
+            toParameterLiteral('string', 'a b'),
+            toParameterLiteral('datetime', '2024-01-31'),
+            toParameterLiteral('timespan', '1h'),
+            toParameterLiteral('bool', 'True'),
+            toParameterLiteral('dynamic', '[1, 2]'),
+        ]).toMatchInlineSnapshot(`
+          [
+            "a b",
+            "datetime(2024-01-31)",
+            "timespan(1h)",
+            "true",
+            "dynamic([1, 2])",
+          ]
+        `);
+    });
+});
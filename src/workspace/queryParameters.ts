@@ -0,0 +1,155 @@
+/**
+ * A parameter declared with `declare query_parameters(name: type = default, ...)`.
+ */
+export interface QueryParameter {
+    readonly name: string;
+    /** Kusto type, lowercase (e.g. `string`, `long`, `datetime`) */
+    readonly type: string;
+    /** The default value as written in the query, if any */
+    readonly defaultValue?: string;
+}
+
+/**
+ * Find the parameters of all `declare query_parameters(...)` statements of a query.
+ */
+export function parseQueryParameters(query: string): QueryParameter[] {
+    const parameters: QueryParameter[] = [];
+    const declaration = /^[ \t]*declare\s+query_parameters\s*\(/gm;
+
+    let match: RegExpExecArray | null;
+    while ((match = declaration.exec(query))) {
+        const start = match.index + match[0].length;
+        const end = findClosingParen(query, start);
+        if (end === -1) {
+            break;
+        }
+        for (const part of splitTopLevel(query.substring(start, end))) {
+            const parameter = /^\s*([\w$]+|\[\s*(['"])(.+?)\2\s*\])\s*:\s*(\w+)\s*(?:=\s*([\s\S]*?))?\s*$/.exec(part);
+            if (parameter) {
+                parameters.push({
+                    name: parameter[3] ?? parameter[1],
+                    type: parameter[4].toLowerCase(),
+                    ...(parameter[5] ? { defaultValue: parameter[5] } : {}),
+                });
+            }
+        }
+        declaration.lastIndex = end;
+    }
+    return parameters;
+}
+
+/** Index of the `)` matching an opening paren just before `start`, skipping strings. */
+function findClosingParen(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i = skipString(text, i);
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+/** Split at commas that are not nested in parens or strings. */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i = skipString(text, i);
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            parts.push(text.substring(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.substring(start));
+    return parts.filter(p => p.trim() !== '');
+}
+
+/** Index of the closing quote of the string starting at `start`. */
+function skipString(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+const validators: Record<string, { pattern: RegExp; hint: string }> = {
+    int: { pattern: /^[+-]?\d+$/, hint: 'an integer' },
+    long: { pattern: /^[+-]?\d+$/, hint: 'an integer' },
+    real: { pattern: /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/, hint: 'a number' },
+    double: { pattern: /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/, hint: 'a number' },
+    decimal: { pattern: /^[+-]?(\d+\.?\d*|\.\d+)$/, hint: 'a decimal number' },
+    bool: { pattern: /^(true|false)$/i, hint: 'true or false' },
+    boolean: { pattern: /^(true|false)$/i, hint: 'true or false' },
+    timespan: { pattern: /^-?((\d+\.)?\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?|\d+(\.\d+)?(d|h|m|s|ms|microseconds?|ticks?))$/, hint: 'a timespan like 1h or 01:00:00' },
+    time: { pattern: /^-?((\d+\.)?\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?|\d+(\.\d+)?(d|h|m|s|ms|microseconds?|ticks?))$/, hint: 'a timespan like 1h or 01:00:00' },
+    guid: { pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, hint: 'a GUID' },
+    uuid: { pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, hint: 'a GUID' },
+};
+
+/**
+ * Check a value entered for a parameter. Returns an error message, or undefined if the value is valid.
+ */
+export function validateParameterValue(type: string, value: string): string | undefined {
+    const text = value.trim();
+    if (type === 'datetime' || type === 'date') {
+        return isNaN(Date.parse(text)) ? 'Expected a datetime like 2024-01-31 or 2024-01-31T12:00:00Z' : undefined;
+    }
+    if (type === 'dynamic') {
+        try {
+            JSON.parse(text);
+            return undefined;
+        } catch {
+            return 'Expected JSON, e.g. ["a", "b"] or {"key": 1}';
+        }
+    }
+    const validator = validators[type];
+    return validator && !validator.pattern.test(text) ? `Expected ${validator.hint}` : undefined;
+}
+
+/**
+ * Convert an entered value to the request parameter value, which Kusto parses as a literal
+ * of the declared type: strings are passed as is, other types as literals like `datetime(...)`.
+ */
+export function toParameterLiteral(type: string, value: string): string {
+    const text = value.trim();
+    switch (type) {
+        case 'string':
+            return value;
+        case 'datetime':
+        case 'date':
+            return `datetime(${text})`;
+        case 'timespan':
+        case 'time':
+            return `timespan(${text})`;
+        case 'guid':
+        case 'uuid':
+            return `guid(${text})`;
+        case 'dynamic':
+            return `dynamic(${text})`;
+        case 'bool':
+        case 'boolean':
+            return text.toLowerCase();
+        default:
+            return text;
+    }
+}
@@ -5,9 +5,16 @@ import { AkustoDocument } from '../language/akusto/akustoDocument';
 import { KustoFragment } from '../language/akusto/kustoFragment';
 import { AuthType } from '../connection';
 import { ResolvedKustoDocument } from '../language/akusto/resolvedKustoDocument';
-import { extractConnection } from './languageServiceResolver';
+import { extractAllowDestructiveCommands, extractConnection, extractOutputConfig, extractQueryOptions } from './languageServiceResolver';
 import { ResultsViewProvider } from './resultsViewProvider';
 import { QueryHistoryModel, getQueryService } from './queryHistoryModel';
+import { QueryExecuteOptions } from './queryService';
+import { QuerySource } from './queryExecution';
+import { handleResultOutput } from './resultOutput';
+import { parseQueryParameters } from './queryParameters';
+import { QueryParameterPrompt } from './queryParameterPrompt';
+import { getManagementCommandText, getManagementCommandVerb, isDestructiveCommand } from './managementCommands';
+import { QueryOptions } from '../language/akusto/instructionTypes';
 
 /**
  * Handles running Kusto queries and displaying results.
@@ -17,9 +24,14 @@ import { QueryHistoryModel, getQueryService } from './queryHistoryModel';
 export class QueryRunner extends Disposable {
     private _resultsProvider: ResultsViewProvider | undefined;
     private _historyModel: QueryHistoryModel | undefined;
+    private readonly _parameterPrompt: QueryParameterPrompt;
 
-    constructor(private readonly model: MutableProject) {
+    /**
+     * @param parameterStorage - Remembers the last values entered for query parameters
+     */
+    constructor(private readonly model: MutableProject, parameterStorage: vscode.Memento) {
         super();
+        this._parameterPrompt = new QueryParameterPrompt(parameterStorage);
 
         // Register run query command
         this._register(
@@ -98,8 +110,32 @@ export class QueryRunner extends Disposable {
             const { cluster, database, authType } = extractConnection(resolved.instructions);
 
             if (cluster && database) {
+                // Management commands go to the management endpoint; destructive ones need confirmation
+                const commandVerb = getManagementCommandVerb(fragment.text);
+                const text = commandVerb ? getManagementCommandText(resolved.virtualText) : resolved.virtualText;
+                if (commandVerb && isDestructiveCommand(commandVerb) && !extractAllowDestructiveCommands(resolved.instructions)) {
+                    const confirmed = await this._confirmDestructiveCommand(commandVerb, text, database);
+                    if (!confirmed) {
+                        return;
+                    }
+                }
+
+                const queryOptions = await this._getQueryOptions(resolved);
+                if (!queryOptions) {
+                    return;
+                }
+
                 // Execute the query
-                this._executeQuery(fragment.text, resolved.virtualText, cluster, database, authType);
+                const source: QuerySource = {
+                    documentUri: akustoDoc.uri,
+                    chapterTitle: akustoDoc.getChapterAt(akustoDoc.getFragmentRange(fragment).start)?.title.trim(),
+                };
+                this._executeQuery(fragment.text, text, cluster, database, authType, {
+                    output: extractOutputConfig(resolved.instructions),
+                    queryOptions,
+                    isManagementCommand: commandVerb !== undefined,
+                    source,
+                });
             } else {
                 // Show resolved query without execution
                 await this._showResolvedOnly(fragment.text, resolved);
@@ -109,12 +145,44 @@ export class QueryRunner extends Disposable {
         }
     }
 
+    private async _confirmDestructiveCommand(verb: string, command: string, database: string): Promise<boolean> {
+        const action = await vscode.window.showWarningMessage(
+            `Run the destructive command ${verb} on ${database}?`,
+            {
+                modal: true,
+                detail: `${command.length > 500 ? command.substring(0, 500) + '…' : command}\n\nAdd :allowDestructiveCommands(true) to the chapter to skip this confirmation.`,
+            },
+            'Run'
+        );
+        return action === 'Run';
+    }
+
+    /**
+     * Get the client request properties of `:setOptions`, adding the values of
+     * `declare query_parameters` that the options don't supply, as entered by the user.
+     * Returns undefined if the user cancelled.
+     */
+    private async _getQueryOptions(resolved: ResolvedKustoDocument): Promise<QueryOptions | undefined> {
+        const options = extractQueryOptions(resolved.instructions) ?? {};
+        const missing = parseQueryParameters(resolved.virtualText).filter(p => options.parameters?.[p.name] === undefined);
+        if (missing.length === 0) {
+            return options;
+        }
+
+        const entered = await this._parameterPrompt.prompt(missing);
+        if (!entered) {
+            return undefined;
+        }
+        return { ...options, parameters: { ...options.parameters, ...entered } };
+    }
+
     private _executeQuery(
         originalQuery: string,
         resolvedQuery: string,
         cluster: string,
         database: string,
-        authType: AuthType
+        authType: AuthType,
+        options: QueryExecuteOptions
     ): void {
         // Reveal the results panel
         vscode.commands.executeCommand('kusto.resultsView.focus');
@@ -122,10 +190,13 @@ export class QueryRunner extends Disposable {
 
         // Execute via QueryService
         const queryService = getQueryService();
-        const execution = queryService.execute(cluster, database, originalQuery, resolvedQuery, authType);
+        const execution = queryService.execute(cluster, database, originalQuery, resolvedQuery, authType, options);
 
         // Add to history
         this._historyModel?.addExecution(execution);
+
+        // Persist results as configured by :setOutput
+        handleResultOutput(execution);
     }
 
     private async _showResolvedOnly(originalQuery: string, resolved: ResolvedKustoDocument): Promise<void> {
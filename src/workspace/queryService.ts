@@ -1,5 +1,45 @@
-import { getKustoClient, AuthType } from '../connection';
-import { QueryExecution, QueryInfo } from './queryExecution';
+import * as vscode from 'vscode';
+import { getKustoClient, AuthType, ResultTable } from '../connection';
+import { OutputConfig, QueryOptions } from '../language/akusto/instructionTypes';
+import { QueryExecution, QueryInfo, QuerySource } from './queryExecution';
+import { getRowLimitOptions, truncateToRowLimit } from './resultLimit';
+
+/** Default for `kusto.results.maxRowsPerTable` */
+const DEFAULT_MAX_ROWS_PER_TABLE = 500000;
+
+/** Default for `kusto.results.defaultRowLimit` */
+const DEFAULT_ROW_LIMIT = 50000;
+
+/** Minimum time between updates of the rows shown while results stream in */
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Optional information attached to an execution.
+ */
+export interface QueryExecuteOptions {
+    /** Output configuration from `:setOutput` */
+    readonly output?: OutputConfig;
+    /** Client request properties from `:setOptions` */
+    readonly queryOptions?: QueryOptions;
+    /** Send the text as management command (`.show`, `.drop`, ...) instead of as query */
+    readonly isManagementCommand?: boolean;
+    /** The document the query was run from */
+    readonly source?: QuerySource;
+    /** Rows per result table to fetch, instead of `kusto.results.defaultRowLimit` */
+    readonly rowLimit?: number;
+}
+
+/**
+ * The arguments an execution was started with, to run it again
+ */
+interface QueryRequest {
+    readonly cluster: string;
+    readonly database: string;
+    readonly originalQuery: string;
+    readonly resolvedQuery: string;
+    readonly authType: AuthType;
+    readonly options: QueryExecuteOptions | undefined;
+}
 
 /**
  * Service for executing Kusto queries.
@@ -14,6 +54,8 @@ import { QueryExecution, QueryInfo } from './queryExecution';
  *   // execution.cancel() to cancel, execution.outcome to observe result
  */
 export class QueryService {
+    private readonly _requests = new WeakMap<QueryExecution, QueryRequest>();
+
     /**
      * Execute a query and return a QueryExecution that tracks its state.
      * The query starts executing immediately in the background.
@@ -23,6 +65,7 @@ export class QueryService {
      * @param originalQuery - The original query text (for display)
      * @param resolvedQuery - The resolved query text (with definitions expanded)
      * @param authType - Authentication type
+     * @param options - Output configuration, client request properties and the source document of the query
      * @returns QueryExecution that can be used to track/cancel the query
      */
     execute(
@@ -30,44 +73,74 @@ export class QueryService {
         database: string,
         originalQuery: string,
         resolvedQuery: string,
-        authType: AuthType
+        authType: AuthType,
+        options?: QueryExecuteOptions
     ): QueryExecution {
-        const query: QueryInfo = { cluster, database, originalQuery };
+        const query: QueryInfo = { cluster, database, originalQuery, output: options?.output, source: options?.source };
         const execution = new QueryExecution(query);
+        this._requests.set(execution, { cluster, database, originalQuery, resolvedQuery, authType, options });
 
         // Start the query execution in background
-        this._runQuery(execution, resolvedQuery, authType);
+        this._runQuery(execution, resolvedQuery, authType, options);
 
         return execution;
     }
 
+    /**
+     * Run an execution again with a higher row limit, e.g. after its result was truncated.
+     * Returns undefined if the execution can't be run again, as it's from a previous session.
+     */
+    fetchMore(execution: QueryExecution, rowLimit: number): QueryExecution | undefined {
+        const request = this._requests.get(execution);
+        if (!request) {
+            return undefined;
+        }
+        const { cluster, database, originalQuery, resolvedQuery, authType, options } = request;
+        return this.execute(cluster, database, originalQuery, resolvedQuery, authType, { ...options, rowLimit });
+    }
+
     private async _runQuery(
         execution: QueryExecution,
         resolvedQuery: string,
-        authType: AuthType
+        authType: AuthType,
+        options: QueryExecuteOptions | undefined
     ): Promise<void> {
         const client = getKustoClient();
 
+        // Rows arrive frame by frame; batch them so the results view isn't updated for each frame
+        let pendingTables: ResultTable[] | undefined;
+        let progressTimer: ReturnType<typeof setTimeout> | undefined;
+        const onProgress = (tables: ResultTable[]) => {
+            pendingTables = tables;
+            progressTimer ??= setTimeout(() => {
+                progressTimer = undefined;
+                execution.reportProgress({ tables: pendingTables ?? [] });
+            }, PROGRESS_INTERVAL_MS);
+        };
+        const config = vscode.workspace.getConfiguration('kusto.results');
+        const maxRows = config.get<number>('maxRowsPerTable', DEFAULT_MAX_ROWS_PER_TABLE);
+
+        // Guard against queries that return huge results; management commands aren't limited
+        const rowLimit = options?.rowLimit ?? config.get<number>('defaultRowLimit', DEFAULT_ROW_LIMIT);
+        const limitOptions = options?.isManagementCommand ? undefined : getRowLimitOptions(options?.queryOptions, rowLimit);
+
         try {
-            const result = await client.executeQuery(
-                execution.query.cluster,
-                execution.query.database,
-                resolvedQuery,
-                authType,
-                execution.signal
-            );
+            const { cluster, database } = execution.query;
+            const result = options?.isManagementCommand
+                ? await client.executeManagementCommand(cluster, database, resolvedQuery, authType, execution.signal, options.queryOptions)
+                : await client.executeQuery(cluster, database, resolvedQuery, authType, execution.signal, limitOptions ?? options?.queryOptions, { maxRows, onProgress });
 
             // Check if cancelled during execution
             if (execution.signal.aborted) {
                 return;
             }
 
+            const { tables, truncated } = limitOptions ? truncateToRowLimit(result.tables, rowLimit) : { tables: result.tables, truncated: false };
             execution.complete({
-                columns: result.columns,
-                rows: result.rows,
-                totalRows: result.totalRows,
+                tables,
                 resolvedQuery,
-                visualization: result.visualization,
+                statistics: result.statistics,
+                truncatedAt: truncated ? rowLimit : undefined,
             });
         } catch (e) {
             // Check if cancelled during execution
@@ -80,6 +153,8 @@ export class QueryService {
                 message: errorMessage,
                 resolvedQuery,
             });
+        } finally {
+            clearTimeout(progressTimer);
         }
     }
 }
@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { compareResults } from './resultCompare';
+
+const base = {
+    columns: ['Region', 'Count', 'Owner'],
+    columnTypes: ['string', 'long', 'string'],
+    rows: [
+        ['EU', 10, 'a'],
+        ['US', 5, 'b'],
+        ['APAC', 1, 'c'],
+    ],
+};
+
+const other = {
+    columns: ['Region', 'Count', 'Owner', 'Share'],
+    columnTypes: ['string', 'long', 'string', 'real'],
+    rows: [
+        ['US', 5, 'b', 0.5],
+        ['EU', 12, 'a', 0.4],
+        ['LATAM', 2, 'd', 0.1],
+    ],
+};
+
+describe('compareResults', () => {
+    test('aligns rows by key columns', () => {
+        const comparison = compareResults(base, other, ['Region']);
+        expect(comparison.columns).toEqual(['Region', 'Count', 'Owner', 'Share']);
+        expect(comparison.counts).toMatchInlineSnapshot(`
+          {
+            "added": 1,
+            "changed": 1,
+            "removed": 1,
+            "unchanged": 1,
+          }
+        `);
+        expect(comparison.rows.map(r => `${r.kind} ${r.values[0]} ${JSON.stringify(r.deltas)}`)).toMatchInlineSnapshot(`
+          [
+            "unchanged US {}",
+            "changed EU {"1":2}",
+            "added LATAM {}",
+            "removed APAC {}",
+          ]
+        `);
+    });
+
+    test('aligns rows by position without key columns', () => {
+        const comparison = compareResults(base, { ...base, rows: [['EU', 10, 'a'], ['US', 7, 'b']] }, []);
+        expect(comparison.rows.map(r => r.kind)).toEqual(['unchanged', 'changed', 'removed']);
+        expect(comparison.rows[1].deltas).toEqual({ 1: 2 });
+    });
+});
@@ -0,0 +1,110 @@
+import { ResultTable } from './queryExecution';
+
+const NUMERIC_TYPES = new Set(['int', 'long', 'real', 'decimal']);
+
+export type RowDiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * A row of the compared result, aligned with the row of the base result that has the same key.
+ */
+export interface RowDiff {
+    readonly kind: RowDiffKind;
+    /** Values per column of the comparison; from the base result for removed rows */
+    readonly values: unknown[];
+    /** Values of the base row per column, for changed rows */
+    readonly baseValues?: unknown[];
+    /** Indexes of the columns whose value changed */
+    readonly changedColumns: number[];
+    /** Difference (compared minus base) of changed numeric values, by column index */
+    readonly deltas: Record<number, number>;
+}
+
+export interface ResultComparison {
+    /** Columns of the base result, followed by columns only the compared result has */
+    readonly columns: string[];
+    /** Columns both results have; rows can be aligned by these */
+    readonly commonColumns: string[];
+    readonly keyColumns: string[];
+    readonly rows: RowDiff[];
+    readonly counts: Readonly<Record<RowDiffKind, number>>;
+}
+
+type ComparedTable = Pick<ResultTable, 'columns' | 'columnTypes' | 'rows'>;
+
+/**
+ * Compare two result tables, aligning rows with equal values in the key columns.
+ * Without key columns, rows are aligned by position. Rows with duplicate keys are aligned in order.
+ */
+export function compareResults(base: ComparedTable, other: ComparedTable, keyColumns: readonly string[]): ResultComparison {
+    const columns = [...base.columns, ...other.columns.filter(c => !base.columns.includes(c))];
+    const commonColumns = base.columns.filter(c => other.columns.includes(c));
+    const keys = keyColumns.filter(c => commonColumns.includes(c));
+
+    const baseIndexes = columns.map(c => base.columns.indexOf(c));
+    const otherIndexes = columns.map(c => other.columns.indexOf(c));
+    const isNumeric = columns.map((_, i) =>
+        NUMERIC_TYPES.has(base.columnTypes?.[baseIndexes[i]] ?? '') && NUMERIC_TYPES.has(other.columnTypes?.[otherIndexes[i]] ?? ''));
+
+    const baseRowsByKey = groupByKey(base, keys);
+    const rows: RowDiff[] = [];
+    const counts: Record<RowDiffKind, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    const add = (diff: RowDiff) => {
+        rows.push(diff);
+        counts[diff.kind]++;
+    };
+
+    for (const [key, otherRows] of groupByKey(other, keys)) {
+        const baseRows = baseRowsByKey.get(key) ?? [];
+        baseRowsByKey.delete(key);
+        for (const [i, otherRow] of otherRows.entries()) {
+            const values = otherIndexes.map(index => (index === -1 ? undefined : otherRow[index]));
+            const baseRow = baseRows[i];
+            if (!baseRow) {
+                add({ kind: 'added', values, changedColumns: [], deltas: {} });
+                continue;
+            }
+
+            const baseValues = baseIndexes.map(index => (index === -1 ? undefined : baseRow[index]));
+            // Columns only one of the results has don't count as changes
+            const changedColumns = columns
+                .map((_, c) => c)
+                .filter(c => baseIndexes[c] !== -1 && otherIndexes[c] !== -1 && JSON.stringify(values[c]) !== JSON.stringify(baseValues[c]));
+            const deltas: Record<number, number> = {};
+            for (const c of changedColumns) {
+                const delta = Number(values[c]) - Number(baseValues[c]);
+                if (isNumeric[c] && values[c] !== null && baseValues[c] !== null && !isNaN(delta)) {
+                    deltas[c] = delta;
+                }
+            }
+            add(changedColumns.length > 0
+                ? { kind: 'changed', values, baseValues, changedColumns, deltas }
+                : { kind: 'unchanged', values, changedColumns, deltas });
+        }
+        for (const baseRow of baseRows.slice(otherRows.length)) {
+            add({ kind: 'removed', values: baseIndexes.map(index => (index === -1 ? undefined : baseRow[index])), changedColumns: [], deltas: {} });
+        }
+    }
+    for (const baseRows of baseRowsByKey.values()) {
+        for (const baseRow of baseRows) {
+            add({ kind: 'removed', values: baseIndexes.map(index => (index === -1 ? undefined : baseRow[index])), changedColumns: [], deltas: {} });
+        }
+    }
+
+    return { columns, commonColumns, keyColumns: keys, rows, counts };
+}
+
+/** Group the rows of a table by the JSON of their key values (or their position without keys), in row order. */
+function groupByKey(table: ComparedTable, keyColumns: readonly string[]): Map<string, unknown[][]> {
+    const keyIndexes = keyColumns.map(c => table.columns.indexOf(c));
+    const result = new Map<string, unknown[][]>();
+    for (const [position, row] of table.rows.entries()) {
+        const key = keyIndexes.length > 0 ? JSON.stringify(keyIndexes.map(i => row[i])) : String(position);
+        const rows = result.get(key);
+        if (rows) {
+            rows.push(row);
+        } else {
+            result.set(key, [row]);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,142 @@
+import { describe, test, expect } from 'vitest';
+import { formatResult, getExportFormatForFileExt, getOutputFileName, getWebEditorUrl } from './resultExport';
+
+const result = {
+    columns: ['Timestamp', 'Message', 'Count', 'Props'],
+    rows: [
+        ['2024-01-01T00:00:00Z', 'hello, "world"', 42, { a: 1 }],
+        ['2024-01-02T00:00:00Z', 'a|b\nc', null, true],
+    ],
+};
+
+describe('formatResult', () => {
+    test('csv', () => {
+        expect(formatResult(result, 'csv')).toMatchInlineSnapshot(`
+          "Timestamp,Message,Count,Props
+          2024-01-01T00:00:00Z,"hello, ""world""",42,"{""a"":1}"
+          2024-01-02T00:00:00Z,"a|b
+          c",,true
+          "
+        `);
+    });
+
+    test('tsv', () => {
+        expect(formatResult(result, 'tsv')).toMatchInlineSnapshot(`
+          "Timestamp	Message	Count	Props
+          2024-01-01T00:00:00Z	"hello, ""world"""	42	"{""a"":1}"
+          2024-01-02T00:00:00Z	"a|b
+          c"		true
+          "
+        `);
+    });
+
+    test('json', () => {
+        expect(formatResult(result, 'json')).toMatchInlineSnapshot(`
+          "[
+            {
+              "Timestamp": "2024-01-01T00:00:00Z",
+              "Message": "hello, \\"world\\"",
+              "Count": 42,
+              "Props": {
+                "a": 1
+              }
+            },
+            {
+              "Timestamp": "2024-01-02T00:00:00Z",
+              "Message": "a|b\\nc",
+              "Count": null,
+              "Props": true
+            }
+          ]
+          "
+        `);
+    });
+
+    test('jsonl', () => {
+        expect(formatResult(result, 'jsonl')).toMatchInlineSnapshot(`
+          "{"Timestamp":"2024-01-01T00:00:00Z","Message":"hello, \\"world\\"","Count":42,"Props":{"a":1}}
+          {"Timestamp":"2024-01-02T00:00:00Z","Message":"a|b\\nc","Count":null,"Props":true}
+          "
+        `);
+    });
+
+    test('markdown', () => {
+        expect(formatResult(result, 'md')).toMatchInlineSnapshot(`
+          "| Timestamp | Message | Count | Props |
+          | --- | --- | --- | --- |
+          | 2024-01-01T00:00:00Z | hello, "world" | 42 | {"a":1} |
+          | 2024-01-02T00:00:00Z | a\\|b<br>c |  | true |
+          "
+        `);
+    });
+
+    test('spreadsheetml', () => {
+        expect(formatResult(result, 'xml')).toMatchInlineSnapshot(`
+          "<?xml version="1.0" encoding="UTF-8"?>
+          <?mso-application progid="Excel.Sheet"?>
+          <Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">
+           <Worksheet ss:Name="Results">
+            <Table>
+             <Row><Cell><Data ss:Type="String">Timestamp</Data></Cell><Cell><Data ss:Type="String">Message</Data></Cell><Cell><Data ss:Type="String">Count</Data></Cell><Cell><Data ss:Type="String">Props</Data></Cell></Row>
+             <Row><Cell><Data ss:Type="String">2024-01-01T00:00:00Z</Data></Cell><Cell><Data ss:Type="String">hello, &quot;world&quot;</Data></Cell><Cell><Data ss:Type="Number">42</Data></Cell><Cell><Data ss:Type="String">{&quot;a&quot;:1}</Data></Cell></Row>
+             <Row><Cell><Data ss:Type="String">2024-01-02T00:00:00Z</Data></Cell><Cell><Data ss:Type="String">a|b
+          c</Data></Cell><Cell/><Cell><Data ss:Type="Boolean">1</Data></Cell></Row>
+            </Table>
+           </Worksheet>
+          </Workbook>
+          "
+        `);
+    });
+});
+
+describe('getExportFormatForFileExt', () => {
+    test('maps extensions with or without dot', () => {
+        expect(['.tsv', 'json', '.test.json', 'jsonl', 'MD', 'xls', undefined, 'parquet'].map(getExportFormatForFileExt)).toMatchInlineSnapshot(`
+          [
+            "tsv",
+            "json",
+            "json",
+            "jsonl",
+            "md",
+            "xml",
+            "csv",
+            "csv",
+          ]
+        `);
+    });
+});
+
+describe('getOutputFileName', () => {
+    test('derives the name from document and chapter', () => {
+        expect(getOutputFileName('queries.kql', 'Errors by hour!', '.test.json')).toMatchInlineSnapshot(`"queries.errors-by-hour.test.json"`);
+        expect(getOutputFileName('queries.kql', undefined, 'csv')).toMatchInlineSnapshot(`"queries.csv"`);
+        expect(getOutputFileName('queries.kql', 'Errors', '.csv', 'Top Users')).toMatchInlineSnapshot(`"queries.errors.top-users.csv"`);
+    });
+});
+
+describe('getWebEditorUrl', () => {
+    const payload = { query: 'T', cluster: 'c', database: 'd', columns: ['a'], totalRows: 1 };
+
+    test('substitutes or appends the payload', () => {
+        expect(getWebEditorUrl('https://example.com/?data={data}', payload, [[1]])).toMatchInlineSnapshot(`
+          {
+            "rowCount": 1,
+            "url": "https://example.com/?data=%7B%22query%22%3A%22T%22%2C%22cluster%22%3A%22c%22%2C%22database%22%3A%22d%22%2C%22columns%22%3A%5B%22a%22%5D%2C%22totalRows%22%3A1%2C%22rows%22%3A%5B%5B1%5D%5D%7D",
+          }
+        `);
+        expect(getWebEditorUrl('https://example.com/editor', payload, []).url).toMatchInlineSnapshot(`"https://example.com/editor#%7B%22query%22%3A%22T%22%2C%22cluster%22%3A%22c%22%2C%22database%22%3A%22d%22%2C%22columns%22%3A%5B%22a%22%5D%2C%22totalRows%22%3A1%2C%22rows%22%3A%5B%5D%7D"`);
+    });
+
+    test('includes only the rows that fit into the maximum length', () => {
+        const rows = Array.from({ length: 100_000 }, (_, i) => [i, `value ${i}`]);
+        const largePayload = { ...payload, totalRows: rows.length };
+        const { url, rowCount } = getWebEditorUrl('https://example.com/?data={data}', largePayload, rows);
+        expect(url.length).toBeLessThanOrEqual(8000);
+        expect(rowCount).toBeGreaterThan(100);
+        expect(rowCount).toBeLessThan(rows.length);
+        // The length is accounted exactly
+        expect(getWebEditorUrl('https://example.com/?data={data}', largePayload, rows, url.length).rowCount).toBe(rowCount);
+        expect(getWebEditorUrl('https://example.com/?data={data}', largePayload, rows, url.length - 1).rowCount).toBe(rowCount - 1);
+        expect(JSON.parse(decodeURIComponent(url.split('data=')[1])).rows).toHaveLength(rowCount);
+    });
+});
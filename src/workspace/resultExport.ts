@@ -0,0 +1,212 @@
+import { ResultTable } from './queryExecution';
+
+/** Supported file formats for exporting query results. */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'jsonl' | 'md' | 'xml';
+
+/** Display information for an export format. */
+export interface ExportFormatInfo {
+    readonly format: ExportFormat;
+    readonly label: string;
+    /** File extension without the leading dot. */
+    readonly extension: string;
+}
+
+export const exportFormats: readonly ExportFormatInfo[] = [
+    { format: 'csv', label: 'CSV', extension: 'csv' },
+    { format: 'tsv', label: 'TSV', extension: 'tsv' },
+    { format: 'json', label: 'JSON', extension: 'json' },
+    { format: 'jsonl', label: 'JSON Lines', extension: 'jsonl' },
+    { format: 'md', label: 'Markdown Table', extension: 'md' },
+    { format: 'xml', label: 'Excel (SpreadsheetML)', extension: 'xml' },
+];
+
+/**
+ * Get the export format matching a file extension (e.g. from `:setOutput({ fileExt: ".tsv" })`).
+ * Only the last extension counts, so `.test.json` is JSON. Falls back to CSV for unknown extensions.
+ */
+export function getExportFormatForFileExt(fileExt: string | undefined): ExportFormat {
+    const ext = (fileExt ?? '').split('.').pop()!.toLowerCase();
+    switch (ext) {
+        case 'tsv':
+        case 'tab':
+            return 'tsv';
+        case 'json':
+            return 'json';
+        case 'jsonl':
+        case 'ndjson':
+            return 'jsonl';
+        case 'md':
+        case 'markdown':
+            return 'md';
+        case 'xml':
+        case 'xls':
+            return 'xml';
+        default:
+            return 'csv';
+    }
+}
+
+/**
+ * Get the name of the file that `:setOutput` results are written to:
+ * the document name without extension, the chapter title (if any) and the configured extension,
+ * e.g. `queries.kql`, chapter "Errors by hour" and `.test.json` give `queries.errors-by-hour.test.json`.
+ * Additional result tables get their name appended, e.g. `queries.errors-by-hour.top-users.test.json`.
+ */
+export function getOutputFileName(documentFileName: string, chapterTitle: string | undefined, fileExt: string, tableName?: string): string {
+    const baseName = documentFileName.replace(/\.[^.]*$/, '');
+    const parts = [baseName, chapterTitle, tableName].map((part, i) => i === 0 ? part : part && slugify(part)).filter(Boolean);
+    const ext = fileExt.startsWith('.') ? fileExt : `.${fileExt}`;
+    return parts.join('.') + ext;
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/** Longest URL handed to a web editor; browsers, servers and OS shells reject much longer ones */
+const MAX_WEB_EDITOR_URL_LENGTH = 8000;
+
+/** What a web editor receives: the query and the first result table */
+export interface WebEditorPayload {
+    readonly query: string;
+    readonly cluster: string;
+    readonly database: string;
+    readonly columns: readonly string[];
+    readonly columnTypes?: readonly string[];
+    /** Number of rows of the result, which can be more than the included rows */
+    readonly totalRows: number;
+    readonly rows: readonly unknown[][];
+}
+
+/**
+ * Build the URL that opens a result in a web editor (`:setOutput({ webEditorUrl })`).
+ * The URL-encoded JSON payload replaces `{data}` in the template, or is appended as the URL fragment.
+ * Only as many rows are included as fit into `maxLength`, so large results still open.
+ * @returns the URL, and the number of rows it includes
+ */
+export function getWebEditorUrl(
+    template: string,
+    payload: Omit<WebEditorPayload, 'rows'>,
+    rows: readonly unknown[][],
+    maxLength = MAX_WEB_EDITOR_URL_LENGTH
+): { url: string; rowCount: number } {
+    const build = (rowCount: number) => {
+        const data = encodeURIComponent(JSON.stringify({ ...payload, rows: rows.slice(0, rowCount) }));
+        return template.includes('{data}') ? template.split('{data}').join(data) : `${template}#${data}`;
+    };
+
+    // Encoding is per character, so each row adds its encoded JSON and an encoded comma
+    const occurrences = Math.max(1, template.split('{data}').length - 1);
+    let length = build(0).length;
+    let rowCount = 0;
+    for (const row of rows) {
+        length += (encodeURIComponent(JSON.stringify(row)).length + (rowCount > 0 ? 3 : 0)) * occurrences;
+        if (length > maxLength) {
+            break;
+        }
+        rowCount++;
+    }
+    return { url: build(rowCount), rowCount };
+}
+
+/** Format query results in the given format. Columns keep the order of the query result. */
+export function formatResult(result: Pick<ResultTable, 'columns' | 'rows'>, format: ExportFormat): string {
+    switch (format) {
+        case 'csv': return formatDelimited(result, ',');
+        case 'tsv': return formatDelimited(result, '\t');
+        case 'json': return JSON.stringify(toRowObjects(result), null, 2) + '\n';
+        case 'jsonl': return toRowObjects(result).map(obj => JSON.stringify(obj)).join('\n') + '\n';
+        case 'md': return formatMarkdown(result);
+        case 'xml': return formatSpreadsheetMl(result);
+    }
+}
+
+/**
+ * Format a single value the way Kusto displays it:
+ * null is empty, datetimes are ISO 8601 and dynamic values are JSON.
+ */
+export function formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+function formatDelimited(result: Pick<ResultTable, 'columns' | 'rows'>, delimiter: string): string {
+    const escape = (text: string) => /["\r\n]/.test(text) || text.includes(delimiter)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    const lines = [
+        result.columns.map(escape).join(delimiter),
+        ...result.rows.map(row => row.map(v => escape(formatValue(v))).join(delimiter)),
+    ];
+    return lines.join('\r\n') + '\r\n';
+}
+
+function toRowObjects(result: Pick<ResultTable, 'columns' | 'rows'>): Record<string, unknown>[] {
+    return result.rows.map(row => {
+        const obj: Record<string, unknown> = {};
+        result.columns.forEach((col, i) => {
+            obj[col] = row[i] ?? null;
+        });
+        return obj;
+    });
+}
+
+function formatMarkdown(result: Pick<ResultTable, 'columns' | 'rows'>): string {
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    const lines = [
+        '| ' + result.columns.map(escape).join(' | ') + ' |',
+        '|' + result.columns.map(() => ' --- |').join(''),
+        ...result.rows.map(row => '| ' + row.map(v => escape(formatValue(v))).join(' | ') + ' |'),
+    ];
+    return lines.join('\n') + '\n';
+}
+
+/** Format as an Excel 2003 XML workbook, which Excel opens without any conversion. */
+function formatSpreadsheetMl(result: Pick<ResultTable, 'columns' | 'rows'>): string {
+    const cell = (value: unknown) => {
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`;
+        }
+        if (typeof value === 'boolean') {
+            return `<Cell><Data ss:Type="Boolean">${value ? 1 : 0}</Data></Cell>`;
+        }
+        if (value === null || value === undefined) {
+            return '<Cell/>';
+        }
+        return `<Cell><Data ss:Type="String">${escapeXml(formatValue(value))}</Data></Cell>`;
+    };
+    const row = (values: readonly unknown[]) => `   <Row>${values.map(cell).join('')}</Row>`;
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<?mso-application progid="Excel.Sheet"?>',
+        '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+        ' <Worksheet ss:Name="Results">',
+        '  <Table>',
+        row(result.columns),
+        ...result.rows.map(row),
+        '  </Table>',
+        ' </Worksheet>',
+        '</Workbook>',
+        '',
+    ].join('\n');
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { getRowLimitOptions, truncateToRowLimit } from './resultLimit';
+
+describe('getRowLimitOptions', () => {
+    test('requests one row more than the limit', () => {
+        expect(getRowLimitOptions({ servertimeout: '00:10:00' }, 100)).toMatchInlineSnapshot(`
+          {
+            "query_take_max_records": 101,
+            "servertimeout": "00:10:00",
+          }
+        `);
+    });
+
+    test('keeps the limit set by :setOptions', () => {
+        expect(getRowLimitOptions({ query_take_max_records: 5 }, 100)).toBeUndefined();
+    });
+});
+
+describe('truncateToRowLimit', () => {
+    test('cuts tables with more rows than the limit', () => {
+        const tables = [
+            { name: 'PrimaryResult', rows: [[1], [2], [3]], totalRows: 3 },
+            { name: 'Totals', rows: [[6]], totalRows: 1 },
+        ];
+        expect(truncateToRowLimit(tables, 2)).toMatchInlineSnapshot(`
+          {
+            "tables": [
+              {
+                "name": "PrimaryResult",
+                "rows": [
+                  [
+                    1,
+                  ],
+                  [
+                    2,
+                  ],
+                ],
+                "totalRows": 2,
+              },
+              {
+                "name": "Totals",
+                "rows": [
+                  [
+                    6,
+                  ],
+                ],
+                "totalRows": 1,
+              },
+            ],
+            "truncated": true,
+          }
+        `);
+        expect(truncateToRowLimit(tables, 3).truncated).toBe(false);
+    });
+});
@@ -0,0 +1,33 @@
+import { QueryOptions } from '../language/akusto/instructionTypes';
+import { ResultTable } from './queryExecution';
+
+/** Request option that makes the cluster stop after this many rows per result table */
+const TAKE_OPTION = 'query_take_max_records';
+
+/**
+ * Get the request options that limit each result table to `rowLimit` rows.
+ * One more row is requested, so a truncated result can be told apart from one that has exactly `rowLimit` rows.
+ * Returns undefined if `:setOptions` already limits the rows, as the user's limit wins.
+ */
+export function getRowLimitOptions(options: QueryOptions | undefined, rowLimit: number): QueryOptions | undefined {
+    if (options?.[TAKE_OPTION] !== undefined) {
+        return undefined;
+    }
+    return { ...options, [TAKE_OPTION]: rowLimit + 1 };
+}
+
+/**
+ * Cut the tables of a result requested with {@link getRowLimitOptions} to `rowLimit` rows.
+ * @returns the tables, and whether any of them had more rows
+ */
+export function truncateToRowLimit<T extends Pick<ResultTable, 'rows' | 'totalRows'>>(tables: readonly T[], rowLimit: number): { tables: T[]; truncated: boolean } {
+    let truncated = false;
+    const result = tables.map(table => {
+        if (table.totalRows <= rowLimit) {
+            return table;
+        }
+        truncated = true;
+        return { ...table, rows: table.rows.slice(0, rowLimit), totalRows: rowLimit };
+    });
+    return { tables: result, truncated };
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { autorun } from '@vscode/observables';
+import { QueryExecution, QueryOutcome } from './queryExecution';
+import { formatResult, getExportFormatForFileExt, getOutputFileName, getWebEditorUrl } from './resultExport';
+
+/**
+ * Implements `:setOutput`: once an execution succeeds, its results are written
+ * next to the query document, and `webEditorUrl` offers to open them in a web editor.
+ */
+export function handleResultOutput(execution: QueryExecution): void {
+    const output = execution.query.output;
+    if (!output?.fileExt && !output?.webEditorUrl) {
+        return;
+    }
+
+    const disposable = autorun(reader => {
+        const outcome = execution.outcome.read(reader);
+        if (!outcome) {
+            return;
+        }
+        // Defer: the autorun is not yet assigned when the outcome is already known
+        queueMicrotask(() => disposable.dispose());
+        if (outcome.kind === 'success') {
+            void writeResultOutput(execution, outcome);
+        }
+    });
+}
+
+async function writeResultOutput(execution: QueryExecution, outcome: QueryOutcome & { kind: 'success' }): Promise<void> {
+    const { output, source } = execution.query;
+
+    if (output?.fileExt && source) {
+        const documentUri = vscode.Uri.parse(source.documentUri);
+        const documentFileName = documentUri.path.split('/').pop() ?? 'results';
+        const format = getExportFormatForFileExt(output.fileExt);
+        // The first table keeps the plain file name; additional tables get their name appended
+        for (const [index, table] of outcome.result.tables.entries()) {
+            const fileName = getOutputFileName(documentFileName, source.chapterTitle, output.fileExt, index === 0 ? undefined : table.name);
+            const target = vscode.Uri.joinPath(documentUri, '..', fileName);
+            try {
+                await vscode.workspace.fs.writeFile(target, Buffer.from(formatResult(table, format), 'utf8'));
+                vscode.window.setStatusBarMessage(`Kusto: Results written to ${fileName}`, 5000);
+            } catch (e) {
+                vscode.window.showErrorMessage(`Failed to write results to ${fileName}: ${e}`);
+            }
+        }
+    }
+
+    if (output?.webEditorUrl) {
+        const action = await vscode.window.showInformationMessage(
+            `Query returned ${outcome.result.tables[0]?.rows.length ?? 0} rows.`,
+            'Open in web editor'
+        );
+        if (action) {
+            await openInWebEditor(execution);
+        }
+    }
+}
+
+/**
+ * Open the results of an execution in the web editor configured via `:setOutput({ webEditorUrl })`.
+ */
+export async function openInWebEditor(execution: QueryExecution): Promise<void> {
+    const result = await execution.loadResult();
+    const template = execution.query.output?.webEditorUrl;
+    if (!template || !result) {
+        return;
+    }
+
+    const table = result.tables[0];
+    const rows = table?.rows ?? [];
+    const { url, rowCount } = getWebEditorUrl(template, {
+        query: execution.query.originalQuery,
+        cluster: execution.query.cluster,
+        database: execution.query.database,
+        columns: table?.columns ?? [],
+        columnTypes: table?.columnTypes,
+        totalRows: table?.totalRows ?? 0,
+    }, rows);
+    await vscode.env.openExternal(vscode.Uri.parse(url, true));
+
+    if (rowCount < rows.length) {
+        vscode.window.showInformationMessage(
+            `Only the first ${rowCount} of ${rows.length} rows fit into the web editor URL. Use :setOutput({ fileExt }) to save all rows to a file.`
+        );
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'vitest';
+import { findLatestExecution, formatLastRun, formatResultPreview } from './resultPreview';
+import { QueryExecution, QueryOutcome } from './queryExecution';
+
+function createExecution(id: string, originalQuery: string, elapsedMs: number, outcome: QueryOutcome): QueryExecution {
+    return QueryExecution.restore({
+        id,
+        query: { cluster: 'c', database: 'd', originalQuery, source: { documentUri: 'file:///queries.kql' } },
+        startTime: 0,
+        endTime: elapsedMs,
+        outcome,
+    });
+}
+
+function success(columns: string[], rows: unknown[][], truncatedAt?: number): QueryOutcome {
+    return { kind: 'success', result: { tables: [{ name: 'PrimaryResult', columns, rows, totalRows: rows.length }], resolvedQuery: '', truncatedAt } };
+}
+
+describe('result preview', () => {
+    test('formats the outcome of an execution', () => {
+        const executions = [
+            createExecution('1', 'T | take 2', 1234, success(['a', 'b'], [[1, 2], [3, 4]])),
+            createExecution('2', 'T | count', 80, success(['Count'], [[523]])),
+            createExecution('3', 'T | take 50000', 65000, success(['a'], [[1], [2]], 2)),
+            createExecution('4', 'T | where', 300, { kind: 'error', error: { message: 'Syntax error: unexpected end of query\nat line 1', resolvedQuery: '' } }),
+            createExecution('5', 'T', 2000, { kind: 'cancelled' }),
+        ];
+        expect(executions.map(e => `${formatResultPreview(e)} | ${formatLastRun(e)}`)).toMatchInlineSnapshot(`
+          [
+            "2 rows · 1.2s | last run: 1.2s, 2 rows",
+            "= 523 · 80ms | last run: 80ms, 1 row",
+            "2+ rows · 1m 5s | last run: 1m 5s, 2+ rows",
+            "✖ Syntax error: unexpected end of query | last run: 300ms, failed",
+            "cancelled after 2.0s | last run: 2.0s, cancelled",
+          ]
+        `);
+    });
+
+    test('finds the latest execution of a fragment', () => {
+        const executions = [
+            createExecution('new', 'T | count', 10, success(['Count'], [[2]])),
+            createExecution('old', 'T | count', 10, success(['Count'], [[1]])),
+        ];
+        expect(findLatestExecution(executions, 'file:///queries.kql', 'T | count')?.id).toBe('new');
+        expect(findLatestExecution(executions, 'file:///other.kql', 'T | count')).toBeUndefined();
+        expect(findLatestExecution(executions, 'file:///queries.kql', 'T | count ')).toBeUndefined();
+    });
+});
@@ -0,0 +1,92 @@
+import { QueryExecution } from './queryExecution';
+
+/** Longest scalar value or error message shown inline */
+const MAX_PREVIEW_LENGTH = 60;
+
+/**
+ * Find the most recent execution of a fragment, by the document it was run from and its text.
+ * Editing the fragment makes it a different query, so its earlier executions no longer match.
+ */
+export function findLatestExecution(executions: readonly QueryExecution[], documentUri: string, fragmentText: string): QueryExecution | undefined {
+    // Executions are ordered most recent first
+    return executions.find(e => e.query.source?.documentUri === documentUri && e.query.originalQuery === fragmentText);
+}
+
+/**
+ * Get the inline preview of an execution, shown at the end of the executed fragment:
+ * the value of single-cell results, the row count otherwise, or the error summary.
+ */
+export function formatResultPreview(execution: QueryExecution): string {
+    const outcome = execution.outcome.get();
+    const elapsed = formatElapsed(execution);
+    switch (outcome?.kind) {
+        case undefined:
+            return 'running…';
+        case 'cancelled':
+            return `cancelled after ${elapsed}`;
+        case 'error':
+            return `✖ ${truncate(outcome.error.message.split('\n')[0].trim())}`;
+        case 'success': {
+            const tables = outcome.result.tables;
+            const table = tables[0];
+            if (tables.length === 1 && table.columns.length === 1 && table.totalRows === 1 && table.rows.length === 1) {
+                return `= ${truncate(formatValue(table.rows[0][0]))} · ${elapsed}`;
+            }
+            return `${formatRowCount(execution)} · ${elapsed}`;
+        }
+    }
+}
+
+/**
+ * Get the summary of an execution shown in the fragment's CodeLens, e.g. "last run: 1.2s, 523 rows".
+ */
+export function formatLastRun(execution: QueryExecution): string {
+    const outcome = execution.outcome.get();
+    switch (outcome?.kind) {
+        case undefined:
+            return 'running…';
+        case 'cancelled':
+            return `last run: ${formatElapsed(execution)}, cancelled`;
+        case 'error':
+            return `last run: ${formatElapsed(execution)}, failed`;
+        case 'success':
+            return `last run: ${formatElapsed(execution)}, ${formatRowCount(execution)}`;
+    }
+}
+
+function formatRowCount(execution: QueryExecution): string {
+    const outcome = execution.outcome.get();
+    if (outcome?.kind !== 'success') {
+        return '';
+    }
+    const rowCount = outcome.result.tables[0]?.totalRows ?? 0;
+    const suffix = outcome.result.truncatedAt !== undefined ? '+' : '';
+    return `${rowCount}${suffix} ${rowCount === 1 && !suffix ? 'row' : 'rows'}`;
+}
+
+function formatElapsed(execution: QueryExecution): string {
+    const endTime = execution.endTime.get();
+    if (!endTime) {
+        return '';
+    }
+    const ms = endTime.getTime() - execution.startTime.getTime();
+    if (ms < 1000) {
+        return `${ms}ms`;
+    }
+    if (ms < 60000) {
+        return `${(ms / 1000).toFixed(1)}s`;
+    }
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_PREVIEW_LENGTH ? text.substring(0, MAX_PREVIEW_LENGTH - 1) + '…' : text;
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { autorun } from '@vscode/observables';
+import { Disposable } from '../utils/disposables';
+import { QueryHistoryModel } from './queryHistoryModel';
+import { ResultRowStorage } from './queryExecution';
+
+/** Results with fewer rows stay in memory */
+const SPILL_MIN_ROWS = 1000;
+/** Time an execution must stay unselected before its rows are spilled */
+const SPILL_DELAY_MS = 10000;
+
+/**
+ * Stores result rows as one JSON file per execution.
+ */
+export class FileResultRowStorage implements ResultRowStorage {
+    constructor(private readonly _directory: vscode.Uri) { }
+
+    async write(id: string, rows: readonly (readonly unknown[][])[]): Promise<number> {
+        const content = Buffer.from(JSON.stringify(rows), 'utf8');
+        await vscode.workspace.fs.createDirectory(this._directory);
+        await vscode.workspace.fs.writeFile(this._getUri(id), content);
+        return content.byteLength;
+    }
+
+    async read(id: string): Promise<unknown[][][]> {
+        const content = await vscode.workspace.fs.readFile(this._getUri(id));
+        return JSON.parse(Buffer.from(content).toString('utf8'));
+    }
+
+    async prune(keepIds: ReadonlySet<string>): Promise<void> {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(this._directory);
+        } catch {
+            return;
+        }
+        for (const [name] of entries) {
+            const id = name.replace(/\.json$/, '');
+            if (!keepIds.has(id)) {
+                await vscode.workspace.fs.delete(vscode.Uri.joinPath(this._directory, name)).then(undefined, () => { });
+            }
+        }
+    }
+
+    private _getUri(id: string): vscode.Uri {
+        return vscode.Uri.joinPath(this._directory, `${id.replace(/[^\w-]/g, '_')}.json`);
+    }
+}
+
+/**
+ * Spills the rows of large results to storage when their execution is not selected,
+ * so only the shown result keeps its rows in memory.
+ */
+export class ResultRowSpilling extends Disposable {
+    private _spillTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(
+        private readonly _historyModel: QueryHistoryModel,
+        private readonly _storage: ResultRowStorage
+    ) {
+        super();
+
+        this._register(autorun(reader => {
+            for (const execution of this._historyModel.executions.read(reader)) {
+                execution.outcome.read(reader);
+            }
+            this._historyModel.selectedId.read(reader);
+            this._scheduleSpill();
+        }));
+
+        this._register({ dispose: () => clearTimeout(this._spillTimeout) });
+    }
+
+    private _scheduleSpill(): void {
+        clearTimeout(this._spillTimeout);
+        this._spillTimeout = setTimeout(() => this._spill(), SPILL_DELAY_MS);
+    }
+
+    private async _spill(): Promise<void> {
+        const selectedId = this._historyModel.selectedId.get();
+        for (const execution of this._historyModel.executions.get()) {
+            const outcome = execution.outcome.get();
+            if (execution.id === selectedId || outcome?.kind !== 'success') {
+                continue;
+            }
+            const rowCount = outcome.result.tables.reduce((sum, table) => sum + table.rows.length, 0);
+            if (rowCount < SPILL_MIN_ROWS) {
+                continue;
+            }
+            try {
+                await execution.spillRows(this._storage);
+            } catch (e) {
+                console.error(`[QueryHistory] Failed to spill rows of ${execution.id}:`, e);
+            }
+        }
+    }
+}
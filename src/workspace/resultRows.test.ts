@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { ResultRowSource, compareValues, matchesFilter } from './resultRows';
+
+const table = {
+    columns: ['Name', 'Count', 'Props'],
+    columnTypes: ['string', 'long', 'dynamic'],
+    rows: [
+        ['b', 10, { level: 'warning' }],
+        ['a', '9007199254740993', { level: 'error' }],
+        ['c', null, null],
+        ['d', 2, { level: 'error' }],
+    ],
+};
+
+describe('ResultRowSource', () => {
+    test('returns ranges of the original rows', () => {
+        const source = new ResultRowSource(table);
+        expect(source.getRows({ startRow: 1, endRow: 3 })).toMatchInlineSnapshot(`
+          {
+            "rowCount": 4,
+            "rows": [
+              [
+                "a",
+                "9007199254740993",
+                {
+                  "level": "error",
+                },
+              ],
+              [
+                "c",
+                null,
+                null,
+              ],
+            ],
+          }
+        `);
+    });
+
+    test('sorts and filters before taking the range', () => {
+        const source = new ResultRowSource(table);
+        const window = source.getRows({
+            startRow: 0,
+            endRow: 10,
+            sortModel: [{ colId: 'Count', sort: 'desc' }],
+            filterModel: { Props: { filterType: 'text', type: 'contains', filter: 'ERROR' } },
+        });
+        expect(window.rowCount).toBe(2);
+        expect(window.rows.map(r => r[0])).toEqual(['a', 'd']);
+    });
+});
+
+describe('compareValues', () => {
+    test('compares longs exactly and puts empty values first', () => {
+        expect([
+            compareValues('9007199254740993', '9007199254740992', 'long'),
+            compareValues(null, 1, 'long'),
+            compareValues('10', '9', 'real'),
+            compareValues('10', '9', 'string'),
+        ]).toEqual([1, -1, 1, -1]);
+    });
+});
+
+describe('matchesFilter', () => {
+    test('combines number conditions', () => {
+        const filter = {
+            filterType: 'number' as const,
+            operator: 'OR' as const,
+            conditions: [
+                { filterType: 'number' as const, type: 'lessThan', filter: 3 },
+                { filterType: 'number' as const, type: 'inRange', filter: 9, filterTo: 11 },
+            ],
+        };
+        expect([2, 5, 10, null].map(v => matchesFilter(v, filter))).toEqual([true, false, true, false]);
+    });
+});
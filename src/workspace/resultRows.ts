@@ -0,0 +1,191 @@
+import { ResultTable } from './queryExecution';
+
+/**
+ * Sort of a column, as requested by the grid (most significant first).
+ */
+export interface RowSortModelItem {
+    readonly colId: string;
+    readonly sort: 'asc' | 'desc';
+}
+
+/**
+ * Filter of a column, in the format of the grid's text and number filters.
+ * Filters with two conditions combine them with `operator`.
+ */
+export interface ColumnFilter {
+    readonly filterType?: 'text' | 'number';
+    readonly type?: string;
+    readonly filter?: string | number | null;
+    readonly filterTo?: number | null;
+    readonly operator?: 'AND' | 'OR';
+    readonly conditions?: readonly ColumnFilter[];
+}
+
+/**
+ * A range of rows requested by the results view.
+ */
+export interface RowRequest {
+    readonly startRow: number;
+    readonly endRow: number;
+    readonly sortModel?: readonly RowSortModelItem[];
+    /** Filter per column name */
+    readonly filterModel?: Readonly<Record<string, ColumnFilter>>;
+}
+
+/**
+ * The requested rows and the number of rows that match the filter.
+ */
+export interface RowWindow {
+    readonly rows: unknown[][];
+    readonly rowCount: number;
+}
+
+const INTEGER_TYPES = new Set(['int', 'long']);
+const NUMERIC_TYPES = new Set(['int', 'long', 'real', 'decimal']);
+
+/**
+ * Serves ranges of the rows of a result table, sorted and filtered as requested.
+ * The row order of the last sort and filter is kept, so paging through it doesn't sort again.
+ */
+export class ResultRowSource {
+    private _orderKey: string | undefined;
+    private _order: number[] | undefined;
+
+    constructor(private readonly _table: Pick<ResultTable, 'columns' | 'columnTypes' | 'rows'>) { }
+
+    getRows(request: RowRequest): RowWindow {
+        const order = this._getOrder(request.sortModel ?? [], request.filterModel ?? {});
+        const rows = this._table.rows;
+        const range = order
+            ? order.slice(request.startRow, request.endRow).map(i => rows[i])
+            : rows.slice(request.startRow, request.endRow);
+        return { rows: range, rowCount: order ? order.length : rows.length };
+    }
+
+    /** Get the indexes of the matching rows in sort order, or undefined for all rows in their original order. */
+    private _getOrder(sortModel: readonly RowSortModelItem[], filterModel: Readonly<Record<string, ColumnFilter>>): number[] | undefined {
+        const filters = Object.entries(filterModel).filter(([column]) => this._table.columns.includes(column));
+        const sorts = sortModel.filter(s => this._table.columns.includes(s.colId));
+        if (filters.length === 0 && sorts.length === 0) {
+            return undefined;
+        }
+
+        const key = JSON.stringify([sorts, filters]);
+        if (key === this._orderKey && this._order) {
+            return this._order;
+        }
+
+        const { columns, columnTypes, rows } = this._table;
+        let order = rows.map((_, i) => i);
+        for (const [column, filter] of filters) {
+            const index = columns.indexOf(column);
+            order = order.filter(i => matchesFilter(rows[i][index], filter));
+        }
+        if (sorts.length > 0) {
+            const comparers = sorts.map(s => {
+                const index = columns.indexOf(s.colId);
+                const type = columnTypes?.[index];
+                const direction = s.sort === 'desc' ? -1 : 1;
+                return (a: number, b: number) => direction * compareValues(rows[a][index], rows[b][index], type);
+            });
+            // Ties keep the original row order
+            order.sort((a, b) => {
+                for (const compare of comparers) {
+                    const result = compare(a, b);
+                    if (result !== 0) {
+                        return result;
+                    }
+                }
+                return a - b;
+            });
+        }
+
+        this._orderKey = key;
+        this._order = order;
+        return order;
+    }
+}
+
+/**
+ * Compare two cell values of a column; empty values come first.
+ * Integers are compared exactly, as longs beyond the double range are strings.
+ */
+export function compareValues(a: unknown, b: unknown, type: string | undefined): number {
+    const aEmpty = a === null || a === undefined || a === '';
+    const bEmpty = b === null || b === undefined || b === '';
+    if (aEmpty || bEmpty) {
+        return aEmpty === bEmpty ? 0 : aEmpty ? -1 : 1;
+    }
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b;
+    }
+    if (type && INTEGER_TYPES.has(type)) {
+        try {
+            const difference = BigInt(String(a)) - BigInt(String(b));
+            return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+        } catch {
+            // Not an integer literal after all
+        }
+    }
+    if (type && NUMERIC_TYPES.has(type)) {
+        return Number(a) - Number(b);
+    }
+    const aText = toText(a);
+    const bText = toText(b);
+    return aText < bText ? -1 : aText > bText ? 1 : 0;
+}
+
+/**
+ * Whether a cell value passes a column filter.
+ * Text filters compare case-insensitively with the text of the value (JSON for dynamic values).
+ */
+export function matchesFilter(value: unknown, filter: ColumnFilter): boolean {
+    if (filter.conditions && filter.conditions.length > 0) {
+        return filter.operator === 'OR'
+            ? filter.conditions.some(c => matchesFilter(value, c))
+            : filter.conditions.every(c => matchesFilter(value, c));
+    }
+
+    const isBlank = value === null || value === undefined || value === '';
+    if (filter.type === 'blank') {
+        return isBlank;
+    }
+    if (filter.type === 'notBlank') {
+        return !isBlank;
+    }
+    if (filter.filter === undefined || filter.filter === null) {
+        return true;
+    }
+
+    if (filter.filterType === 'number') {
+        if (isBlank) {
+            return false;
+        }
+        const number = Number(value);
+        const expected = Number(filter.filter);
+        switch (filter.type) {
+            case 'notEqual': return number !== expected;
+            case 'lessThan': return number < expected;
+            case 'lessThanOrEqual': return number <= expected;
+            case 'greaterThan': return number > expected;
+            case 'greaterThanOrEqual': return number >= expected;
+            case 'inRange': return number >= expected && number <= Number(filter.filterTo);
+            default: return number === expected;
+        }
+    }
+
+    const text = isBlank ? '' : toText(value).toLowerCase();
+    const expected = String(filter.filter).toLowerCase();
+    switch (filter.type) {
+        case 'notContains': return !text.includes(expected);
+        case 'equals': return text === expected;
+        case 'notEqual': return text !== expected;
+        case 'startsWith': return text.startsWith(expected);
+        case 'endsWith': return text.endsWith(expected);
+        default: return text.includes(expected);
+    }
+}
+
+function toText(value: unknown): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
@@ -7,7 +7,16 @@ import {
     QueryHistoryModel,
     QueryExecution,
     getExecutionFullData,
+    getQueryService,
 } from './queryHistoryModel';
+import { PartialQueryResult, ResultTable } from './queryExecution';
+import { ResultRowSource, RowRequest, RowWindow } from './resultRows';
+import { ResultComparison, compareResults } from './resultCompare';
+import { exportFormats, formatResult, getExportFormatForFileExt } from './resultExport';
+import { handleResultOutput, openInWebEditor } from './resultOutput';
+
+/** Rows of a comparison sent to the webview; differences come first */
+const MAX_COMPARISON_ROWS = 5000;
 
 /**
  * Content provider for readonly ejected JSON documents.
@@ -45,6 +54,10 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
     private readonly _devServerUrl: string | undefined;
     private _ejectedUri?: vscode.Uri;
     private _ejectedContentProvider: EjectedJsonContentProvider;
+    /** Rows of the streaming execution already sent to the webview, per table */
+    private _sentPartialRows?: { id: string; tables: { rows: readonly unknown[][]; count: number }[] };
+    /** Sorted and filtered rows of the table the webview pages through */
+    private _rowSource?: { id: string; table: ResultTable; source: ResultRowSource };
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
@@ -64,6 +77,13 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
             this._ejectedContentProvider
         ));
 
+        this._register(vscode.commands.registerCommand('kusto.exportResults', () => this._exportResults(this._historyModel.selectedId.get())));
+        this._register(vscode.commands.registerCommand('kusto.showHistoryItem', (id: string) => {
+            this._historyModel.setSelectedId(id);
+            vscode.commands.executeCommand('kusto.resultsView.focus');
+            this.reveal();
+        }));
+
         // Listen for editor close events
         this._register(vscode.window.onDidChangeVisibleTextEditors(editors => {
             if (this._ejectedUri && !editors.some(e => e.document.uri.toString() === this._ejectedUri?.toString())) {
@@ -76,10 +96,25 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
         const disposable = autorun(reader => {
             const executions = this._historyModel.executions.read(reader);
             const selectedId = this._historyModel.selectedId.read(reader);
+            // Don't keep the rows of unselected results in memory, so they can be spilled
+            if (this._rowSource && this._rowSource.id !== selectedId) {
+                this._rowSource = undefined;
+            }
             this._syncHistoryToWebview(executions, selectedId);
         });
         this._register({ dispose: () => disposable.dispose() });
 
+        // Send the rows of the selected execution while they stream in
+        const partialDisposable = autorun(reader => {
+            const selectedId = this._historyModel.selectedId.read(reader);
+            const execution = selectedId ? this._historyModel.getExecution(selectedId) : undefined;
+            const partialResult = execution?.partialResult.read(reader);
+            if (execution && partialResult) {
+                this._syncPartialResultToWebview(execution.id, partialResult);
+            }
+        });
+        this._register({ dispose: () => partialDisposable.dispose() });
+
         // Also sync when individual execution outcomes change
         this._historyModel.setOnExecutionChanged(() => {
             const executions = this._historyModel.executions.get();
@@ -100,6 +135,34 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
         });
     }
 
+    /**
+     * Send the rows that arrived since the last update; all rows if the webview doesn't have the previous ones.
+     */
+    private _syncPartialResultToWebview(id: string, partialResult: PartialQueryResult): void {
+        if (!this._view) return;
+
+        const sent = this._sentPartialRows?.id === id ? this._sentPartialRows.tables : [];
+        const tables = partialResult.tables.map((table, index) => {
+            // Rows are replaced (not appended) by some frames
+            const offset = sent[index]?.rows === table.rows ? sent[index].count : 0;
+            return {
+                name: table.name,
+                columns: table.columns,
+                columnTypes: table.columnTypes,
+                totalRows: table.totalRows,
+                offset,
+                rows: table.rows.slice(offset),
+            };
+        });
+        this._sentPartialRows = { id, tables: partialResult.tables.map(t => ({ rows: t.rows, count: t.rows.length })) };
+
+        this._view.webview.postMessage({
+            type: 'partialResult',
+            id,
+            tables,
+        });
+    }
+
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
         _context: vscode.WebviewViewResolveContext,
@@ -120,6 +183,7 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
         const executions = this._historyModel.executions.get();
         const selectedId = this._historyModel.selectedId.get();
         this._syncHistoryToWebview(executions, selectedId);
+        this._sentPartialRows = undefined;
 
         // Handle messages from the webview
         webviewView.webview.onDidReceiveMessage(
@@ -134,14 +198,41 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
                     await this._updateEjectedEditor(message.json);
                 } else if (message.type === 'selectHistoryItem') {
                     this._historyModel.setSelectedId(message.id);
+                    // The webview drops streamed rows when another execution is shown
+                    const partialResult = this._historyModel.getExecution(message.id)?.partialResult.get();
+                    if (partialResult) {
+                        this._sentPartialRows = undefined;
+                        this._syncPartialResultToWebview(message.id, partialResult);
+                    }
+                } else if (message.type === 'setPinned') {
+                    this._historyModel.setPinned(message.id, !!message.pinned);
+                } else if (message.type === 'compareResults') {
+                    const comparison = await this._compareResults(message.baseId, message.otherId, message.keyColumns ?? []);
+                    this._view?.webview.postMessage({
+                        type: 'comparison',
+                        baseId: message.baseId,
+                        otherId: message.otherId,
+                        data: comparison,
+                    });
                 } else if (message.type === 'deleteHistoryItem') {
                     this._historyModel.deleteExecution(message.id);
+                } else if (message.type === 'exportResults') {
+                    await this._exportResults(message.id, message.tableIndex);
+                } else if (message.type === 'openInWebEditor') {
+                    const execution = this._historyModel.getExecution(message.id);
+                    if (execution) {
+                        await openInWebEditor(execution);
+                    }
+                } else if (message.type === 'fetchMore') {
+                    this._fetchMore(message.id, message.rowLimit);
                 } else if (message.type === 'clearHistory') {
                     this._historyModel.clearAll();
                 } else if (message.type === 'requestFullData') {
-                    // Request full result data for a specific execution
+                    // Request the result tables of a specific execution; rows are requested in ranges
                     const execution = this._historyModel.getExecution(message.id);
                     if (execution) {
+                        // Rows spilled to disk are needed for paging anyway
+                        await execution.loadResult();
                         const fullData = getExecutionFullData(execution);
                         this._view?.webview.postMessage({
                             type: 'fullData',
@@ -149,6 +240,13 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
                             data: fullData,
                         });
                     }
+                } else if (message.type === 'requestRows') {
+                    const rowWindow = await this._getRows(message.id, message.tableIndex, message);
+                    this._view?.webview.postMessage({
+                        type: 'rows',
+                        requestId: message.requestId,
+                        ...rowWindow,
+                    });
                 }
             },
             null,
@@ -156,6 +254,54 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
         );
     }
 
+    /**
+     * Run a truncated query again with a higher row limit; the new execution is added to history.
+     */
+    private _fetchMore(id: string, rowLimit: number): void {
+        const execution = this._historyModel.getExecution(id);
+        const rerun = execution && typeof rowLimit === 'number' ? getQueryService().fetchMore(execution, rowLimit) : undefined;
+        if (!rerun) {
+            vscode.window.showInformationMessage('This query is from a previous session. Run it again from its document to fetch more rows.');
+            return;
+        }
+        this._historyModel.addExecution(rerun);
+        handleResultOutput(rerun);
+    }
+
+    /**
+     * Compare the first result tables of two executions, aligning rows by the key columns.
+     */
+    private async _compareResults(baseId: string, otherId: string, keyColumns: string[]): Promise<(ResultComparison & { rowsOmitted: number }) | { error: string }> {
+        const [base, other] = await Promise.all([baseId, otherId].map(id => this._historyModel.getExecution(id)?.loadResult()));
+        const baseTable = base?.tables[0];
+        const otherTable = other?.tables[0];
+        if (!baseTable || !otherTable) {
+            return { error: 'Both executions need a successful result to compare.' };
+        }
+
+        const comparison = compareResults(baseTable, otherTable, keyColumns);
+        const rows = [
+            ...comparison.rows.filter(r => r.kind !== 'unchanged'),
+            ...comparison.rows.filter(r => r.kind === 'unchanged'),
+        ].slice(0, MAX_COMPARISON_ROWS);
+        return { ...comparison, rows, rowsOmitted: comparison.rows.length - rows.length };
+    }
+
+    /**
+     * Get a range of the rows of a result table, sorted and filtered host-side.
+     */
+    private async _getRows(id: string, tableIndex: number, request: RowRequest): Promise<RowWindow> {
+        const result = await this._historyModel.getExecution(id)?.loadResult();
+        const table = result?.tables[tableIndex];
+        if (!table) {
+            return { rows: [], rowCount: 0 };
+        }
+        if (this._rowSource?.table !== table) {
+            this._rowSource = { id, table, source: new ResultRowSource(table) };
+        }
+        return this._rowSource.source.getRows(request);
+    }
+
     private async _openEjectedEditor(json: string) {
         // Create a unique URI for this ejected document
         this._ejectedUri = vscode.Uri.parse(`${ResultsViewProvider.ejectedScheme}:Kusto Selection.json`);
@@ -175,6 +321,62 @@ export class ResultsViewProvider extends Disposable implements vscode.WebviewVie
         this._ejectedContentProvider.update(this._ejectedUri, json);
     }
 
+    /**
+     * Export a result table of an execution to a file.
+     * The format defaults to the `fileExt` configured via `:setOutput`.
+     * Without a table index, the user picks one if the query returned several tables.
+     */
+    private async _exportResults(id: string | null, tableIndex?: number): Promise<void> {
+        const execution = id ? this._historyModel.getExecution(id) : undefined;
+        const result = await execution?.loadResult();
+        if (!execution || !result || result.tables.length === 0) {
+            vscode.window.showWarningMessage('No query results to export.');
+            return;
+        }
+
+        const tables = result.tables;
+        let table = tableIndex !== undefined ? tables[tableIndex] : tables.length === 1 ? tables[0] : undefined;
+        if (!table) {
+            const pickedTable = await vscode.window.showQuickPick(
+                tables.map(t => ({ label: t.name, description: `${t.rows.length} rows`, table: t })),
+                { placeHolder: 'Select result table to export' }
+            );
+            if (!pickedTable) {
+                return;
+            }
+            table = pickedTable.table;
+        }
+
+        const defaultFormat = getExportFormatForFileExt(execution.query.output?.fileExt);
+        const picked = await vscode.window.showQuickPick(
+            [...exportFormats]
+                .sort((a, b) => (a.format === defaultFormat ? -1 : b.format === defaultFormat ? 1 : 0))
+                .map(f => ({ label: f.label, description: `.${f.extension}`, info: f })),
+            { placeHolder: 'Select export format' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `results.${picked.info.extension}`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(fileName),
+            filters: { [picked.info.label]: [picked.info.extension] },
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = formatResult(table, picked.info.format);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+
+        const action = await vscode.window.showInformationMessage(`Exported ${table.rows.length} rows to ${path.basename(target.fsPath)}.`, 'Open');
+        if (action === 'Open') {
+            await vscode.window.showTextDocument(target);
+        }
+    }
+
     /**
      * Reveal the results panel
      */
@@ -2,7 +2,8 @@ import * as vscode from 'vscode';
 import { Disposable } from '../utils/disposables';
 import { MutableProject } from '../language/workspace/mutableProject';
 import { AkustoDocument } from '../language/akusto/akustoDocument';
-import { extractConnection } from './languageServiceResolver';
+import { extractAllowDestructiveCommands, extractConnection, extractOutputConfig, extractQueryOptions } from './languageServiceResolver';
+import { getManagementCommandText, getManagementCommandVerb, isDestructiveCommand } from './managementCommands';
 import { ResultsViewProvider } from './resultsViewProvider';
 import { QueryHistoryModel, getQueryService } from './queryHistoryModel';
 
@@ -126,14 +127,30 @@ export class RunQueryTool extends Disposable {
             ]);
         }
 
+        // Destructive management commands only run where the document opted in
+        const commandVerb = getManagementCommandVerb(lastFragment.text);
+        if (commandVerb && isDestructiveCommand(commandVerb) && !extractAllowDestructiveCommands(resolved.instructions)) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(
+                    `The destructive command ${commandVerb} was not run. ` +
+                    'Destructive management commands require the :allowDestructiveCommands(true) instruction.'
+                )
+            ]);
+        }
+
         // Execute the query via QueryService
         const queryService = getQueryService();
         const execution = queryService.execute(
             cluster,
             database,
             `[AI] ${queryTitle}`,
-            resolved.virtualText,
-            authType
+            commandVerb ? getManagementCommandText(resolved.virtualText) : resolved.virtualText,
+            authType,
+            {
+                output: extractOutputConfig(resolved.instructions),
+                queryOptions: extractQueryOptions(resolved.instructions),
+                isManagementCommand: commandVerb !== undefined,
+            }
         );
 
         // Add to history
@@ -183,52 +200,74 @@ export class RunQueryTool extends Disposable {
                 ]);
             }
 
-            // Convert result to JSON
-            const rows = result.result.rows.map(row => {
-                const obj: Record<string, unknown> = {};
-                result.result.columns.forEach((col, i) => {
-                    obj[col] = row[i];
+            // Build response; the JSON budget is shared by all result tables
+            const tables = result.result.tables;
+            const maxTableJsonLength = Math.floor(MAX_JSON_LENGTH / Math.max(tables.length, 1));
+            let response = `Query executed successfully.\n\n`;
+            response += `**Cluster:** ${cluster}\n`;
+            response += `**Database:** ${database}\n`;
+            if (tables.length > 1) {
+                response += `**Result tables:** ${tables.length}\n`;
+            }
+            if (result.result.truncatedAt !== undefined) {
+                response += `⚠️ **Row limit reached:** only the first ${result.result.truncatedAt} rows were fetched; use \`take\`, filters or aggregations to narrow the query down.\n`;
+            }
+            let anyTruncated = false;
+
+            for (const table of tables) {
+                // Convert result to JSON
+                const rows = table.rows.map(row => {
+                    const obj: Record<string, unknown> = {};
+                    table.columns.forEach((col, i) => {
+                        obj[col] = row[i];
+                    });
+                    return obj;
                 });
-                return obj;
-            });
-
-            let jsonResult = JSON.stringify(rows, null, 2);
-            let truncated = false;
-            let displayedRowCount = rows.length;
-
-            if (jsonResult.length > MAX_JSON_LENGTH) {
-                // Truncate and indicate
-                const truncatedRows: Record<string, unknown>[] = [];
-                let currentLength = 2; // for "[]"
-
-                for (const row of rows) {
-                    const rowJson = JSON.stringify(row, null, 2);
-                    if (currentLength + rowJson.length + 3 > MAX_JSON_LENGTH - 100) {
-                        break;
+
+                let jsonResult = JSON.stringify(rows, null, 2);
+                let truncated = false;
+                let displayedRowCount = rows.length;
+
+                if (jsonResult.length > maxTableJsonLength) {
+                    // Truncate and indicate
+                    const truncatedRows: Record<string, unknown>[] = [];
+                    let currentLength = 2; // for "[]"
+
+                    for (const row of rows) {
+                        const rowJson = JSON.stringify(row, null, 2);
+                        if (currentLength + rowJson.length + 3 > maxTableJsonLength - 100) {
+                            break;
+                        }
+                        truncatedRows.push(row);
+                        currentLength += rowJson.length + 3; // comma and newlines
                     }
-                    truncatedRows.push(row);
-                    currentLength += rowJson.length + 3; // comma and newlines
+
+                    jsonResult = JSON.stringify(truncatedRows, null, 2);
+                    truncated = true;
+                    anyTruncated = true;
+                    displayedRowCount = truncatedRows.length;
                 }
 
-                jsonResult = JSON.stringify(truncatedRows, null, 2);
-                truncated = true;
-                displayedRowCount = truncatedRows.length;
-            }
+                if (tables.length > 1) {
+                    response += `\n### ${table.name}\n\n`;
+                } else {
+                    response += `\n`;
+                }
+                response += `**Rows returned:** ${table.totalRows}\n`;
+                if (table.columnTypes) {
+                    response += `**Columns:** ${table.columns.map((col, i) => `${col} (${table.columnTypes![i]})`).join(', ')}\n`;
+                }
+                response += `\n`;
 
-            // Build response
-            let response = `Query executed successfully.\n\n`;
-            response += `**Cluster:** ${cluster}\n`;
-            response += `**Database:** ${database}\n`;
-            response += `**Rows returned:** ${result.result.totalRows}\n\n`;
+                if (truncated) {
+                    response += `⚠️ **Result truncated** (showing ${displayedRowCount} of ${table.totalRows} rows)\n\n`;
+                }
 
-            if (truncated) {
-                response += `⚠️ **Result truncated** (showing ${displayedRowCount} of ${result.result.totalRows} rows)\n\n`;
+                response += `\`\`\`json\n${jsonResult}\n\`\`\`\n`;
             }
 
-            response += `\`\`\`json\n${jsonResult}\n\`\`\``;
-
-            if (truncated) {
-                response += `\n\n*Full results available in the Kusto Results panel.*`;
+            if (anyTruncated) {
+                response += `\n*Full results available in the Kusto Results panel.*`;
             }
 
             return new vscode.LanguageModelToolResult([
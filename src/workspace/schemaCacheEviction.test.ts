@@ -0,0 +1,16 @@
+import { describe, test, expect } from 'vitest';
+import { getEvictedSchemas } from './schemaCacheEviction';
+
+describe('getEvictedSchemas', () => {
+    test('evicts old schemas and the least recently fetched ones beyond the maximum count', () => {
+        const entries = [
+            { name: 'a', fetchedAt: 900 },
+            { name: 'b', fetchedAt: 100 },
+            { name: 'c', fetchedAt: 700 },
+            { name: 'd', fetchedAt: 800 },
+        ];
+        expect(getEvictedSchemas(entries, 1000, 500, 10).map(e => e.name)).toEqual(['b']);
+        expect(getEvictedSchemas(entries, 1000, 500, 2).map(e => e.name)).toEqual(['c', 'b']);
+        expect(getEvictedSchemas(entries, 1000, 1000, 10)).toEqual([]);
+    });
+});
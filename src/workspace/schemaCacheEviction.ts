@@ -0,0 +1,18 @@
+/** Persisted schemas fetched longer ago are deleted */
+export const MAX_SCHEMA_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Number of persisted schemas kept; the least recently fetched ones are deleted */
+export const MAX_PERSISTED_SCHEMAS = 100;
+
+/**
+ * Get the persisted schemas to delete: those fetched more than `maxAgeMs` ago,
+ * and the least recently fetched ones beyond `maxCount`.
+ */
+export function getEvictedSchemas<T extends { readonly fetchedAt: number }>(
+    entries: readonly T[],
+    now: number,
+    maxAgeMs = MAX_SCHEMA_AGE_MS,
+    maxCount = MAX_PERSISTED_SCHEMAS
+): T[] {
+    const newestFirst = [...entries].sort((a, b) => b.fetchedAt - a.fetchedAt);
+    return newestFirst.filter((entry, i) => i >= maxCount || now - entry.fetchedAt > maxAgeMs);
+}
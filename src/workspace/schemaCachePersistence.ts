@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { Disposable } from '../utils/disposables';
+import { AuthType, getLanguageServiceCache } from '../connection';
+import { KustoSchema } from '../language/kusto/kustoLanguageService';
+import { getEvictedSchemas } from './schemaCacheEviction';
+
+const SCHEMAS_DIR_NAME = 'schemas';
+
+interface PersistedSchema {
+    /** ISO timestamp of when the schema was fetched from the cluster */
+    fetchedAt: string;
+    schema: KustoSchema;
+    /** Authentication the schema was fetched with; omitted when it contains secrets */
+    authType?: AuthType;
+}
+
+/**
+ * Persists fetched cluster schemas to extension storage, so completions work right
+ * after a restart. Restored schemas are revalidated in the background when used.
+ * Schemas that were not fetched for a long time, and the oldest ones beyond a maximum count, are deleted on restore.
+ * The authentication of each schema is stored with it, so restored schemas can be refetched the same way,
+ * except for connection strings with keys or tokens, which aren't written to storage.
+ */
+export class SchemaCachePersistence extends Disposable {
+    private readonly _dirUri: vscode.Uri;
+
+    constructor(storageUri: vscode.Uri) {
+        super();
+        this._dirUri = vscode.Uri.joinPath(storageUri, SCHEMAS_DIR_NAME);
+
+        this._register(getLanguageServiceCache().onDidFetchSchema((schema, fetchedAt, authType) => void this._save(schema, fetchedAt, authType)));
+
+        this._restore();
+    }
+
+    private async _restore(): Promise<void> {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(this._dirUri);
+        } catch {
+            return; // Nothing stored yet
+        }
+
+        // Files are written when the schema is fetched, so their modification time is the fetch time
+        const files: { uri: vscode.Uri; fetchedAt: number }[] = [];
+        for (const [name, type] of entries) {
+            if (type !== vscode.FileType.File || !name.endsWith('.json')) {
+                continue;
+            }
+            const uri = vscode.Uri.joinPath(this._dirUri, name);
+            try {
+                files.push({ uri, fetchedAt: (await vscode.workspace.fs.stat(uri)).mtime });
+            } catch {
+                // Deleted meanwhile
+            }
+        }
+
+        const evicted = new Set(getEvictedSchemas(files, Date.now()));
+        for (const { uri } of evicted) {
+            await vscode.workspace.fs.delete(uri).then(undefined, e => console.error(`[SchemaCache] Failed to delete ${uri.path}:`, e));
+        }
+
+        const cache = getLanguageServiceCache();
+        for (const file of files) {
+            if (evicted.has(file)) {
+                continue;
+            }
+            const name = file.uri.path.split('/').pop();
+            try {
+                const content = await vscode.workspace.fs.readFile(file.uri);
+                const persisted = JSON.parse(Buffer.from(content).toString('utf8')) as PersistedSchema;
+                cache.preload(persisted.schema, new Date(persisted.fetchedAt), persisted.authType);
+            } catch (e) {
+                console.error(`[SchemaCache] Failed to restore ${name}:`, e);
+            }
+        }
+    }
+
+    private async _save(schema: KustoSchema, fetchedAt: Date, authType: AuthType | undefined): Promise<void> {
+        const persisted: PersistedSchema = { fetchedAt: fetchedAt.toISOString(), schema, authType: authType && getPersistableAuthType(authType) };
+        try {
+            await vscode.workspace.fs.createDirectory(this._dirUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this._dirUri, getSchemaFileName(schema.cluster, schema.database)),
+                Buffer.from(JSON.stringify(persisted), 'utf8')
+            );
+        } catch (e) {
+            console.error(`[SchemaCache] Failed to save schema for ${schema.cluster}/${schema.database}:`, e);
+        }
+    }
+}
+
+/** File name for a cluster+database; hashed since cluster URLs aren't valid file names. */
+function getSchemaFileName(cluster: string, database: string): string {
+    const hash = createHash('sha1').update(`${cluster.toLowerCase()}|${database.toLowerCase()}`).digest('hex');
+    return `${hash}.json`;
+}
+
+/** Get an authentication that can be written to storage, or undefined if it has secrets (application keys, tokens). */
+function getPersistableAuthType(authType: AuthType): AuthType | undefined {
+    if (typeof authType === 'string') {
+        return authType;
+    }
+    const { appKey, userToken, appToken } = authType.connectionString;
+    return appKey || userToken || appToken ? undefined : authType;
+}
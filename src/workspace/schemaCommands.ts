@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { MutableProject } from '../language/workspace/mutableProject';
+import { Disposable } from '../utils/disposables';
+import { AuthType, getKustoClient, getLanguageServiceCache } from '../connection';
+import { extractConnection, refreshSchema } from './languageServiceResolver';
+
+/**
+ * Commands for working with cluster schemas.
+ * - kusto.snapshotSchema: Saves the schema of the active document's database to a JSON file for `:setSchema`
+ * - kusto.refreshSchema: Refetches the schema of the active document's database
+ * - kusto.refreshAllSchemas: Refetches all cached schemas, including the ones persisted by earlier sessions
+ */
+export class SchemaCommands extends Disposable {
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.commands.registerCommand('kusto.snapshotSchema', () => this._snapshotSchema()));
+        this._register(vscode.commands.registerCommand('kusto.refreshSchema', () => this._refreshSchema()));
+        this._register(vscode.commands.registerCommand('kusto.refreshAllSchemas', () => this._refreshAllSchemas()));
+    }
+
+    /**
+     * Get the connection of the query at the cursor in the active editor
+     * (chapters can have their own connection). Shows a warning if there is none.
+     */
+    private _getActiveConnection(): { editor: vscode.TextEditor; cluster: string; database: string; authType: AuthType } | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'kusto') {
+            vscode.window.showWarningMessage('No Kusto document active');
+            return undefined;
+        }
+
+        const akustoDoc = this.model.documents.get().get(editor.document.uri.toString());
+        if (!akustoDoc) {
+            vscode.window.showWarningMessage('Document not loaded');
+            return undefined;
+        }
+
+        const fragment = akustoDoc.getFragmentAt(editor.document.offsetAt(editor.selection.active)) ?? akustoDoc.fragments[0];
+        if (!fragment) {
+            vscode.window.showWarningMessage('No query in document');
+            return undefined;
+        }
+
+        const resolved = this.model.project.get().resolve(akustoDoc, fragment);
+        const { cluster, database, authType } = extractConnection(resolved.instructions);
+        if (!cluster || !database) {
+            vscode.window.showWarningMessage('No connection configured. Add :setConnection and :setDefaultDb instructions.');
+            return undefined;
+        }
+        return { editor, cluster, database, authType };
+    }
+
+    private async _refreshSchema(): Promise<void> {
+        const connection = this._getActiveConnection();
+        if (!connection) {
+            return;
+        }
+        const { cluster, database, authType } = connection;
+
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Refreshing schema of ${database}...` },
+            async () => {
+                try {
+                    await refreshSchema(cluster, database, authType);
+                    vscode.window.setStatusBarMessage(`Kusto: Schema of ${database} refreshed`, 5000);
+                } catch (e) {
+                    vscode.window.showErrorMessage(`Failed to refresh schema: ${e instanceof Error ? e.message : e}`);
+                }
+            }
+        );
+    }
+
+    private async _refreshAllSchemas(): Promise<void> {
+        const { refreshed, failed, skipped } = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Refreshing schemas...' },
+            () => getLanguageServiceCache().refreshAll((cluster, database, authType) => getKustoClient().getSchema(cluster, database, authType))
+        );
+
+        if (skipped > 0) {
+            vscode.window.showWarningMessage(`Refreshed ${refreshed} schemas, ${failed} failed, ${skipped} skipped. Run a query against a skipped database to refresh its schema.`);
+        } else if (failed > 0) {
+            vscode.window.showWarningMessage(`Refreshed ${refreshed} schemas, ${failed} failed.`);
+        } else {
+            vscode.window.setStatusBarMessage(`Kusto: Refreshed ${refreshed} schemas`, 5000);
+        }
+    }
+
+    private async _snapshotSchema(): Promise<void> {
+        const connection = this._getActiveConnection();
+        if (!connection) {
+            return;
+        }
+        const { editor, cluster, database, authType } = connection;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(editor.document.uri, '..', 'schema.json'),
+            filters: { 'JSON': ['json'] },
+        });
+        if (!target) {
+            return;
+        }
+
+        const schemaJson = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Fetching schema of ${database}...` },
+            async () => {
+                try {
+                    return await getKustoClient().getSchemaJson(cluster, database, authType);
+                } catch (e) {
+                    vscode.window.showErrorMessage(`Failed to fetch schema: ${e instanceof Error ? e.message : e}`);
+                    return undefined;
+                }
+            }
+        );
+        if (schemaJson === undefined) {
+            return;
+        }
+
+        const formatted = JSON.stringify(JSON.parse(schemaJson), null, 2) + '\n';
+        await vscode.workspace.fs.writeFile(target, Buffer.from(formatted, 'utf8'));
+
+        const relativePath = getRelativePath(editor.document.uri, target);
+        vscode.window.showInformationMessage(`Schema saved. Use :setSchema("${relativePath}") to work offline.`);
+    }
+}
+
+/** Path of the target relative to the directory of a document, e.g. `./schema.json`. */
+function getRelativePath(document: vscode.Uri, target: vscode.Uri): string {
+    const from = document.path.split('/').slice(0, -1);
+    const to = target.path.split('/');
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+        common++;
+    }
+    const up = from.length - common;
+    return (up === 0 ? './' : '../'.repeat(up)) + to.slice(common).join('/');
+}
@@ -0,0 +1,354 @@
+import * as vscode from 'vscode';
+import { autorun } from '@vscode/observables';
+import { Disposable } from '../utils/disposables';
+import { MutableProject } from '../language/workspace/mutableProject';
+import { AkustoDocument } from '../language/akusto/akustoDocument';
+import { Instruction } from '../language/akusto/ast';
+import { ResolvedInstruction } from '../language/akusto/instructionTypes';
+import { parseInstructionExpression } from '../language/akusto/instructionResolver';
+import { ColumnSchema, EntityGroupSchema, FunctionSchema, TableSchema } from '../language/kusto/kustoLanguageService';
+import { AuthType, getLanguageServiceCache } from '../connection';
+import { extractConnection, refreshSchema } from './languageServiceResolver';
+import { TableKind, getDatatableDeclaration, getFunctionSignature, getSampleQuery, getTableReference, quoteIdentifier } from './schemaText';
+
+interface Connection {
+    readonly cluster: string;
+    readonly database: string;
+    readonly authType: AuthType;
+}
+
+type SchemaNode =
+    | { kind: 'cluster'; cluster: string; connections: readonly Connection[] }
+    | { kind: 'database'; connection: Connection }
+    | { kind: 'group'; connection: Connection; label: string; items: readonly SchemaNode[] }
+    | { kind: 'table'; connection: Connection; table: TableSchema; tableKind: TableKind }
+    | { kind: 'function'; connection: Connection; fn: FunctionSchema }
+    | { kind: 'entityGroup'; connection: Connection; group: EntityGroupSchema }
+    | { kind: 'column'; connection: Connection; table: TableSchema; column: ColumnSchema }
+    | { kind: 'message'; connection: Connection; message: string };
+
+/**
+ * Tree view in the Kusto panel that lists the connections of the loaded documents
+ * (`:setConnection` / `:setDefaultDb`) with their databases, tables, materialized views, external tables,
+ * functions, entity groups and columns.
+ * Schemas are taken from the language service cache and fetched when a database is expanded.
+ */
+export class SchemaExplorerProvider extends Disposable implements vscode.TreeDataProvider<SchemaNode> {
+    public static readonly viewId = 'kusto.schemaExplorer';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<SchemaNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private _connections: readonly Connection[] = [];
+    /** Errors of failed schema fetches, by connection key */
+    private readonly _errors = new Map<string, string>();
+    private readonly _loading = new Set<string>();
+
+    constructor(private readonly model: MutableProject) {
+        super();
+
+        this._register(vscode.window.registerTreeDataProvider(SchemaExplorerProvider.viewId, this));
+        this._register(this._onDidChangeTreeData);
+
+        this._register(vscode.commands.registerCommand('kusto.schemaExplorer.refresh', () => this._refresh()));
+        this._register(vscode.commands.registerCommand('kusto.schemaExplorer.insertName', (node: SchemaNode) => this._insertName(node)));
+        this._register(vscode.commands.registerCommand('kusto.schemaExplorer.insertSampleQuery', (node: SchemaNode) => this._insertSampleQuery(node)));
+        this._register(vscode.commands.registerCommand('kusto.schemaExplorer.copyAsDatatable', (node: SchemaNode) => this._copyAsDatatable(node)));
+
+        // Rediscover connections when documents change; only refresh if they differ
+        this._register(autorun(reader => {
+            const connections = getConnections(this.model.documents.read(reader).values());
+            if (connections.map(connectionKey).join(';') !== this._connections.map(connectionKey).join(';')) {
+                this._connections = connections;
+                this._onDidChangeTreeData.fire(undefined);
+            }
+        }));
+
+        this._register(getLanguageServiceCache().onDidFetchSchema(schema => {
+            this._errors.delete(connectionKey(schema));
+            this._onDidChangeTreeData.fire(undefined);
+        }));
+    }
+
+    getChildren(node?: SchemaNode): SchemaNode[] {
+        if (!node) {
+            const byCluster = new Map<string, Connection[]>();
+            for (const connection of this._connections) {
+                const key = connection.cluster.toLowerCase();
+                byCluster.set(key, [...(byCluster.get(key) ?? []), connection]);
+            }
+            return [...byCluster.values()].map(connections => ({ kind: 'cluster', cluster: connections[0].cluster, connections }));
+        }
+
+        switch (node.kind) {
+            case 'cluster':
+                return node.connections.map(connection => ({ kind: 'database', connection }));
+            case 'database':
+                return this._getDatabaseChildren(node.connection);
+            case 'group':
+                return [...node.items];
+            case 'table':
+                return node.table.columns.map(column => ({ kind: 'column', connection: node.connection, table: node.table, column }));
+            default:
+                return [];
+        }
+    }
+
+    getTreeItem(node: SchemaNode): vscode.TreeItem {
+        const { Collapsed, None } = vscode.TreeItemCollapsibleState;
+
+        switch (node.kind) {
+            case 'cluster': {
+                const item = new vscode.TreeItem(node.cluster.replace(/^https?:\/\//, '').replace(/\/$/, ''), Collapsed);
+                item.id = `cluster:${node.cluster.toLowerCase()}`;
+                item.iconPath = new vscode.ThemeIcon('server');
+                item.tooltip = node.cluster;
+                item.contextValue = 'cluster';
+                return item;
+            }
+            case 'database': {
+                const { cluster, database } = node.connection;
+                const item = new vscode.TreeItem(database, Collapsed);
+                item.id = `database:${connectionKey(node.connection)}`;
+                item.iconPath = new vscode.ThemeIcon('database');
+                const fetchedAt = getLanguageServiceCache().getFetchedAt(cluster, database);
+                if (fetchedAt) {
+                    item.tooltip = `Schema fetched ${fetchedAt.toLocaleString()}`;
+                }
+                item.contextValue = 'database';
+                return item;
+            }
+            case 'group': {
+                const item = new vscode.TreeItem(node.label, node.items.length > 0 ? Collapsed : None);
+                item.id = `group:${connectionKey(node.connection)}:${node.label}`;
+                item.description = `${node.items.length}`;
+                item.iconPath = new vscode.ThemeIcon('folder');
+                return item;
+            }
+            case 'table': {
+                const item = new vscode.TreeItem(node.table.name, Collapsed);
+                item.id = `${node.tableKind}:${connectionKey(node.connection)}:${node.table.name}`;
+                item.description = `${node.table.columns.length} columns`;
+                item.tooltip = node.table.docstring;
+                item.iconPath = new vscode.ThemeIcon(tableIcons[node.tableKind]);
+                item.contextValue = node.tableKind;
+                return item;
+            }
+            case 'function': {
+                const item = new vscode.TreeItem(node.fn.name, None);
+                item.id = `function:${connectionKey(node.connection)}:${node.fn.name}`;
+                item.description = getFunctionSignature(node.fn);
+                item.iconPath = new vscode.ThemeIcon('symbol-function');
+                const tooltip = new vscode.MarkdownString();
+                if (node.fn.docstring) {
+                    tooltip.appendText(node.fn.docstring + '\n\n');
+                }
+                tooltip.appendCodeblock(`${node.fn.name}${getFunctionSignature(node.fn)} ${node.fn.body}`, 'kusto');
+                item.tooltip = tooltip;
+                item.contextValue = 'function';
+                return item;
+            }
+            case 'entityGroup': {
+                const item = new vscode.TreeItem(node.group.name, None);
+                item.id = `entityGroup:${connectionKey(node.connection)}:${node.group.name}`;
+                item.description = `${node.group.entities.length} entities`;
+                item.tooltip = node.group.entities.join('\n');
+                item.iconPath = new vscode.ThemeIcon('layers');
+                item.contextValue = 'entityGroup';
+                return item;
+            }
+            case 'column': {
+                const item = new vscode.TreeItem(node.column.name, None);
+                item.id = `column:${connectionKey(node.connection)}:${node.table.name}:${node.column.name}`;
+                item.description = node.column.type;
+                item.tooltip = node.column.docstring ? `${node.column.type}: ${node.column.docstring}` : node.column.type;
+                item.iconPath = new vscode.ThemeIcon('symbol-field');
+                item.contextValue = 'column';
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.message, None);
+                item.iconPath = new vscode.ThemeIcon(this._loading.has(connectionKey(node.connection)) ? 'loading~spin' : 'warning');
+                return item;
+            }
+        }
+    }
+
+    private _getDatabaseChildren(connection: Connection): SchemaNode[] {
+        const schema = getLanguageServiceCache().getSchema(connection.cluster, connection.database);
+        if (!schema) {
+            return [{ kind: 'message', connection, message: this._loadSchema(connection) }];
+        }
+
+        return [
+            {
+                kind: 'group', connection, label: 'Tables',
+                items: schema.tables.map(table => ({ kind: 'table', connection, table, tableKind: 'table' })),
+            },
+            {
+                kind: 'group', connection, label: 'Materialized Views',
+                items: (schema.materializedViews ?? []).map(table => ({ kind: 'table', connection, table, tableKind: 'materializedView' })),
+            },
+            {
+                kind: 'group', connection, label: 'External Tables',
+                items: (schema.externalTables ?? []).map(table => ({ kind: 'table', connection, table, tableKind: 'externalTable' })),
+            },
+            {
+                kind: 'group', connection, label: 'Functions',
+                items: (schema.functions ?? []).map(fn => ({ kind: 'function', connection, fn })),
+            },
+            {
+                kind: 'group', connection, label: 'Entity Groups',
+                items: (schema.entityGroups ?? []).map(group => ({ kind: 'entityGroup', connection, group })),
+            },
+        ];
+    }
+
+    /** Start fetching the schema of a connection; returns the message to show meanwhile. */
+    private _loadSchema(connection: Connection): string {
+        const key = connectionKey(connection);
+        const error = this._errors.get(key);
+        if (error !== undefined) {
+            return `Failed to load schema: ${error}`;
+        }
+
+        if (!this._loading.has(key)) {
+            this._loading.add(key);
+            refreshSchema(connection.cluster, connection.database, connection.authType)
+                .catch(e => this._errors.set(key, e instanceof Error ? e.message : String(e)))
+                .finally(() => {
+                    this._loading.delete(key);
+                    this._onDidChangeTreeData.fire(undefined);
+                });
+        }
+        return 'Loading schema...';
+    }
+
+    /** Retry failed schemas and refetch the loaded ones. */
+    private async _refresh(): Promise<void> {
+        this._errors.clear();
+        this._onDidChangeTreeData.fire(undefined);
+        await vscode.commands.executeCommand('kusto.refreshAllSchemas');
+    }
+
+    private async _insertName(node: SchemaNode): Promise<void> {
+        const reference = getNodeReference(node);
+        const editor = getKustoEditor();
+        if (reference === undefined || !editor) {
+            return;
+        }
+        await editor.edit(edit => {
+            for (const selection of editor.selections) {
+                edit.replace(selection, reference);
+            }
+        });
+    }
+
+    /** Insert `Table | take 100` as a new fragment after the fragment at the cursor. */
+    private async _insertSampleQuery(node: SchemaNode): Promise<void> {
+        const editor = getKustoEditor();
+        if (node.kind !== 'table' || !editor) {
+            return;
+        }
+
+        const document = editor.document;
+        const akustoDoc = this.model.documents.get().get(document.uri.toString());
+        const fragment = akustoDoc?.getFragmentAt(document.offsetAt(editor.selection.active));
+        const query = getSampleQuery(node.table.name, node.tableKind);
+
+        // Fragments are separated by empty lines
+        let offset: number;
+        let text: string;
+        if (akustoDoc && fragment) {
+            offset = akustoDoc.getFragmentRange(fragment).endExclusive;
+            text = `\n\n${query}`;
+        } else {
+            const line = document.lineAt(editor.selection.active.line);
+            offset = document.offsetAt(line.range.end);
+            text = line.isEmptyOrWhitespace ? query : `\n\n${query}`;
+        }
+
+        const position = document.positionAt(offset);
+        await editor.edit(edit => edit.insert(position, text));
+
+        const start = document.positionAt(offset + text.length - query.length);
+        const end = document.positionAt(offset + text.length);
+        editor.selection = new vscode.Selection(start, end);
+        editor.revealRange(new vscode.Range(start, end));
+    }
+
+    private async _copyAsDatatable(node: SchemaNode): Promise<void> {
+        if (node.kind !== 'table') {
+            return;
+        }
+        await vscode.env.clipboard.writeText(getDatatableDeclaration(node.table));
+        vscode.window.setStatusBarMessage(`Kusto: Copied schema of ${node.table.name} as datatable`, 5000);
+    }
+}
+
+function connectionKey(connection: { cluster: string; database: string }): string {
+    return `${connection.cluster.toLowerCase()}|${connection.database.toLowerCase()}`;
+}
+
+const tableIcons: Record<TableKind, string> = {
+    table: 'table',
+    materializedView: 'eye',
+    externalTable: 'cloud',
+};
+
+/** Text that refers to the node in a query. */
+function getNodeReference(node: SchemaNode): string | undefined {
+    switch (node.kind) {
+        case 'database': return quoteIdentifier(node.connection.database);
+        case 'table': return getTableReference(node.table.name, node.tableKind);
+        case 'function': return quoteIdentifier(node.fn.name);
+        case 'entityGroup': return quoteIdentifier(node.group.name);
+        case 'column': return quoteIdentifier(node.column.name);
+        default: return undefined;
+    }
+}
+
+function getKustoEditor(): vscode.TextEditor | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'kusto') {
+        vscode.window.showWarningMessage('No Kusto document active');
+        return undefined;
+    }
+    return editor;
+}
+
+/**
+ * Get the distinct connections configured in documents, both at the top level and in chapters.
+ */
+function getConnections(documents: Iterable<AkustoDocument>): Connection[] {
+    const result = new Map<string, Connection>();
+
+    const add = (instructions: readonly ResolvedInstruction[]) => {
+        const { cluster, database, authType } = extractConnection(instructions);
+        if (cluster && database) {
+            const connection = { cluster, database, authType };
+            result.set(connectionKey(connection), connection);
+        }
+    };
+
+    for (const doc of documents) {
+        const topLevel = parseConnectionInstructions(doc.ast.getInstructions());
+        add(topLevel);
+        for (const chapter of doc.ast.getChapters()) {
+            add([...topLevel, ...parseConnectionInstructions(chapter.getInstructions())]);
+        }
+    }
+
+    return [...result.values()].sort((a, b) => connectionKey(a).localeCompare(connectionKey(b)));
+}
+
+function parseConnectionInstructions(instructions: readonly Instruction[]): ResolvedInstruction[] {
+    const result: ResolvedInstruction[] = [];
+    for (const instr of instructions) {
+        const parsed = parseInstructionExpression(instr.expression);
+        if (parsed.ok && (parsed.instruction.type === 'setConnection' || parsed.instruction.type === 'setDefaultDb')) {
+            result.push(parsed.instruction);
+        }
+    }
+    return result;
+}
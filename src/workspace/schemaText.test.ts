@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { getDatatableDeclaration, getFunctionSignature, getSampleQuery, quoteIdentifier } from './schemaText';
+
+describe('quoteIdentifier', () => {
+    test('keeps plain identifiers', () => {
+        expect(quoteIdentifier('StormEvents')).toBe('StormEvents');
+        expect(quoteIdentifier('_Column1')).toBe('_Column1');
+    });
+
+    test('quotes other names', () => {
+        expect(quoteIdentifier('My Table')).toBe("['My Table']");
+        expect(quoteIdentifier("it's")).toBe("['it\\'s']");
+        expect(quoteIdentifier('1st')).toBe("['1st']");
+    });
+});
+
+describe('getSampleQuery', () => {
+    test('takes 100 rows', () => {
+        expect(getSampleQuery('Storm-Events')).toMatchInlineSnapshot(`"['Storm-Events'] | take 100"`);
+        expect(getSampleQuery('Archive', 'externalTable')).toMatchInlineSnapshot(`"external_table('Archive') | take 100"`);
+    });
+});
+
+describe('getDatatableDeclaration', () => {
+    test('declares all columns', () => {
+        expect(getDatatableDeclaration({
+            name: 'StormEvents',
+            columns: [
+                { name: 'StartTime', type: 'datetime' },
+                { name: 'Event Type', type: 'string', docstring: 'Kind of event' },
+            ],
+        })).toMatchInlineSnapshot(`
+          "let StormEvents = datatable(
+              StartTime: datetime,
+              ['Event Type']: string
+          )[];"
+        `);
+    });
+});
+
+describe('getFunctionSignature', () => {
+    test('includes types and default values', () => {
+        expect(getFunctionSignature({
+            name: 'EventsSince',
+            parameters: [
+                { name: 'start', type: 'datetime' },
+                { name: 'limit', type: 'long', defaultValue: '10' },
+                { name: 'T', type: '(State:string)' },
+            ],
+            body: '{ T | take limit }',
+        })).toMatchInlineSnapshot(`"(start: datetime, limit: long = 10, T: (State:string))"`);
+    });
+});
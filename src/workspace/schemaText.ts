@@ -0,0 +1,50 @@
+import { FunctionSchema, TableSchema } from '../language/kusto/kustoLanguageService';
+
+/**
+ * Quote a name for use in a query if it isn't a plain identifier, e.g. `['My Table']`.
+ */
+export function quoteIdentifier(name: string): string {
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        return name;
+    }
+    return `['${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+export type TableKind = 'table' | 'materializedView' | 'externalTable';
+
+/**
+ * Reference to a table in a query, e.g. `StormEvents` or `external_table('Archive')`.
+ */
+export function getTableReference(tableName: string, kind: TableKind = 'table'): string {
+    if (kind === 'externalTable') {
+        return `external_table('${tableName.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}')`;
+    }
+    return quoteIdentifier(tableName);
+}
+
+/**
+ * Query that samples a table, e.g. `StormEvents | take 100`.
+ */
+export function getSampleQuery(tableName: string, kind: TableKind = 'table', rowCount = 100): string {
+    return `${getTableReference(tableName, kind)} | take ${rowCount}`;
+}
+
+/**
+ * Declare an empty table with the same schema as a `let` datatable,
+ * e.g. to mock a table in a query.
+ */
+export function getDatatableDeclaration(table: TableSchema): string {
+    const columns = table.columns.map(c => `    ${quoteIdentifier(c.name)}: ${c.type}`);
+    return `let ${quoteIdentifier(table.name)} = datatable(\n${columns.join(',\n')}\n)[];`;
+}
+
+/**
+ * Parameter list of a stored function, e.g. `(start: datetime, limit: long = 10)`.
+ */
+export function getFunctionSignature(fn: FunctionSchema): string {
+    const parameters = fn.parameters.map(p => {
+        const param = `${p.name}: ${p.type}`;
+        return p.defaultValue !== undefined ? `${param} = ${p.defaultValue}` : param;
+    });
+    return `(${parameters.join(', ')})`;
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { AgGridReact } from 'ag-grid-react';
-import { ColDef, SelectionChangedEvent } from 'ag-grid-community';
+import { ColDef, IDatasource, SelectionChangedEvent } from 'ag-grid-community';
 import Editor from '@monaco-editor/react';
 import {
   LineChart, Line, BarChart, Bar, PieChart, Pie, AreaChart, Area,
@@ -35,6 +35,13 @@ const ExternalLinkIcon = () => (
   </svg>
 );
 
+const DownloadIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M.5 9.9a.5.5 0 0 1 .5.5v2.5a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-2.5a.5.5 0 0 1 1 0v2.5a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2v-2.5a.5.5 0 0 1 .5-.5z" />
+    <path d="M7.646 11.854a.5.5 0 0 0 .708 0l3-3a.5.5 0 0 0-.708-.708L8.5 10.293V1.5a.5.5 0 0 0-1 0v8.793L5.354 8.146a.5.5 0 1 0-.708.708l3 3z" />
+  </svg>
+);
+
 const TableIcon = () => (
   <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
     <path d="M0 2a2 2 0 0 1 2-2h12a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2V2zm15 2h-4v3h4V4zm0 4h-4v3h4V8zm0 4h-4v3h3a1 1 0 0 0 1-1v-2zm-5 3v-3H6v3h4zm-5 0v-3H1v2a1 1 0 0 0 1 1h3zm-4-4h4V8H1v3zm0-4h4V4H1v3zm5-3v3h4V4H6zm4 4H6v3h4V8z" />
@@ -61,6 +68,12 @@ const TrashIcon = () => (
   </svg>
 );
 
+const PinIcon = () => (
+  <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M4.146.146A.5.5 0 0 1 4.5 0h7a.5.5 0 0 1 .5.5c0 .68-.342 1.174-.646 1.479-.126.125-.25.224-.354.298v4.431l.078.048c.203.127.476.314.751.555C12.36 7.775 13 8.527 13 9.5a.5.5 0 0 1-.5.5h-4v4.5c0 .276-.224 1.5-.5 1.5s-.5-1.224-.5-1.5V10h-4a.5.5 0 0 1-.5-.5c0-.973.64-1.725 1.17-2.189A6 6 0 0 1 5 6.708V2.277a3 3 0 0 1-.354-.298C4.342 1.674 4 1.179 4 .5a.5.5 0 0 1 .146-.354z" />
+  </svg>
+);
+
 // Visualization type from Kusto render operator
 interface KustoVisualization {
   type: string;
@@ -76,6 +89,20 @@ interface KustoVisualization {
 
 type QueryStatus = 'running' | 'success' | 'error' | 'cancelled';
 
+// Resource consumption reported by the cluster
+interface QueryStatistics {
+  executionTimeMs?: number;
+  cpuTimeMs?: number;
+  memoryPeakBytes?: number;
+  extentsTotal?: number;
+  extentsScanned?: number;
+  rowsTotal?: number;
+  rowsScanned?: number;
+  cacheHitRate?: number;
+  memoryCacheHitRate?: number;
+  diskCacheHitRate?: number;
+}
+
 // Execution info synced from extension (lightweight, no result data)
 interface SerializedExecution {
   id: string;
@@ -86,7 +113,22 @@ interface SerializedExecution {
   endTime: number | undefined;  // milliseconds since epoch, or undefined
   status: QueryStatus;
   totalRows?: number;
+  tableCount?: number;
+  statistics?: QueryStatistics;
   errorMessage?: string;
+  hasWebEditor: boolean;
+  pinned: boolean;
+}
+
+// A named result table; queries can return several (e.g. using `fork`)
+interface ResultTable {
+  name: string;
+  columns: string[];
+  columnTypes?: string[];  // Kusto types; missing for history stored by older versions
+  rows?: unknown[][];  // Only rows streamed in while the query runs; otherwise requested in ranges
+  rowCount: number;  // Rows available; less than totalRows if rows were discarded
+  totalRows: number;
+  visualization?: KustoVisualization;
 }
 
 // Full data for a specific execution (fetched on demand)
@@ -100,11 +142,11 @@ interface ExecutionFullData {
   endTime: number | undefined;
   status: QueryStatus;
   result?: {
-    columns: string[];
-    rows: unknown[][];
-    totalRows: number;
+    tables: ResultTable[];
     resolvedQuery: string;
-    visualization?: KustoVisualization;
+    truncatedAt?: number;
+    rowsOmitted?: boolean;
+    statistics?: QueryStatistics;
   };
   errorMessage?: string;
 }
@@ -113,15 +155,16 @@ interface ExecutionFullData {
 interface QueryResultMessage {
   type: 'queryResult';
   data: {
-    columns: string[];
-    rows: unknown[][];
-    totalRows: number;
+    tables: ResultTable[];
+    truncatedAt?: number;
+    rowsOmitted?: boolean;
+    statistics?: QueryStatistics;
+    durationMs?: number;
     cluster: string;
     database: string;
     timestamp: string;
     originalQuery: string;
     resolvedQuery: string;
-    visualization?: KustoVisualization;
   };
 }
 
@@ -151,11 +194,51 @@ interface FullDataMessage {
   data: ExecutionFullData;
 }
 
+// Rows of a running query, sent as they stream in; `offset` is the index of the first sent row
+interface PartialResultMessage {
+  type: 'partialResult';
+  id: string;
+  tables: (Omit<ResultTable, 'visualization' | 'rowCount' | 'rows'> & { offset: number; rows: unknown[][] })[];
+}
+
+// A range of rows requested with `requestRows`
+interface RowsMessage {
+  type: 'rows';
+  requestId: number;
+  rows: unknown[][];
+  rowCount: number;  // Rows matching the filter
+}
+
+// A row of a comparison, aligned with the base row with the same key
+interface RowDiff {
+  kind: 'added' | 'removed' | 'changed' | 'unchanged';
+  values: unknown[];
+  baseValues?: unknown[];
+  changedColumns: number[];
+  deltas: Record<number, number>;
+}
+
+interface ComparisonData {
+  columns: string[];
+  commonColumns: string[];
+  keyColumns: string[];
+  rows: RowDiff[];
+  counts: Record<RowDiff['kind'], number>;
+  rowsOmitted: number;  // Rows beyond the sent ones (unchanged rows are sent last)
+}
+
+interface ComparisonMessage {
+  type: 'comparison';
+  baseId: string;
+  otherId: string;
+  data: ComparisonData | { error: string };
+}
+
 interface EjectedEditorClosedMessage {
   type: 'ejectedEditorClosed';
 }
 
-type WebviewMessage = QueryResultMessage | QueryErrorMessage | HistorySyncMessage | FullDataMessage | EjectedEditorClosedMessage;
+type WebviewMessage = QueryResultMessage | QueryErrorMessage | HistorySyncMessage | FullDataMessage | PartialResultMessage | RowsMessage | ComparisonMessage | EjectedEditorClosedMessage;
 
 // Declare VS Code API
 declare function acquireVsCodeApi(): {
@@ -166,16 +249,59 @@ declare function acquireVsCodeApi(): {
 
 const vscode = acquireVsCodeApi();
 
+// Rows are sorted and filtered by the extension, which sends the requested range
+interface RowRequest {
+  id: string;
+  tableIndex: number;
+  startRow: number;
+  endRow: number;
+  sortModel?: { colId: string; sort: 'asc' | 'desc' }[];
+  filterModel?: Record<string, unknown>;
+}
+
+const ROWS_PER_BLOCK = 500;
+// "Fetch more" reruns a truncated query with this many times its row limit
+const FETCH_MORE_FACTOR = 10;
+const MAX_CHART_ROWS = 10000;
+
+let nextRowRequestId = 0;
+const pendingRowRequests = new Map<number, (message: RowsMessage) => void>();
+
+function requestRows(request: RowRequest): Promise<RowsMessage> {
+  const requestId = nextRowRequestId++;
+  return new Promise(resolve => {
+    pendingRowRequests.set(requestId, resolve);
+    vscode.postMessage({ type: 'requestRows', requestId, ...request });
+  });
+}
+
+function toRowObject(columns: string[], row: unknown[]): Record<string, unknown> {
+  const obj: Record<string, unknown> = {};
+  columns.forEach((col, i) => {
+    obj[col] = row[i];
+  });
+  return obj;
+}
+
 type ViewMode = 'table' | 'chart';
+type TimeZoneMode = 'utc' | 'local';
 
 function App() {
   const [resultData, setResultData] = useState<QueryResultMessage['data'] | null>(null);
+  const [selectedTableIndex, setSelectedTableIndex] = useState(0);
+  const [partialData, setPartialData] = useState<{ id: string; tables: ResultTable[] } | null>(null);
+  const [chartRows, setChartRows] = useState<Record<string, unknown>[]>([]);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<{ baseId: string; otherId: string } | null>(null);
+  const [keyColumns, setKeyColumns] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<ComparisonMessage['data'] | null>(null);
   const [errorData, setErrorData] = useState<QueryErrorMessage['data'] | null>(null);
   const [selectedRows, setSelectedRows] = useState<Record<string, unknown>[]>([]);
   const [showSidePanel, setShowSidePanel] = useState(true);
   const [isEjected, setIsEjected] = useState(false);
   const [panelWidth, setPanelWidth] = useState(350);
   const [viewMode, setViewMode] = useState<ViewMode>('table');
+  const [timeZone, setTimeZone] = useState<TimeZoneMode>('utc');
   const [executions, setExecutions] = useState<SerializedExecution[]>([]);
   const [selectedExecutionId, setSelectedExecutionId] = useState<string | null>(null);
   const [cachedFullData, setCachedFullData] = useState<Map<string, ExecutionFullData>>(new Map());
@@ -188,11 +314,20 @@ function App() {
   // Find currently running query (if any)
   const runningExecution = executions.find(e => e.status === 'running');
   const selectedExecution = executions.find(e => e.id === selectedExecutionId);
+  const pinnedExecutions = executions.filter(e => e.pinned && e.status === 'success');
+  const canCompare = pinnedExecutions.length >= 2;
+
+  // Rows of the running query received so far
+  const streamingData = runningExecution && partialData?.id === runningExecution.id && partialData.tables.length > 0 ? partialData : null;
+
+  // The result table shown in the grid or chart
+  const shownTables = streamingData?.tables ?? resultData?.tables;
+  const currentTable = shownTables ? (shownTables[selectedTableIndex] ?? shownTables[0]) : undefined;
 
   // Determine if visualization is available and what type
-  const hasVisualization = resultData?.visualization &&
-    resultData.visualization.type &&
-    resultData.visualization.type !== 'table';
+  const hasVisualization = currentTable?.visualization &&
+    currentTable.visualization.type &&
+    currentTable.visualization.type !== 'table';
 
   // Auto-switch to chart view when visualization is present
   useEffect(() => {
@@ -289,6 +424,33 @@ function App() {
     }
   }, [selectedJson]);
 
+  const handleExport = useCallback(() => {
+    if (selectedExecutionId) {
+      vscode.postMessage({ type: 'exportResults', id: selectedExecutionId, tableIndex: selectedTableIndex });
+    }
+  }, [selectedExecutionId, selectedTableIndex]);
+
+  const handleFetchMore = useCallback((truncatedAt: number) => {
+    if (selectedExecutionId) {
+      vscode.postMessage({ type: 'fetchMore', id: selectedExecutionId, rowLimit: truncatedAt * FETCH_MORE_FACTOR });
+    }
+  }, [selectedExecutionId]);
+
+  const handleSelectTable = useCallback((index: number) => {
+    setSelectedTableIndex(index);
+    setSelectedRows([]);
+  }, []);
+
+  const handleOpenInWebEditor = useCallback(() => {
+    if (selectedExecutionId) {
+      vscode.postMessage({ type: 'openInWebEditor', id: selectedExecutionId });
+    }
+  }, [selectedExecutionId]);
+
+  const handleToggleTimeZone = useCallback(() => {
+    setTimeZone(prev => prev === 'utc' ? 'local' : 'utc');
+  }, []);
+
   const handleToggleViewMode = useCallback(() => {
     setViewMode(prev => prev === 'table' ? 'chart' : 'table');
   }, []);
@@ -303,6 +465,15 @@ function App() {
     vscode.postMessage({ type: 'requestFullData', id: execution.id });
   }, []);
 
+  const handleTogglePinned = useCallback((e: React.MouseEvent, execution: SerializedExecution) => {
+    e.stopPropagation();
+    vscode.postMessage({ type: 'setPinned', id: execution.id, pinned: !execution.pinned });
+  }, []);
+
+  const handleToggleCompareMode = useCallback(() => {
+    setCompareMode(prev => !prev);
+  }, []);
+
   const handleDeleteHistoryItem = useCallback((e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     vscode.postMessage({ type: 'deleteHistoryItem', id });
@@ -339,25 +510,42 @@ function App() {
           setSelectedRows([]);
           break;
         }
+        case 'partialResult': {
+          setPartialData(prev => ({
+            id: message.id,
+            tables: message.tables.map(({ offset, ...table }, index) => {
+              const previousRows = prev?.id === message.id && offset > 0 ? prev.tables[index]?.rows ?? [] : [];
+              const rows = previousRows.concat(table.rows);
+              return { ...table, rows, rowCount: rows.length };
+            }),
+          }));
+          break;
+        }
         case 'fullData': {
           // Cache the full data
           setCachedFullData(prev => new Map(prev).set(message.id, message.data));
+          // Streamed rows are superseded by the complete result
+          if (message.data.status !== 'running') {
+            setPartialData(prev => (prev?.id === message.id ? null : prev));
+          }
 
           // If this is for the currently selected execution, update display
           if (message.id === selectedExecutionId) {
             const exec = executions.find(e => e.id === message.id);
             if (message.data.result && exec) {
               setResultData({
-                columns: message.data.result.columns,
-                rows: message.data.result.rows,
-                totalRows: message.data.result.totalRows,
+                tables: message.data.result.tables,
+                truncatedAt: message.data.result.truncatedAt,
+                rowsOmitted: message.data.result.rowsOmitted,
+                statistics: message.data.result.statistics,
+                durationMs: exec.endTime ? exec.endTime - exec.startTime : undefined,
                 cluster: exec.cluster,
                 database: exec.database,
                 timestamp: exec.endTime ? new Date(exec.endTime).toLocaleTimeString() : '',
                 originalQuery: exec.originalQuery,
                 resolvedQuery: message.data.result.resolvedQuery,
-                visualization: message.data.result.visualization,
               });
+              setSelectedTableIndex(0);
               setErrorData(null);
             } else if (message.data.errorMessage && exec) {
               setErrorData({
@@ -373,6 +561,15 @@ function App() {
           }
           break;
         }
+        case 'comparison':
+          if (compareIds && message.baseId === compareIds.baseId && message.otherId === compareIds.otherId) {
+            setComparison(message.data);
+          }
+          break;
+        case 'rows':
+          pendingRowRequests.get(message.requestId)?.(message);
+          pendingRowRequests.delete(message.requestId);
+          break;
         case 'ejectedEditorClosed':
           setIsEjected(false);
           break;
@@ -382,35 +579,96 @@ function App() {
     window.addEventListener('message', handleMessage);
 
     return () => window.removeEventListener('message', handleMessage);
-  }, [selectedExecutionId, executions, cachedFullData]);
+  }, [selectedExecutionId, executions, cachedFullData, compareIds]);
+
+  // Compare the two most recently pinned results until others are chosen
+  useEffect(() => {
+    const pinnedIds = pinnedExecutions.map(e => e.id);
+    if (!compareMode || !canCompare) {
+      setCompareIds(null);
+    } else if (!compareIds || !pinnedIds.includes(compareIds.baseId) || !pinnedIds.includes(compareIds.otherId)) {
+      setCompareIds({ baseId: pinnedIds[1], otherId: pinnedIds[0] });
+    }
+  }, [compareMode, canCompare, pinnedExecutions, compareIds]);
+
+  // The comparison is computed by the extension, which has the rows
+  useEffect(() => {
+    setComparison(null);
+    if (compareIds) {
+      vscode.postMessage({ type: 'compareResults', ...compareIds, keyColumns });
+    }
+  }, [compareIds, keyColumns]);
 
   // Build column definitions from result data
   const columnDefs = useMemo((): ColDef[] => {
-    if (!resultData) return [];
-
-    return resultData.columns.map((col) => ({
-      field: col,
-      headerName: col,
-      sortable: true,
-      filter: true,
-      resizable: true,
-      cellRenderer: ({ value }: { value: unknown }) => formatCellValue(value),
-      minWidth: 80,
-    }));
-  }, [resultData]);
-
-  // Convert rows to row data objects
+    if (!currentTable) return [];
+
+    return currentTable.columns.map((col, i) => {
+      const type = currentTable.columnTypes?.[i];
+      const isNumeric = type !== undefined && NUMERIC_TYPES.has(type);
+      return {
+        field: col,
+        headerName: col,
+        headerTooltip: type ? `${col}: ${type}` : undefined,
+        sortable: true,
+        filter: isNumeric ? 'agNumberColumnFilter' : 'agTextColumnFilter',
+        resizable: true,
+        cellRenderer: ({ value }: { value: unknown }) => formatCellValue(value, type, timeZone),
+        minWidth: 80,
+        // Longs beyond the double range and decimals are exact strings
+        ...(isNumeric ? { type: 'rightAligned', comparator: compareNumeric } : {}),
+        // Expanded dynamic values grow the row
+        ...(type === 'dynamic' ? { autoHeight: true } : {}),
+      };
+    });
+  }, [currentTable, timeZone]);
+
+  const hasDatetimeColumn = currentTable?.columnTypes?.includes('datetime') ?? false;
+
+  // Convert streamed rows to row data objects
   const rowData = useMemo(() => {
-    if (!resultData) return [];
-
-    return resultData.rows.map((row) => {
-      const obj: Record<string, unknown> = {};
-      resultData.columns.forEach((col, i) => {
-        obj[col] = row[i];
-      });
-      return obj;
+    if (!currentTable?.rows) return [];
+    return currentTable.rows.map(row => toRowObject(currentTable.columns, row));
+  }, [currentTable]);
+
+  // Rows of completed results are requested in ranges, sorted and filtered by the extension
+  const pagedTableIndex = resultData && currentTable && !currentTable.rows ? resultData.tables.indexOf(currentTable) : -1;
+  const datasource = useMemo((): IDatasource | undefined => {
+    if (pagedTableIndex === -1 || !selectedExecutionId || !currentTable) return undefined;
+    const id = selectedExecutionId;
+    const columns = currentTable.columns;
+    return {
+      getRows: params => {
+        requestRows({
+          id,
+          tableIndex: pagedTableIndex,
+          startRow: params.startRow,
+          endRow: params.endRow,
+          sortModel: params.sortModel,
+          filterModel: params.filterModel,
+        }).then(
+          message => params.successCallback(message.rows.map(row => toRowObject(columns, row)), message.rowCount),
+          () => params.failCallback(),
+        );
+      },
+    };
+  }, [pagedTableIndex, selectedExecutionId, currentTable]);
+
+  // Charts show the first rows of the table
+  useEffect(() => {
+    if (viewMode !== 'chart' || pagedTableIndex === -1 || !selectedExecutionId || !currentTable) {
+      setChartRows([]);
+      return;
+    }
+    let cancelled = false;
+    const columns = currentTable.columns;
+    requestRows({ id: selectedExecutionId, tableIndex: pagedTableIndex, startRow: 0, endRow: MAX_CHART_ROWS }).then(message => {
+      if (!cancelled) {
+        setChartRows(message.rows.map(row => toRowObject(columns, row)));
+      }
     });
-  }, [resultData]);
+    return () => { cancelled = true; };
+  }, [viewMode, pagedTableIndex, selectedExecutionId, currentTable]);
 
   const defaultColDef = useMemo((): ColDef => ({
     sortable: true,
@@ -442,8 +700,9 @@ function App() {
 
   // Compute shared values
   const showJsonPanel = showSidePanel && !isEjected && selectedRows.length > 0 && viewMode === 'table' && resultData && !errorData && !runningExecution;
-  const vizType = resultData?.visualization?.type?.toLowerCase() || 'table';
-  const hasResults = resultData && !errorData && !runningExecution;
+  const vizType = currentTable?.visualization?.type?.toLowerCase() || 'table';
+  const hasResults = resultData && currentTable && !errorData && !runningExecution;
+  const isStreaming = !!streamingData && !!currentTable;
   const currentExecution = selectedExecution || runningExecution;
   const currentData = currentExecution ? {
     cluster: currentExecution.cluster,
@@ -464,6 +723,15 @@ function App() {
             <HistoryIcon />
             {executions.length > 0 && <span className="history-badge">{executions.length}</span>}
           </button>
+          {(canCompare || compareMode) && (
+            <button
+              className={`icon-button ${compareMode ? 'active' : ''}`}
+              onClick={handleToggleCompareMode}
+              title={compareMode ? 'Show results' : 'Compare pinned results'}
+            >
+              Compare
+            </button>
+          )}
         </div>
         <div className="header-info">
           {currentData && (
@@ -475,9 +743,28 @@ function App() {
           {runningExecution && (
             <span className="elapsed-time">{loadingSeconds}s</span>
           )}
+          {isStreaming && (
+            <span className="row-count">{currentTable.totalRows.toLocaleString()} rows so far</span>
+          )}
+          {(hasResults || isStreaming) && currentTable.rowCount < currentTable.totalRows && !resultData?.rowsOmitted && (
+            <span className="row-count" title="Rows beyond kusto.results.maxRowsPerTable were discarded">
+              (showing {currentTable.rowCount.toLocaleString()})
+            </span>
+          )}
           {hasResults && (
             <>
-              <span className="row-count">{resultData.totalRows.toLocaleString()} rows</span>
+              <span className="row-count">{currentTable.totalRows.toLocaleString()} rows</span>
+              {resultData.rowsOmitted && (
+                <span className="row-count" title="Rows of older history entries are not stored across sessions">(rows not stored)</span>
+              )}
+              {resultData.durationMs !== undefined && (
+                <span className="elapsed-time">{(resultData.durationMs / 1000).toFixed(1)}s</span>
+              )}
+              {resultData.statistics && (
+                <span className="statistics" title={formatStatisticsDetails(resultData.statistics)}>
+                  {formatStatisticsSummary(resultData.statistics)}
+                </span>
+              )}
               {vizType !== 'table' && (
                 <span className="viz-type">{vizType}</span>
               )}
@@ -489,6 +776,33 @@ function App() {
           )}
         </div>
         <div className="header-actions">
+          {hasResults && (
+            <button
+              className="icon-button"
+              onClick={handleExport}
+              title="Export results"
+            >
+              <DownloadIcon />
+            </button>
+          )}
+          {hasResults && selectedExecution?.hasWebEditor && (
+            <button
+              className="icon-button"
+              onClick={handleOpenInWebEditor}
+              title="Open in web editor"
+            >
+              <ExternalLinkIcon />
+            </button>
+          )}
+          {hasResults && viewMode === 'table' && hasDatetimeColumn && (
+            <button
+              className="icon-button"
+              onClick={handleToggleTimeZone}
+              title={timeZone === 'utc' ? 'Datetimes are shown in UTC. Click to show local time.' : 'Datetimes are shown in local time. Click to show UTC.'}
+            >
+              {timeZone === 'utc' ? 'UTC' : 'Local'}
+            </button>
+          )}
           {hasResults && hasVisualization && (
             <button
               className="icon-button"
@@ -522,6 +836,37 @@ function App() {
           )}
         </div>
       </div>
+      {(hasResults || isStreaming) && shownTables && shownTables.length > 1 && (
+        <div className="result-tabs">
+          {shownTables.map((table, index) => (
+            <button
+              key={index}
+              className={`result-tab ${table === currentTable ? 'active' : ''}`}
+              onClick={() => handleSelectTable(index)}
+              title={`${table.totalRows.toLocaleString()} rows`}
+            >
+              {table.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {isStreaming && (
+        <div className="streaming-bar">
+          <div className="loading-spinner small"></div>
+          <span>Receiving results...</span>
+          <button className="cancel-button" onClick={() => handleCancel(runningExecution!.id)}>
+            Cancel
+          </button>
+        </div>
+      )}
+      {hasResults && resultData.truncatedAt !== undefined && (
+        <div className="truncated-bar">
+          <span>Result truncated at {resultData.truncatedAt.toLocaleString()} rows</span>
+          <button className="cancel-button" onClick={() => handleFetchMore(resultData.truncatedAt!)}>
+            Fetch up to {(resultData.truncatedAt * (FETCH_MORE_FACTOR - 1)).toLocaleString()} more
+          </button>
+        </div>
+      )}
       <div className="main-content">
         {showHistory && (
           <div className="history-panel">
@@ -531,7 +876,7 @@ function App() {
                 <button
                   className="icon-button small"
                   onClick={handleClearHistory}
-                  title="Clear history"
+                  title="Clear history (pinned results are kept)"
                 >
                   <TrashIcon />
                 </button>
@@ -561,6 +906,15 @@ function App() {
                           {isAI && <span className="history-ai-badge" title="Query from AI">AI</span>}
                           {exec.status === 'running' ? `${elapsedSeconds}s` : timestamp}
                         </span>
+                        {exec.status === 'success' && (
+                          <button
+                            className={`history-pin ${exec.pinned ? 'pinned' : ''}`}
+                            onClick={(e) => handleTogglePinned(e, exec)}
+                            title={exec.pinned ? 'Unpin' : 'Pin to keep and compare'}
+                          >
+                            <PinIcon />
+                          </button>
+                        )}
                         {exec.status !== 'running' && (
                           <button
                             className="history-delete"
@@ -588,7 +942,11 @@ function App() {
                       <div className="history-meta">
                         <span>{exec.database}</span>
                         {exec.status === 'success' && exec.totalRows !== undefined && <span>{exec.totalRows} rows</span>}
-                        {exec.status === 'success' && exec.totalRows === undefined && cachedData?.result && <span>{cachedData.result.totalRows} rows</span>}
+                        {exec.status === 'success' && exec.totalRows === undefined && cachedData?.result && <span>{cachedData.result.tables[0]?.totalRows ?? 0} rows</span>}
+                        {exec.status === 'success' && exec.tableCount !== undefined && exec.tableCount > 1 && <span>{exec.tableCount} tables</span>}
+                        {exec.status === 'success' && exec.statistics && (
+                          <span title={formatStatisticsDetails(exec.statistics)}>{formatStatisticsSummary(exec.statistics)}</span>
+                        )}
                         {exec.status === 'error' && <span className="history-error-badge">Error</span>}
                         {exec.status === 'running' && <span className="history-running-badge">Running</span>}
                         {exec.status === 'cancelled' && <span className="history-cancelled-badge">Cancelled</span>}
@@ -601,7 +959,16 @@ function App() {
           </div>
         )}
         <div className="content-area">
-          {runningExecution ? (
+          {compareMode ? (
+            <CompareView
+              pinnedExecutions={pinnedExecutions}
+              compareIds={compareIds}
+              keyColumns={keyColumns}
+              comparison={comparison}
+              onChangeIds={setCompareIds}
+              onChangeKeyColumns={setKeyColumns}
+            />
+          ) : runningExecution && !isStreaming ? (
             <div className="loading-container">
               <div className="loading-spinner"></div>
               <div className="loading-text">Executing query...</div>
@@ -624,12 +991,15 @@ function App() {
                 <pre>{errorData.resolvedQuery}</pre>
               </details>
             </div>
-          ) : hasResults && viewMode === 'table' ? (
+          ) : (hasResults || isStreaming) && viewMode === 'table' ? (
             <>
               <div className={`grid-container ag-theme-quartz-dark ${showJsonPanel ? 'with-panel' : ''}`}>
                 <AgGridReact
+                  key={datasource ? 'paged' : 'streamed'}
                   ref={gridRef}
-                  rowData={rowData}
+                  {...(datasource
+                    ? { rowModelType: 'infinite' as const, datasource, cacheBlockSize: ROWS_PER_BLOCK, maxBlocksInCache: 20 }
+                    : { rowData })}
                   columnDefs={columnDefs}
                   defaultColDef={defaultColDef}
                   onGridReady={onGridReady}
@@ -670,9 +1040,9 @@ function App() {
           ) : hasResults ? (
             <div className="chart-container">
               <ChartRenderer
-                data={rowData}
-                columns={resultData!.columns}
-                visualization={resultData!.visualization}
+                data={chartRows}
+                columns={currentTable!.columns}
+                visualization={currentTable!.visualization}
               />
             </div>
           ) : (
@@ -687,6 +1057,124 @@ function App() {
   );
 }
 
+// Side-by-side comparison of two pinned results
+interface CompareViewProps {
+  pinnedExecutions: SerializedExecution[];
+  compareIds: { baseId: string; otherId: string } | null;
+  keyColumns: string[];
+  comparison: ComparisonMessage['data'] | null;
+  onChangeIds: (ids: { baseId: string; otherId: string }) => void;
+  onChangeKeyColumns: (columns: string[]) => void;
+}
+
+const DIFF_MARKERS: Record<RowDiff['kind'], string> = { added: '+', removed: '−', changed: '~', unchanged: '' };
+
+function CompareView({ pinnedExecutions, compareIds, keyColumns, comparison, onChangeIds, onChangeKeyColumns }: CompareViewProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  if (!compareIds) {
+    return (
+      <div className="empty-state">
+        <div className="message">Pin two successful results to compare them</div>
+      </div>
+    );
+  }
+
+  const label = (exec: SerializedExecution) => {
+    const query = exec.originalQuery.length > 40 ? exec.originalQuery.substring(0, 37) + '...' : exec.originalQuery;
+    return `${new Date(exec.endTime ?? exec.startTime).toLocaleTimeString()} ${query}`;
+  };
+  const selector = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={e => onChange(e.target.value)}>
+      {pinnedExecutions.map(exec => <option key={exec.id} value={exec.id}>{label(exec)}</option>)}
+    </select>
+  );
+  const toggleKeyColumn = (column: string) => {
+    onChangeKeyColumns(keyColumns.includes(column) ? keyColumns.filter(c => c !== column) : [...keyColumns, column]);
+  };
+
+  const data = comparison && !('error' in comparison) ? comparison : null;
+  const rows = data ? data.rows.filter(row => showUnchanged || row.kind !== 'unchanged') : [];
+
+  return (
+    <div className="compare-container">
+      <div className="compare-controls">
+        <label>Base {selector(compareIds.baseId, baseId => onChangeIds({ ...compareIds, baseId }))}</label>
+        <label>Compared {selector(compareIds.otherId, otherId => onChangeIds({ ...compareIds, otherId }))}</label>
+        <label>
+          <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+          Unchanged rows
+        </label>
+      </div>
+      {data && (
+        <div className="compare-controls">
+          <span title="Rows with equal values in the key columns are aligned; without key columns, rows are aligned by position">Key columns:</span>
+          {data.commonColumns.map(column => (
+            <label key={column}>
+              <input type="checkbox" checked={keyColumns.includes(column)} onChange={() => toggleKeyColumn(column)} />
+              {column}
+            </label>
+          ))}
+          <span className="compare-summary">
+            <span className="diff-added">+{data.counts.added}</span>
+            <span className="diff-removed">−{data.counts.removed}</span>
+            <span className="diff-changed">~{data.counts.changed}</span>
+            <span>={data.counts.unchanged}</span>
+          </span>
+        </div>
+      )}
+      {comparison && 'error' in comparison ? (
+        <div className="error-message">{comparison.error}</div>
+      ) : !data ? (
+        <div className="loading-container">
+          <div className="loading-spinner"></div>
+        </div>
+      ) : (
+        <div className="compare-table-container">
+          <table className="compare-table">
+            <thead>
+              <tr>
+                <th></th>
+                {data.columns.map(column => (
+                  <th key={column} className={data.keyColumns.includes(column) ? 'key-column' : ''}>{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className={`diff-row-${row.kind}`}>
+                  <td className="diff-marker">{DIFF_MARKERS[row.kind]}</td>
+                  {row.values.map((value, c) => {
+                    const changed = row.changedColumns.includes(c);
+                    const delta = row.deltas[c];
+                    return (
+                      <td key={c} className={changed ? 'diff-cell-changed' : ''}>
+                        {changed && <span className="diff-base-value">{formatCompareValue(row.baseValues?.[c])}</span>}
+                        {formatCompareValue(value)}
+                        {delta !== undefined && <span className="diff-delta">{delta > 0 ? '+' : ''}{delta.toLocaleString()}</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {data.rowsOmitted > 0 && (
+            <div className="compare-omitted">{data.rowsOmitted.toLocaleString()} more rows not shown</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatCompareValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
 // Chart renderer component
 interface ChartRendererProps {
   data: Record<string, unknown>[];
@@ -898,11 +1386,83 @@ function ChartRenderer({ data, columns, visualization }: ChartRendererProps) {
   );
 }
 
-function formatCellValue(value: unknown): JSX.Element {
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(rate < 1 && rate > 0.995 ? 1 : 0)}%`;
+}
+
+/** Short summary of the statistics, e.g. `CPU 1.50s · 50.0 MB · 12/120 extents · 90% cache` */
+function formatStatisticsSummary(stats: QueryStatistics): string {
+  const parts: string[] = [];
+  if (stats.cpuTimeMs !== undefined) parts.push(`CPU ${(stats.cpuTimeMs / 1000).toFixed(2)}s`);
+  if (stats.memoryPeakBytes !== undefined) parts.push(formatBytes(stats.memoryPeakBytes));
+  if (stats.extentsScanned !== undefined && stats.extentsTotal !== undefined) parts.push(`${stats.extentsScanned.toLocaleString()}/${stats.extentsTotal.toLocaleString()} extents`);
+  const cacheHitRate = stats.cacheHitRate ?? stats.memoryCacheHitRate;
+  if (cacheHitRate !== undefined) parts.push(`${formatPercent(cacheHitRate)} cache`);
+  return parts.join(' · ');
+}
+
+/** All statistics, one per line (for tooltips) */
+function formatStatisticsDetails(stats: QueryStatistics): string {
+  const lines: string[] = [];
+  if (stats.executionTimeMs !== undefined) lines.push(`Execution time: ${(stats.executionTimeMs / 1000).toFixed(3)}s`);
+  if (stats.cpuTimeMs !== undefined) lines.push(`CPU time: ${(stats.cpuTimeMs / 1000).toFixed(3)}s`);
+  if (stats.memoryPeakBytes !== undefined) lines.push(`Memory peak per node: ${formatBytes(stats.memoryPeakBytes)}`);
+  if (stats.extentsTotal !== undefined) lines.push(`Extents scanned: ${(stats.extentsScanned ?? 0).toLocaleString()} of ${stats.extentsTotal.toLocaleString()}`);
+  if (stats.rowsTotal !== undefined) lines.push(`Rows scanned: ${(stats.rowsScanned ?? 0).toLocaleString()} of ${stats.rowsTotal.toLocaleString()}`);
+  if (stats.cacheHitRate !== undefined) lines.push(`Hot cache hit rate: ${formatPercent(stats.cacheHitRate)}`);
+  if (stats.memoryCacheHitRate !== undefined) lines.push(`Memory cache hit rate: ${formatPercent(stats.memoryCacheHitRate)}`);
+  if (stats.diskCacheHitRate !== undefined) lines.push(`Disk cache hit rate: ${formatPercent(stats.diskCacheHitRate)}`);
+  return lines.join('\n');
+}
+
+// Kusto column types that are rendered as right-aligned numbers
+const NUMERIC_TYPES = new Set(['int', 'long', 'real', 'decimal']);
+
+function compareNumeric(a: unknown, b: unknown): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : -1;
+  if (b === null || b === undefined) return 1;
+  return Number(a) - Number(b);
+}
+
+function formatCellValue(value: unknown, type: string | undefined, timeZone: TimeZoneMode): JSX.Element {
   if (value === null || value === undefined) {
     return <span className="cell-null">null</span>;
   }
 
+  switch (type) {
+    case 'int':
+    case 'long':
+      return <span className="cell-number">{formatInteger(value)}</span>;
+    case 'real':
+    case 'decimal':
+      // Decimals arrive as strings; show them (and reals) without rounding
+      return <span className="cell-number">{String(value)}</span>;
+    case 'bool':
+      return <span className="cell-boolean">{value === true || value === 1 ? 'true' : 'false'}</span>;
+    case 'datetime':
+      return <span className="cell-datetime" title={String(value)}>{formatDatetime(String(value), timeZone)}</span>;
+    case 'timespan':
+      return <span className="cell-timespan">{formatTimespan(value)}</span>;
+    case 'guid':
+      return <span className="cell-guid">{String(value)}</span>;
+    case 'dynamic':
+      return <DynamicCell value={value} />;
+    case 'string':
+      return <span>{String(value)}</span>;
+  }
+
+  // Without type information (e.g. older history entries), guess from the value
   if (typeof value === 'object') {
     return <span className="cell-object">{JSON.stringify(value)}</span>;
   }
@@ -924,4 +1484,76 @@ function formatCellValue(value: unknown): JSX.Element {
   return <span>{strValue}</span>;
 }
 
+/** Group the digits of an integer exactly, also for longs beyond the double range (which arrive as strings). */
+function formatInteger(value: unknown): string {
+  try {
+    return BigInt(value as string | number).toLocaleString();
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Format a Kusto datetime (ISO 8601 in UTC) as `yyyy-MM-dd HH:mm:ss.fffffff`,
+ * in UTC or local time. The fraction is kept as is since Date only has millisecond precision.
+ */
+function formatDatetime(value: string, timeZone: TimeZoneMode): string {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(\.\d+)?Z?$/.exec(value);
+  if (!match) {
+    return value;
+  }
+  const fraction = match[3] ?? '';
+  if (timeZone === 'utc') {
+    return `${match[1]} ${match[2]}${fraction}`;
+  }
+  const date = new Date(`${match[1]}T${match[2]}Z`);
+  if (isNaN(date.getTime())) {
+    return value;
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}${fraction}`;
+}
+
+/**
+ * Format a Kusto timespan as `[-][d.]hh:mm:ss[.fffffff]` without trailing zeros in the fraction.
+ * Timespans arrive as strings (`1.02:03:04.5000000`); numbers are treated as milliseconds.
+ */
+function formatTimespan(value: unknown): string {
+  if (typeof value === 'number') {
+    const sign = value < 0 ? '-' : '';
+    let ms = Math.abs(value);
+    const days = Math.floor(ms / 86_400_000);
+    ms -= days * 86_400_000;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const time = `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}`;
+    const fraction = ms % 1000 ? `.${String(Math.round(ms % 1000)).padStart(3, '0')}`.replace(/0+$/, '') : '';
+    return `${sign}${days ? `${days}.` : ''}${time}${fraction}`;
+  }
+  return String(value).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+}
+
+/** A dynamic value: compact JSON that expands to indented JSON. */
+function DynamicCell({ value }: { value: unknown }) {
+  const [expanded, setExpanded] = useState(false);
+  const expandable = typeof value === 'object' && value !== null;
+
+  if (!expandable) {
+    return <span className="cell-object">{JSON.stringify(value)}</span>;
+  }
+
+  return (
+    <span className={`cell-object cell-dynamic ${expanded ? 'expanded' : ''}`}>
+      <button
+        className="cell-expand"
+        onClick={(e) => { e.stopPropagation(); setExpanded(prev => !prev); }}
+        title={expanded ? 'Collapse' : 'Expand'}
+      >
+        {expanded ? '▾' : '▸'}
+      </button>
+      {expanded ? <pre>{JSON.stringify(value, null, 2)}</pre> : JSON.stringify(value)}
+    </span>
+  );
+}
+
 export default App;